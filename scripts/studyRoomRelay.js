@@ -0,0 +1,173 @@
+// 学習ルーム用の小さな WebSocket 中継サーバー（Node の標準モジュールだけで動く）。
+// 同じルームの端末にタイマー一覧を転送し、最後に共有された一覧を新しく参加した端末に渡す。
+// 使い方: npm run relay（ポートは環境変数 PORT で変更できる。既定は 8787）
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// これより大きいメッセージは受け取らない
+const MAX_PAYLOAD_BYTES = 1024 * 1024;
+
+const OPCODES = { continuation: 0x0, text: 0x1, close: 0x8, ping: 0x9, pong: 0xa };
+
+// ルームコード → { sockets: 参加中の接続, timers: 最後に共有された一覧（まだなければ null） }
+const rooms = new Map();
+
+const encodeFrame = (opcode, payload) => {
+  const { length } = payload;
+  const header = Buffer.alloc(length < 126 ? 2 : length < 65536 ? 4 : 10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// 先頭の1フレームを取り出す。まだ全部届いていなければ null
+const decodeFrame = (buffer) => {
+  if (buffer.length < 2) return null;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (length > MAX_PAYLOAD_BYTES) return { tooLarge: true };
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+  return { fin: (buffer[0] & 0x80) !== 0, opcode: buffer[0] & 0x0f, payload, size: offset + length };
+};
+
+const send = (socket, message) => {
+  if (!socket.destroyed) socket.write(encodeFrame(OPCODES.text, Buffer.from(JSON.stringify(message))));
+};
+
+const broadcast = (room, message, except) => {
+  room.sockets.forEach((socket) => {
+    if (socket !== except) send(socket, message);
+  });
+};
+
+const join = (code, socket) => {
+  const room = rooms.get(code) ?? { sockets: new Set(), timers: null };
+  rooms.set(code, room);
+  room.sockets.add(socket);
+  send(socket, { type: 'welcome', serverTime: Date.now(), timers: room.timers, members: room.sockets.size });
+  broadcast(room, { type: 'members', members: room.sockets.size }, socket);
+  return room;
+};
+
+// 最後の1人が抜けたらルームごと消す
+const leave = (code, socket) => {
+  const room = rooms.get(code);
+  if (!room?.sockets.delete(socket)) return;
+  if (room.sockets.size === 0) {
+    rooms.delete(code);
+  } else {
+    broadcast(room, { type: 'members', members: room.sockets.size });
+  }
+};
+
+// 端末から届いたメッセージ。タイマー一覧だけを覚えて他の端末に転送する
+const handleMessage = (room, socket, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  if (message?.type !== 'timers' || !Array.isArray(message.timers)) return;
+  room.timers = message.timers;
+  broadcast(room, { type: 'timers', timers: message.timers }, socket);
+};
+
+const close = (socket, code) => {
+  const payload = Buffer.alloc(2);
+  payload.writeUInt16BE(code);
+  if (!socket.destroyed) socket.end(encodeFrame(OPCODES.close, payload));
+};
+
+const server = createServer((request, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+  response.end(`Study room relay: ${rooms.size} room(s)\n`);
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  const code = new URL(request.url ?? '/', 'http://localhost').searchParams.get('room')?.trim();
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key || !code) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+
+  const room = join(code, socket);
+  let buffer = Buffer.alloc(0);
+  // 分割して届いたメッセージの途中まで
+  let fragments = [];
+
+  socket.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    let frame;
+    while ((frame = decodeFrame(buffer))) {
+      if (frame.tooLarge) {
+        close(socket, 1009);
+        return;
+      }
+      buffer = buffer.subarray(frame.size);
+
+      switch (frame.opcode) {
+        case OPCODES.text:
+        case OPCODES.continuation:
+          fragments.push(frame.payload);
+          if (frame.fin) {
+            handleMessage(room, socket, Buffer.concat(fragments).toString('utf8'));
+            fragments = [];
+          }
+          break;
+        case OPCODES.ping:
+          socket.write(encodeFrame(OPCODES.pong, frame.payload));
+          break;
+        case OPCODES.close:
+          close(socket, 1000);
+          return;
+      }
+    }
+  });
+  socket.on('close', () => leave(code, socket));
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`Study room relay listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MockInstance } from 'vitest';
+import { render } from '@testing-library/react';
+import App from './App';
+import { saveTimers } from './lib/timers';
+import { loadSessions } from './lib/sessionHistory';
+
+describe('App', () => {
+  let consoleError: MockInstance;
+
+  beforeEach(() => {
+    // jsdom には IndexedDB がなく、内蔵曲も取得できないので、そのエラーの表示は抑える
+    consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  it('閉じている間に終了したタイマーを学習記録に残す', () => {
+    saveTimers([{
+      id: 'closed',
+      label: '数学',
+      type: 'duration',
+      target: '00:25:00',
+      alarmSoundId: 'bell',
+      startedAt: Date.now() - 30 * 60 * 1000,
+      totalMs: 25 * 60 * 1000,
+      state: { status: 'running', endTime: Date.now() - 5 * 60 * 1000 }
+    }]);
+
+    render(<App />);
+    expect(loadSessions().map((session) => [session.label, session.outcome])).toEqual([['数学', 'completed']]);
+  });
+});
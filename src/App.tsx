@@ -1,399 +1,584 @@
-import React from 'react';
-import { Clock, Timer as TimerIcon, Music, Volume2, Volume1, VolumeX, Upload, Trash2 } from 'lucide-react';
-import { useState, useEffect, useRef } from 'react';
-
-type TimerType = 'time' | 'duration';
-
-interface BGMTrack {
-  id: string;
-  title: string;
-  composer: string;
-  filename: string;
-  originalName: string;
-  size: number;
-  type: string;
-  uploadedAt: string;
-}
-
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-const ACCEPTED_FORMATS = [
-  'audio/mpeg',
-  'audio/wav',
-  'audio/ogg',
-  'audio/x-m4a'
-];
+import { Clock, Timer as TimerIcon, Music, Volume2, Volume1, VolumeX, Upload, ArrowDownWideNarrow, BarChart3, Keyboard, Maximize2 } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import type { BGMTrack, TimerType } from './types';
+import { BUILT_IN_TRACKS, DEFAULT_TRACK, loadBuiltInLoudness, saveBuiltInLoudness } from './lib/builtInTracks';
+import type { TrackLoudness } from './lib/loudness';
+import { DEFAULT_AMBIENT_MIX, getAmbientTracks } from './lib/ambient';
+import { getRemainingMs } from './lib/timerState';
+import { sortByNextExpiry } from './lib/timers';
+import type { NamedTimer } from './lib/timers';
+import { computeTargetDate } from './lib/timerTarget';
+import type { DurationInput, TimerInput } from './lib/timerTarget';
+import { formatTimerText, parseTimerText } from './lib/timerText';
+import { createPreset, getDefaultPresetName, isPresetInputValid, loadPresets, movePreset, savePresets } from './lib/presets';
+import type { TimerPreset } from './lib/presets';
+import { getNextOccurrence, loadRecurringAlarms, saveRecurringAlarms } from './lib/recurrence';
+import type { RecurringAlarm } from './lib/recurrence';
+import { parseIcs } from './lib/ics';
+import { DEFAULT_ALARM_SOUND_ID, findAlarmSound, getAlarmSounds } from './lib/alarmSounds';
+import { DEFAULT_ALARM_SETTINGS, loadAlarmSettings, saveAlarmSettings } from './lib/alarmSettings';
+import type { AlarmSettings } from './lib/alarmSettings';
+import { DEFAULT_FOCUS_SETTINGS, loadFocusSettings, saveFocusSettings } from './lib/focusSettings';
+import type { FocusSettings } from './lib/focusSettings';
+import { DEFAULT_STUDY_ROOM_SETTINGS, loadStudyRoomSettings, saveStudyRoomSettings } from './lib/studyRoom';
+import type { StudyRoomSettings } from './lib/studyRoom';
+import {
+  DEFAULT_POMODORO_SETTINGS,
+  MAX_POMODORO_SETTINGS,
+  getPhaseDurationMs,
+  loadPomodoroSettings,
+  savePomodoroSettings,
+} from './lib/pomodoro';
+import type { PomodoroSettings } from './lib/pomodoro';
+import { now } from './lib/clock';
+import { useTabStatus } from './hooks/useTabStatus';
+import { useBGMPlayer } from './hooks/useBGMPlayer';
+import { useTrackUploads } from './hooks/useTrackUploads';
+import { useLoudnessAnalysis } from './hooks/useLoudnessAnalysis';
+import { useTrackRepository } from './hooks/useTrackRepository';
+import { useCountdown } from './hooks/useCountdown';
+import { useAudioController } from './hooks/useAudioController';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useNotificationSchedule } from './hooks/useNotificationSchedule';
+import { useRecurringAlarms } from './hooks/useRecurringAlarms';
+import { useTabLeader } from './hooks/useTabLeader';
+import { useTabSync } from './hooks/useTabSync';
+import { useStudyRoom } from './hooks/useStudyRoom';
+import { getAriaKeyShortcuts } from './lib/shortcuts';
+import { useI18n } from './hooks/useI18n';
+import { t } from './lib/i18n';
+import TimerListItem from './components/TimerListItem';
+import NotificationToggle from './components/NotificationToggle';
+import AlarmSettingsPanel from './components/AlarmSettingsPanel';
+import StatsDashboard from './components/StatsDashboard';
+import BackupPanel from './components/BackupPanel';
+import UploadList from './components/UploadList';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import TimerTextInput from './components/TimerTextInput';
+import TrackMenu from './components/TrackMenu';
+import ShortcutHelp from './components/ShortcutHelp';
+import TimeAnnouncer from './components/TimeAnnouncer';
+import FocusMode from './components/FocusMode';
+import PresetBar from './components/PresetBar';
+import RecurringAlarmsPanel from './components/RecurringAlarmsPanel';
+import StudyRoomPanel from './components/StudyRoomPanel';
+import type { TrackEdit } from './components/TrackEditForm';
+import {
+  addSession,
+  createFocusSession,
+  createTimerSession,
+  loadSessions,
+  onSessionsChanged,
+  saveSessions,
+} from './lib/sessionHistory';
+import type { StudySession } from './lib/sessionHistory';
+import {
+  isNotificationSupported,
+  loadNotificationsEnabled,
+  saveNotificationsEnabled,
+  showNotification,
+} from './lib/notifications';
+import { DEFAULT_PLAYLIST_SETTINGS } from './lib/playlist';
+import { toDateKey } from './lib/stats';
+import { createBackup, downloadFile, mergeTrackMetadata, parseBackup, sessionsToCsv } from './lib/backup';
+
+const EMPTY_DURATION: DurationInput = { hours: 0, minutes: 0, seconds: 0 };
+
+// キーボードと音量ボタンで変える音量の幅
+const VOLUME_STEP = 0.1;
 
 function App() {
-  const [currentTime, setCurrentTime] = useState(new Date());
+  const { formatTime, locale, setLocale } = useI18n();
   const [timerType, setTimerType] = useState<TimerType>('time');
-  const [targetTime, setTargetTime] = useState('');
-  const [durationInput, setDurationInput] = useState({
-    hours: 0,
-    minutes: 0,
-    seconds: 0
-  });
-  const [endTime, setEndTime] = useState<Date | null>(null);
-  const [isBGMPlaying, setIsBGMPlaying] = useState(false);
-  const [isBGMLoaded, setIsBGMLoaded] = useState(false);
-  const [tracks, setTracks] = useState<BGMTrack[]>(() => {
+  // 時刻指定・時間指定の入力欄（"90m"、"until 14:05" など）
+  const [timerText, setTimerText] = useState('');
+  const [timerLabel, setTimerLabel] = useState('');
+  const [alarmSoundId, setAlarmSoundId] = useState(DEFAULT_ALARM_SOUND_ID);
+  const [presets, setPresets] = useState<TimerPreset[]>(loadPresets);
+  const [recurringAlarms, setRecurringAlarms] = useState<RecurringAlarm[]>(loadRecurringAlarms);
+  const [sessions, setSessions] = useState<StudySession[]>(loadSessions);
+  const [showStats, setShowStats] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showFocus, setShowFocus] = useState(false);
+  // 集中モードで表示するタイマー。null なら次に終了するタイマーを表示する
+  const [focusTimerId, setFocusTimerId] = useState<string | null>(null);
+  const [focusSettings, setFocusSettings] = useState<FocusSettings>(loadFocusSettings);
+  const [studyRoom, setStudyRoom] = useState<StudyRoomSettings>(loadStudyRoomSettings);
+  const [sortByExpiry, setSortByExpiry] = useState(true);
+  const [alarmSettings, setAlarmSettings] = useState<AlarmSettings>(loadAlarmSettings);
+  const [pomodoroSettings, setPomodoroSettings] = useState<PomodoroSettings>(loadPomodoroSettings);
+  const [notificationsEnabled, setNotificationsEnabled] = useState(loadNotificationsEnabled);
+  const repository = useTrackRepository();
+  const { tracks } = repository;
+  const [isDragging, setIsDragging] = useState(false);
+  const [volume, setVolume] = useState(0.5);
+  const [builtInLoudness, setBuiltInLoudness] = useState<Record<string, TrackLoudness>>(loadBuiltInLoudness);
+  const builtInTracks = BUILT_IN_TRACKS.map((track) => ({ ...track, loudness: builtInLoudness[track.id] }));
+  const playlist = [...builtInTracks, ...tracks, ...getAmbientTracks()];
+  const bgm = useBGMPlayer(playlist, volume, DEFAULT_TRACK);
+  const { uploads, upload, clearFinished } = useTrackUploads(repository, (track) => bgm.select(track));
+
+  // 音量を測っていない曲は、選ばれたときに測って保存する（次からは曲ごとの音量補正がかかる）
+  useLoudnessAnalysis(bgm.currentTrack, (id, loudness) => {
+    if (BUILT_IN_TRACKS.some((track) => track.id === id)) {
+      setBuiltInLoudness((prev) => ({ ...prev, [id]: loudness }));
+      return;
+    }
     try {
-      const saved = localStorage.getItem('bgmTracks');
-      if (!saved) return [];
-
-      const parsedTracks = JSON.parse(saved);
-      // 以前のBlobURLを無効化
-      parsedTracks.forEach((track: BGMTrack) => {
-        if (track.filename.startsWith('blob:')) {
-          URL.revokeObjectURL(track.filename);
-        }
-      });
-      return [];
+      repository.update(id, { loudness });
     } catch (error) {
-      console.error('Error loading tracks:', error);
-      return [];
+      console.error('Error saving track loudness:', error);
     }
   });
-  const [selectedTrack, setSelectedTrack] = useState<BGMTrack | null>(null);
-  const [showUploadForm, setShowUploadForm] = useState(false);
-  const [uploadError, setUploadError] = useState<string | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const [volume, setVolume] = useState(0.5);
-  
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  const bgmRef = useRef<HTMLAudioElement | null>(null);
-  const timerRef = useRef<number>();
 
-  useEffect(() => {
-    let mounted = true;
-
-    const loadAudio = async () => {
-      if (!bgmRef.current) return;
-
-      console.log('Setting up BGM audio...');
-      
-      try {
-        bgmRef.current.oncanplaythrough = () => {
-          console.log('BGM can play through');
-          if (mounted) {
-            setIsBGMLoaded(true);
-          }
-        };
-
-        bgmRef.current.onerror = (e) => {
-          console.error('BGM loading error:', e);
-          if (mounted) {
-            setIsBGMLoaded(false);
-          }
-        };
-
-        bgmRef.current.volume = volume;
-        
-        if (!isBGMLoaded) {
-          await bgmRef.current.load();
-          console.log('BGM load called');
-        }
+  // 再生中のBGMの曲名（学習記録用）
+  const bgmTitle = bgm.isPlaying ? bgm.currentTrack?.title ?? null : null;
 
-      } catch (error) {
-        console.error('Error in BGM setup:', error);
-        if (mounted) {
-          setIsBGMLoaded(false);
-        }
-      }
-    };
+  const recordSession = (session: StudySession) => {
+    setSessions(prev => addSession(prev, session));
+  };
 
-    loadAudio();
+  // 複数のタブで開いていても、アラーム・通知・記録は担当のタブだけが行う
+  const isLeader = useTabLeader();
 
-    return () => {
-      mounted = false;
-      if (bgmRef.current) {
-        bgmRef.current.oncanplaythrough = null;
-        bgmRef.current.onerror = null;
+  const { timers, currentTime, start, update: updateTimer, snooze, applyRemote } = useCountdown(pomodoroSettings, {
+    onExpire: (timer) => {
+      if (!timer.snoozed && !timer.recurringId && timer.state.status === 'running') {
+        recordSession(createTimerSession(timer, 'completed', timer.state.endTime, bgmTitle));
       }
-    };
-  }, [selectedTrack]);
+      audio.ringAlarm(timer.id);
+      if (notificationsEnabled) {
+        showNotification(t('notifications.finishedTitle'), { body: timer.label, tag: timer.id, requireInteraction: true });
+      }
+    },
+    // 終わった集中ブロックを記録する
+    onPhaseEnd: (timer, progress, endedAt) => {
+      if (progress.phase !== 'focus') return;
+      const focusMs = getPhaseDurationMs(pomodoroSettings, 'focus');
+      recordSession(
+        createFocusSession(timer, progress.completedFocus + 1, focusMs, 'completed', endedAt, 0, bgmTitle)
+      );
+    },
+    onPhaseStart: (phase) => audio.enterPhase(phase),
+    // 閉じている間に終了したタイマーも完了として学習記録に残す
+    onMissed: (timer) => {
+      if (timer.snoozed || timer.recurringId || timer.state.status !== 'running') return;
+      recordSession(createTimerSession(timer, 'completed', timer.state.endTime, null));
+    }
+  }, isLeader);
+
+  const alarmSounds = getAlarmSounds(tracks);
+  const audio = useAudioController(bgm, timers, alarmSounds, alarmSettings, volume);
 
-  // ボリューム変更時の処理を分離
   useEffect(() => {
-    if (bgmRef.current) {
-      bgmRef.current.volume = volume;
-    }
-  }, [volume]);
+    savePomodoroSettings(pomodoroSettings);
+  }, [pomodoroSettings]);
+
+  // 他のタブ・端末で止めたアラームはこちらでも止める
+  const applyRemoteTimers = (incoming: NamedTimer[]) => {
+    timers
+      .filter((timer) => timer.state.status === 'finished')
+      .filter((timer) => !incoming.some((item) => item.id === timer.id && item.state.status === 'finished'))
+      .forEach((timer) => audio.silenceAlarm(timer.id));
+    applyRemote(incoming);
+  };
+
+  useTabSync(timers, applyRemoteTimers);
+  const room = useStudyRoom(timers, applyRemoteTimers, studyRoom, isLeader);
+  useRecurringAlarms(recurringAlarms, timers, start, isLeader);
+  useTabStatus(timers, pomodoroSettings, currentTime);
+  useNotificationSchedule(timers, notificationsEnabled);
 
   useEffect(() => {
-    const timer = setInterval(() => {
-      setCurrentTime(new Date());
-      if (endTime) {
-        const now = new Date();
-        if (now >= endTime) {
-          playAlarm();
-          setEndTime(null);
-          clearInterval(timerRef.current);
-        }
-      }
-    }, 1000);
+    saveNotificationsEnabled(notificationsEnabled);
+  }, [notificationsEnabled]);
+
+  useEffect(() => {
+    saveSessions(sessions);
+  }, [sessions]);
+
+  // 他のタブで記録した分を取り込み、古い一覧で上書きしないようにする
+  useEffect(() => onSessionsChanged(() => setSessions(loadSessions())), []);
+
+  useEffect(() => {
+    saveAlarmSettings(alarmSettings);
+  }, [alarmSettings]);
+
+  useEffect(() => {
+    saveFocusSettings(focusSettings);
+  }, [focusSettings]);
 
-    return () => clearInterval(timer);
-  }, [endTime]);
+  useEffect(() => {
+    saveStudyRoomSettings(studyRoom);
+  }, [studyRoom]);
+
+  useEffect(() => {
+    savePresets(presets);
+  }, [presets]);
+
+  useEffect(() => {
+    saveBuiltInLoudness(builtInLoudness);
+  }, [builtInLoudness]);
+
+  useEffect(() => {
+    saveRecurringAlarms(recurringAlarms);
+  }, [recurringAlarms]);
+
+  // 入力欄の内容がもう一方のモードの書き方なら、そのモードとして扱う（"90m" なら時間指定）
+  const textResult = parseTimerText(timerText, timerType === 'time' ? 'time' : 'duration');
+  const parsedText = textResult.ok ? textResult.value : null;
+  const inputType: TimerType = timerType === 'pomodoro' ? 'pomodoro' : parsedText?.type ?? timerType;
+  const timerInput: TimerInput = {
+    targetTime: parsedText?.type === 'time' ? parsedText.targetTime : '',
+    tomorrow: parsedText?.type === 'time' && parsedText.tomorrow,
+    duration: parsedText?.type === 'duration' ? parsedText.duration : EMPTY_DURATION,
+    pomodoro: pomodoroSettings
+  };
+
+  const changeTimerText = (text: string) => {
+    setTimerText(text);
+    const result = parseTimerText(text, timerType === 'time' ? 'time' : 'duration');
+    if (result.ok) setTimerType(result.value.type);
+  };
 
   const startTimer = () => {
-    let targetDate: Date;
-
-    if (timerType === 'time') {
-      if (!targetTime) return;
-      const [hours, minutes] = targetTime.split(':').map(Number);
-      targetDate = new Date();
-      targetDate.setHours(hours, minutes, 0, 0);
-      if (targetDate < new Date()) {
-        targetDate.setDate(targetDate.getDate() + 1);
+    const target = computeTargetDate(inputType, timerInput, now());
+    if (!target) return;
+
+    start({
+      label: timerLabel.trim() || t('form.defaultLabel', { number: timers.length + 1 }),
+      type: inputType,
+      alarmSoundId
+    }, target);
+    setTimerLabel('');
+  };
+
+  // プリセットの内容を入力欄に反映し、そのまま開始する（BGMが指定されていれば再生する）
+  const applyPreset = (preset: TimerPreset) => {
+    const target = computeTargetDate(preset.timerType, preset, now());
+    if (!target) return;
+
+    setTimerType(preset.timerType);
+    if (preset.timerType === 'time') {
+      setTimerText(formatTimerText({ type: 'time', targetTime: preset.targetTime, tomorrow: preset.tomorrow ?? false }));
+    } else if (preset.timerType === 'duration') {
+      setTimerText(formatTimerText({ type: 'duration', duration: preset.duration }));
+    }
+    setAlarmSoundId(preset.alarmSoundId);
+    if (preset.timerType === 'pomodoro') setPomodoroSettings(preset.pomodoro);
+
+    const track = playlist.find((item) => item.id === preset.bgmTrackId);
+    if (track && bgm.currentTrack?.id !== track.id) {
+      bgm.select(track, true);
+    } else if (track && !bgm.isPlaying) {
+      bgm.play();
+    }
+
+    start({ label: preset.name, type: preset.timerType, alarmSoundId: preset.alarmSoundId }, target);
+  };
+
+  const saveCurrentAsPreset = (name: string, includeBgm: boolean) => {
+    const bgmTrackId = includeBgm ? bgm.currentTrack?.id ?? null : null;
+    setPresets(prev => [...prev, createPreset(name, inputType, timerInput, alarmSoundId, bgmTrackId)]);
+  };
+
+  // 繰り返しアラームの予約済みの回を取り消す（設定を変えたあとに予約し直させる）
+  const cancelOccurrences = (id: string) => {
+    timers
+      .filter((timer) => timer.recurringId === id && !timer.snoozed)
+      .filter((timer) => timer.state.status === 'running' || timer.state.status === 'paused')
+      .forEach((timer) => updateTimer(timer.id, { type: 'stop' }));
+  };
+
+  const saveRecurringAlarm = (alarm: RecurringAlarm) => {
+    cancelOccurrences(alarm.id);
+    setRecurringAlarms(prev =>
+      prev.some((a) => a.id === alarm.id) ? prev.map((a) => (a.id === alarm.id ? alarm : a)) : [...prev, alarm]
+    );
+  };
+
+  const removeRecurringAlarm = (id: string) => {
+    cancelOccurrences(id);
+    setRecurringAlarms(prev => prev.filter((alarm) => alarm.id !== id));
+  };
+
+  const addSkipDate = (id: string, date: string) => {
+    setRecurringAlarms(prev => prev.map((alarm) =>
+      alarm.id === id && !alarm.skipDates.includes(date)
+        ? { ...alarm, skipDates: [...alarm.skipDates, date].sort() }
+        : alarm
+    ));
+  };
+
+  // 次の回の日付をスキップする日に加え、その次の回を予約し直す
+  const skipNextOccurrence = (alarm: RecurringAlarm) => {
+    const next = getNextOccurrence(alarm, now());
+    if (next === null) return;
+    cancelOccurrences(alarm.id);
+    addSkipDate(alarm.id, toDateKey(next));
+  };
+
+  // 同じ予定（同じID）のアラームは置き換える
+  const importCalendar = async (file: File): Promise<string> => {
+    const { alarms, skipped } = parseIcs(await file.text(), alarmSoundId);
+    alarms.forEach(saveRecurringAlarm);
+    return skipped > 0
+      ? t('recurring.importedWithSkipped', { count: alarms.length, skipped })
+      : t('recurring.imported', { count: alarms.length });
+  };
+
+  // 途中で止めたタイマーは中断として記録する（ポモドーロは集中中のみ）。
+  // 繰り返しアラームの回を止めたときは、その日をスキップする日にする
+  const stopTimer = (timer: NamedTimer) => {
+    const { state } = timer;
+    const stoppedAt = now();
+    if (timer.recurringId) {
+      if (!timer.snoozed) addSkipDate(timer.recurringId, toDateKey(timer.startedAt + timer.totalMs));
+    } else if (state.status === 'running' || state.status === 'paused') {
+      if (state.pomodoro) {
+        if (state.pomodoro.phase === 'focus') {
+          recordSession(createFocusSession(
+            timer,
+            state.pomodoro.completedFocus + 1,
+            getPhaseDurationMs(pomodoroSettings, 'focus'),
+            'aborted',
+            stoppedAt,
+            getRemainingMs(state, stoppedAt) ?? 0,
+            bgmTitle
+          ));
+        }
+      } else if (!timer.snoozed) {
+        recordSession(createTimerSession(timer, 'aborted', stoppedAt, bgmTitle));
       }
+    }
+    updateTimer(timer.id, { type: 'stop' });
+  };
+
+  // 鳴っているアラームを止めて一覧から外す（順番待ちの次のアラームが鳴り始める）
+  const dismissAlarm = (id: string) => {
+    audio.silenceAlarm(id);
+    updateTimer(id, { type: 'dismiss' });
+  };
+
+  // 鳴っているアラームを止め、スヌーズの長さで同じタイマーをもう一度動かす
+  const snoozeAlarm = (id: string) => {
+    audio.silenceAlarm(id);
+    snooze(id, alarmSettings.snoozeMinutes * 60 * 1000);
+  };
+
+  // 動いているタイマーがあれば一時停止、一時停止中のものがあれば再開し、どちらもなければ新しく開始する。
+  // 繰り返しアラームはまとめて止めない
+  const toggleTimers = () => {
+    const at = now();
+    const running = timers.filter((timer) => !timer.recurringId && timer.state.status === 'running');
+    const paused = timers.filter((timer) => !timer.recurringId && timer.state.status === 'paused');
+    if (running.length > 0) {
+      running.forEach((timer) => updateTimer(timer.id, { type: 'pause', now: at }));
+    } else if (paused.length > 0) {
+      paused.forEach((timer) => updateTimer(timer.id, { type: 'resume', now: at }));
     } else {
-      const { hours, minutes, seconds } = durationInput;
-      if (hours === 0 && minutes === 0 && seconds === 0) return;
-      const totalSeconds = (hours * 3600) + (minutes * 60) + seconds;
-      targetDate = new Date(Date.now() + totalSeconds * 1000);
+      startTimer();
     }
+  };
 
-    setEndTime(targetDate);
+  const openFocus = (id: string | null) => {
+    setFocusTimerId(id);
+    setShowFocus(true);
   };
 
-  const stopTimer = () => {
-    setEndTime(null);
+  const changeVolume = (delta: number) => {
+    setVolume(v => Math.round(Math.max(0, Math.min(1, v + delta)) * 100) / 100);
   };
 
-  const playAlarm = () => {
-    if (audioRef.current) {
-      if (bgmRef.current && isBGMPlaying) {
-        bgmRef.current.pause();
-        bgmRef.current.currentTime = 0;
-        setIsBGMPlaying(false);
-      }
-      audioRef.current.play();
+  useKeyboardShortcuts({
+    toggleTimer: toggleTimers,
+    toggleBGM: bgm.toggle,
+    volumeUp: () => changeVolume(VOLUME_STEP),
+    volumeDown: () => changeVolume(-VOLUME_STEP),
+    focusMode: () => (showFocus ? setShowFocus(false) : openFocus(null)),
+    // 集中モードの上にはヘルプを重ねない
+    help: () => {
+      if (!showFocus) setShowShortcuts(v => !v);
+    }
+  }, !showStats);
+
+  const updateTrack = (id: string, edit: TrackEdit): boolean => {
+    try {
+      repository.update(id, edit);
+      return true;
+    } catch (error) {
+      console.error('Error saving track metadata:', error);
+      return false;
     }
   };
 
-  const toggleBGM = () => {
-    if (bgmRef.current && isBGMLoaded) {
-      if (isBGMPlaying) {
-        try {
-          bgmRef.current.pause();
-          bgmRef.current.currentTime = 0;
-          setIsBGMPlaying(false);
-        } catch (error) {
-          console.error('Error stopping BGM:', error);
-        }
-      } else {
-        try {
-          const playPromise = bgmRef.current.play();
-          if (playPromise !== undefined) {
-            playPromise
-              .then(() => {
-                setIsBGMPlaying(true);
-              })
-              .catch((error) => {
-                console.error('Error playing BGM:', error);
-                setIsBGMPlaying(false);
-              });
-          } else {
-            setIsBGMPlaying(false);
-          }
-        } catch (error) {
-          console.error('Error starting BGM:', error);
-          setIsBGMPlaying(false);
-        }
-      }
+  const removeTrack = (track: BGMTrack) => {
+    if (bgm.currentTrack?.id === track.id) {
+      bgm.select(DEFAULT_TRACK, false);
     }
+    repository.remove(track.id);
+  };
+
+  const exportBackup = () => {
+    const backup = createBackup(
+      {
+        pomodoro: pomodoroSettings,
+        alarm: alarmSettings,
+        playlist: bgm.settings,
+        notificationsEnabled,
+        focus: focusSettings,
+        ambientMix: bgm.ambientMix,
+        studyRoom,
+        locale
+      },
+      tracks,
+      sessions,
+      presets,
+      recurringAlarms
+    );
+    const date = toDateKey(Date.now());
+    downloadFile(JSON.stringify(backup, null, 2), `study-timer-${date}.json`, 'application/json');
   };
 
-  const getTimeLeft = (): string | null => {
-    if (!endTime) return null;
-    const now = new Date();
-    const diff = Math.max(0, Math.floor((endTime.getTime() - now.getTime()) / 1000));
-    
-    const hours = Math.floor(diff / 3600);
-    const minutes = Math.floor((diff % 3600) / 60);
-    const seconds = diff % 60;
-    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  const exportSessionsCsv = () => {
+    const date = toDateKey(Date.now());
+    downloadFile(sessionsToCsv(sessions), `study-sessions-${date}.csv`, 'text/csv;charset=utf-8');
   };
 
+  // 設定は置き換え、学習記録は既存の記録に追加する
+  const importBackup = async (file: File): Promise<string> => {
+    const backup = parseBackup(await file.text(), {
+      pomodoro: DEFAULT_POMODORO_SETTINGS,
+      alarm: DEFAULT_ALARM_SETTINGS,
+      playlist: DEFAULT_PLAYLIST_SETTINGS,
+      notificationsEnabled: false,
+      focus: DEFAULT_FOCUS_SETTINGS,
+      ambientMix: DEFAULT_AMBIENT_MIX,
+      studyRoom: DEFAULT_STUDY_ROOM_SETTINGS,
+      // 言語の入っていない古いファイルでは今の言語のままにする
+      locale
+    });
+
+    const merged = mergeTrackMetadata(tracks, backup.tracks);
+    repository.replace(merged.tracks);
+    setPomodoroSettings(backup.preferences.pomodoro);
+    setPresets(backup.presets);
+    setRecurringAlarms(backup.recurringAlarms);
+    setAlarmSettings(backup.preferences.alarm);
+    bgm.setSettings(backup.preferences.playlist);
+    bgm.setAmbientMix(backup.preferences.ambientMix);
+    setFocusSettings(backup.preferences.focus);
+    setStudyRoom(backup.preferences.studyRoom);
+    setLocale(backup.preferences.locale);
+    // 通知は許可済みの場合だけ有効にする
+    setNotificationsEnabled(
+      backup.preferences.notificationsEnabled &&
+      isNotificationSupported() &&
+      Notification.permission === 'granted'
+    );
+    const added = backup.sessions.filter((session) => !sessions.some((s) => s.id === session.id)).length;
+    setSessions(prev => backup.sessions.reduce(addSession, prev));
+
+    return merged.skipped > 0
+      ? t('backup.importedWithSkipped', { added, skipped: merged.skipped })
+      : t('backup.imported', { added });
+  };
+
+  const displayedTimers = sortByExpiry ? sortByNextExpiry(timers) : timers;
+  const focusTimer = timers.find((timer) => timer.id === focusTimerId) ?? sortByNextExpiry(timers)[0] ?? null;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center p-4">
-      <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-md">
+      <div
+        className="relative bg-white rounded-2xl shadow-xl p-8 w-full max-w-md"
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+        }}
+        onDrop={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDragging(false);
+          upload(Array.from(e.dataTransfer.files));
+        }}
+      >
+        {isDragging && (
+          <div className="absolute inset-0 z-20 rounded-2xl border-4 border-dashed border-blue-400 bg-blue-50/90 flex flex-col items-center justify-center gap-2 text-blue-600 pointer-events-none">
+            <Upload className="w-8 h-8" />
+            <span className="font-medium">{t('bgm.dropHere')}</span>
+          </div>
+        )}
         <div className="flex items-center justify-between mb-8">
           <div className="flex items-center space-x-2">
             <Clock className="w-6 h-6 text-blue-600" />
             <h2 className="text-2xl font-semibold text-gray-800">
-              {currentTime.toLocaleTimeString()}
+              {formatTime(currentTime)}
             </h2>
           </div>
           <div className="flex items-center gap-2">
-            <div className="relative group">
-              <button
-                onClick={toggleBGM}
-                className={`p-2 rounded-full transition-colors ${
-                  !isBGMLoaded
-                    ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
-                    : isBGMPlaying
-                    ? 'bg-blue-100 text-blue-600'
-                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-                }`}
-                disabled={!isBGMLoaded}
-              >
-                <Music className="w-5 h-5" />
-              </button>
-              
-              <div className="absolute right-0 mt-2 w-64 bg-white rounded-lg shadow-lg p-3 hidden group-hover:block z-10">
-                <div className="space-y-2">
-                  {showUploadForm ? (
-                    <div className="p-2">
-                      <input
-                        type="file"
-                        ref={fileInputRef}
-                        onChange={async (e) => {
-                          const file = e.target.files?.[0];
-                          if (!file) return;
-
-                          // ファイルサイズチェック
-                          if (file.size > MAX_FILE_SIZE) {
-                            setUploadError('ファイルサイズは10MB以下にしてください');
-                            return;
-                          }
-
-                          // ファイル形式チェック
-                          if (!ACCEPTED_FORMATS.includes(file.type)) {
-                            setUploadError('対応していないファイル形式です');
-                            return;
-                          }
-
-                          setUploadError(null);
-
-                          // ファイル名を生成
-                          const timestamp = Date.now();
-                          const ext = file.name.split('.').pop();
-                          const filename = `${timestamp}.${ext}`;
-
-                          try {
-                            // FormDataを使用してファイルをアップロード
-                            const formData = new FormData();
-                            formData.append('file', file);
-
-                            // ファイルを移動
-                            const reader = new FileReader();
-                            reader.onload = async (event) => {
-                              if (!event.target?.result) return;
-
-                              // ArrayBufferをBlobに変換
-                              const blob = new Blob([event.target.result], { type: file.type });
-
-                              // BlobURLを作成
-                              const blobUrl = URL.createObjectURL(blob);
-
-                              // トラック情報を保存
-                              const newTrack: BGMTrack = {
-                                id: timestamp.toString(),
-                                title: file.name.split('.')[0],
-                                composer: '不明',
-                                filename: blobUrl,
-                                originalName: file.name,
-                                size: file.size,
-                                type: file.type,
-                                uploadedAt: new Date().toISOString()
-                              };
-
-                              const updatedTracks = [...tracks, newTrack];
-                              setTracks(updatedTracks);
-                              localStorage.setItem('bgmTracks', JSON.stringify(updatedTracks));
-                              setSelectedTrack(newTrack);
-                              setShowUploadForm(false);
-                            };
-
-                            reader.readAsArrayBuffer(file);
-                          } catch (error) {
-                            console.error('Upload error:', error);
-                            setUploadError('アップロード中にエラーが発生しました');
-                          }
-                        }}
-                        accept={ACCEPTED_FORMATS.join(',')}
-                        className="hidden"
-                      />
-                      <div className="space-y-2">
-                        <button
-                          onClick={() => fileInputRef.current?.click()}
-                          className="w-full py-2 px-4 bg-blue-100 text-blue-600 rounded hover:bg-blue-200 flex items-center justify-center gap-2"
-                        >
-                          <Upload className="w-4 h-4" />
-                          <span>ファイルを選択</span>
-                        </button>
-                        {uploadError && (
-                          <p className="text-sm text-red-600">{uploadError}</p>
-                        )}
-                        <button
-                          onClick={() => setShowUploadForm(false)}
-                          className="w-full py-2 px-4 text-gray-600 rounded hover:bg-gray-100"
-                        >
-                          キャンセル
-                        </button>
-                      </div>
-                    </div>
-                  ) : (
-                    <>
-                      {tracks.map((track) => (
-                        <div
-                          key={track.id}
-                          className={`w-full text-left p-2 rounded transition-colors flex items-center justify-between ${
-                            selectedTrack?.id === track.id
-                              ? 'bg-blue-50 text-blue-600'
-                              : 'hover:bg-gray-50'
-                          }`}
-                        >
-                          <button
-                            onClick={() => {
-                              if (isBGMPlaying) {
-                                bgmRef.current?.pause();
-                              }
-                              setSelectedTrack(track);
-                              setIsBGMPlaying(false);
-                            }}
-                            className="flex-1"
-                          >
-                            <div className="font-medium">{track.title}</div>
-                            <div className="text-sm text-gray-600">{track.composer}</div>
-                          </button>
-                          <button
-                            onClick={() => {
-                              if (selectedTrack?.id === track.id) {
-                                bgmRef.current?.pause();
-                                setSelectedTrack(null);
-                                setIsBGMPlaying(false);
-                              }
-                              if (track.filename.startsWith('blob:')) {
-                                URL.revokeObjectURL(track.filename);
-                              }
-                              const updatedTracks = tracks.filter(t => t.id !== track.id);
-                              setTracks(updatedTracks);
-                              localStorage.setItem('bgmTracks', JSON.stringify(updatedTracks));
-                            }}
-                            className="p-1 text-gray-400 hover:text-red-600 rounded"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        </div>
-                      ))}
-                      <button
-                        onClick={() => setShowUploadForm(true)}
-                        className="w-full py-2 px-4 text-gray-600 rounded hover:bg-gray-100 flex items-center justify-center gap-2"
-                      >
-                        <Upload className="w-4 h-4" />
-                        <span>BGMをアップロード</span>
-                      </button>
-                    </>
-                  )}
-                </div>
-              </div>
-            </div>
+            <button
+              onClick={() => setShowShortcuts(true)}
+              aria-label={t('shortcuts.title')}
+              title={t('shortcuts.title')}
+              aria-keyshortcuts={getAriaKeyShortcuts('help')}
+              className="p-2 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+            >
+              <Keyboard className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => openFocus(null)}
+              aria-label={t('focus.title')}
+              title={t('focus.title')}
+              aria-keyshortcuts={getAriaKeyShortcuts('focusMode')}
+              className="p-2 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+            >
+              <Maximize2 className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowStats(true)}
+              aria-label={t('stats.title')}
+              title={t('stats.title')}
+              className="p-2 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+            >
+              <BarChart3 className="w-5 h-5" />
+            </button>
+            <LanguageSwitcher />
+            <NotificationToggle enabled={notificationsEnabled} onChange={setNotificationsEnabled} />
+            <button
+              onClick={bgm.toggle}
+              aria-label={bgm.isPlaying ? t('bgm.pause') : t('bgm.play')}
+              title={bgm.isPlaying ? t('bgm.pause') : t('bgm.play')}
+              aria-pressed={bgm.isPlaying}
+              aria-keyshortcuts={getAriaKeyShortcuts('toggleBGM')}
+              className={`p-2 rounded-full transition-colors ${
+                !bgm.isLoaded && !bgm.isPlaying
+                  ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                  : bgm.isPlaying
+                  ? 'bg-blue-100 text-blue-600'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+              disabled={!bgm.isLoaded && !bgm.isPlaying}
+            >
+              <Music className="w-5 h-5" />
+            </button>
+            <TrackMenu
+              player={bgm}
+              tracks={tracks}
+              onUpload={upload}
+              onUpdateTrack={updateTrack}
+              onRemoveTrack={removeTrack}
+            />
 
             <div className="flex items-center gap-2">
               <button
-                onClick={() => setVolume(v => Math.max(0, v - 0.1))}
+                onClick={() => changeVolume(-VOLUME_STEP)}
+                aria-label={t('shortcuts.volumeDown')}
+                title={t('shortcuts.volumeDown')}
+                aria-keyshortcuts={getAriaKeyShortcuts('volumeDown')}
                 className="p-1 rounded hover:bg-gray-100"
               >
                 {volume === 0 ? (
@@ -411,213 +596,224 @@ function App() {
                 step="0.01"
                 value={volume}
                 onChange={(e) => setVolume(parseFloat(e.target.value))}
+                aria-label={t('bgm.volume')}
+                aria-valuetext={`${Math.round(volume * 100)}%`}
                 className="w-20 accent-blue-600"
               />
             </div>
           </div>
         </div>
 
+        {!isLeader && (
+          <p role="status" className="mb-6 text-xs text-gray-500">{t('sync.followerTab')}</p>
+        )}
+
+        {uploads.length > 0 && (
+          <div className="mb-6">
+            <UploadList uploads={uploads} onClear={clearFinished} />
+          </div>
+        )}
+
         <div className="space-y-6">
           <div className="flex space-x-4">
             <button
               onClick={() => setTimerType('time')}
+              aria-pressed={timerType === 'time'}
               className={`flex-1 py-2 px-4 rounded-lg font-medium transition-colors ${
                 timerType === 'time'
                   ? 'bg-blue-600 text-white'
                   : 'bg-gray-100 text-gray-600'
               }`}
             >
-              時刻指定
+              {t('timerType.time')}
             </button>
             <button
               onClick={() => setTimerType('duration')}
+              aria-pressed={timerType === 'duration'}
               className={`flex-1 py-2 px-4 rounded-lg font-medium transition-colors ${
                 timerType === 'duration'
                   ? 'bg-blue-600 text-white'
                   : 'bg-gray-100 text-gray-600'
               }`}
             >
-              時間指定
+              {t('timerType.duration')}
+            </button>
+            <button
+              onClick={() => setTimerType('pomodoro')}
+              aria-pressed={timerType === 'pomodoro'}
+              className={`flex-1 py-2 px-4 rounded-lg font-medium transition-colors ${
+                timerType === 'pomodoro'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-600'
+              }`}
+            >
+              {t('timerType.pomodoro')}
             </button>
           </div>
 
-          {timerType === 'time' ? (
-            <input
-              type="time"
-              value={targetTime}
-              onChange={(e) => setTargetTime(e.target.value)}
-              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            />
-          ) : (
-            <div className="grid grid-cols-3 gap-2">
-              <div className="space-y-1">
-                <input
-                  type="number"
-                  min="0"
-                  max="23"
-                  value={durationInput.hours}
-                  onChange={(e) => setDurationInput(prev => ({
-                    ...prev,
-                    hours: Math.max(0, Math.min(23, parseInt(e.target.value) || 0))
-                  }))}
-                  onKeyDown={(e) => {
-                    if (e.key === 'ArrowUp') {
-                      e.preventDefault();
-                      setDurationInput(prev => ({
-                        ...prev,
-                        hours: Math.min(23, prev.hours + 1)
-                      }));
-                    } else if (e.key === 'ArrowDown') {
-                      e.preventDefault();
-                      setDurationInput(prev => ({
-                        ...prev,
-                        hours: Math.max(0, prev.hours - 1)
-                      }));
-                    } else if (e.key >= '0' && e.key <= '9') {
-                      e.preventDefault();
-                      const newValue = (durationInput.hours * 10 + parseInt(e.key)) % 100;
-                      setDurationInput(prev => ({
-                        ...prev,
-                        hours: Math.min(23, newValue)
-                      }));
-                      // 2桁入力後に次のフィールドへ
-                      if (durationInput.hours >= 2 || newValue > 23) {
-                        const nextInput = document.querySelector(`input[tabindex="2"]`) as HTMLElement;
-                        nextInput?.focus();
-                      }
-                    } else if (e.key === 'Backspace' && durationInput.hours === 0) {
-                      // 前のフィールドへ
-                      const prevInput = document.querySelector(`input[tabindex="3"]`) as HTMLElement;
-                      prevInput?.focus();
-                    }
-                  }}
-                  className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center outline-none"
-                  tabIndex={1}
-                />
-                <div className="text-sm text-gray-600 text-center">時間</div>
-              </div>
-              <div className="space-y-1">
-                <input
-                  type="number"
-                  min="0"
-                  max="59"
-                  value={durationInput.minutes}
-                  onChange={(e) => setDurationInput(prev => ({
-                    ...prev,
-                    minutes: Math.max(0, Math.min(59, parseInt(e.target.value) || 0))
-                  }))}
-                  onKeyDown={(e) => {
-                    if (e.key === 'ArrowUp') {
-                      e.preventDefault();
-                      setDurationInput(prev => ({
-                        ...prev,
-                        minutes: Math.min(59, prev.minutes + 1)
-                      }));
-                    } else if (e.key === 'ArrowDown') {
-                      e.preventDefault();
-                      setDurationInput(prev => ({
-                        ...prev,
-                        minutes: Math.max(0, prev.minutes - 1)
-                      }));
-                    } else if (e.key >= '0' && e.key <= '9') {
-                      e.preventDefault();
-                      const newValue = (durationInput.minutes * 10 + parseInt(e.key)) % 100;
-                      setDurationInput(prev => ({
-                        ...prev,
-                        minutes: Math.min(59, newValue)
-                      }));
-                      // 2桁入力後に次のフィールドへ
-                      if (durationInput.minutes >= 5 || newValue > 59) {
-                        const nextInput = document.querySelector(`input[tabindex="3"]`) as HTMLElement;
-                        nextInput?.focus();
-                      }
-                    } else if (e.key === 'Backspace' && durationInput.minutes === 0) {
-                      // 前のフィールドへ
-                      const prevInput = document.querySelector(`input[tabindex="1"]`) as HTMLElement;
-                      prevInput?.focus();
-                    }
-                  }}
-                  className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center outline-none"
-                  tabIndex={2}
-                />
-                <div className="text-sm text-gray-600 text-center">分</div>
-              </div>
-              <div className="space-y-1">
-                <input
-                  type="number"
-                  min="0"
-                  max="59"
-                  value={durationInput.seconds}
-                  onChange={(e) => setDurationInput(prev => ({
-                    ...prev,
-                    seconds: Math.max(0, Math.min(59, parseInt(e.target.value) || 0))
-                  }))}
-                  onKeyDown={(e) => {
-                    if (e.key === 'ArrowUp') {
-                      e.preventDefault();
-                      setDurationInput(prev => ({
-                        ...prev,
-                        seconds: Math.min(59, prev.seconds + 1)
-                      }));
-                    } else if (e.key === 'ArrowDown') {
-                      e.preventDefault();
-                      setDurationInput(prev => ({
-                        ...prev,
-                        seconds: Math.max(0, prev.seconds - 1)
-                      }));
-                    } else if (e.key >= '0' && e.key <= '9') {
-                      e.preventDefault();
-                      const newValue = (durationInput.seconds * 10 + parseInt(e.key)) % 100;
-                      setDurationInput(prev => ({
-                        ...prev,
-                        seconds: Math.min(59, newValue)
-                      }));
-                      if (durationInput.seconds >= 5 || newValue > 59) {
-                        (e.target as HTMLInputElement).blur(); // フォーカスを外す
-                      }
-                    } else if (e.key === 'Backspace' && durationInput.seconds === 0) {
-                      // 前のフィールドへ
-                      const prevInput = document.querySelector(`input[tabindex="2"]`) as HTMLElement;
-                      prevInput?.focus();
-                    }
-                  }}
-                  className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center outline-none"
-                  tabIndex={3}
-                />
-                <div className="text-sm text-gray-600 text-center">秒</div>
-              </div>
+          <PresetBar
+            presets={presets}
+            canSave={isPresetInputValid(inputType, timerInput)}
+            defaultName={getDefaultPresetName(inputType, timerInput)}
+            currentTrackTitle={bgm.currentTrack?.title ?? null}
+            onApply={applyPreset}
+            onSave={saveCurrentAsPreset}
+            onMove={(id, offset) => setPresets(prev => movePreset(prev, id, offset))}
+            onRemove={(id) => setPresets(prev => prev.filter((preset) => preset.id !== id))}
+          />
+
+          {timerType === 'pomodoro' ? (
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                { key: 'focusMinutes', label: t('pomodoro.focusMinutes') },
+                { key: 'shortBreakMinutes', label: t('pomodoro.shortBreakMinutes') },
+                { key: 'longBreakMinutes', label: t('pomodoro.longBreakMinutes') },
+                { key: 'longBreakEvery', label: t('pomodoro.longBreakEvery') }
+              ] as const).map(({ key, label }) => (
+                <div key={key} className="space-y-1">
+                  <input
+                    type="number"
+                    min="1"
+                    max={MAX_POMODORO_SETTINGS[key]}
+                    value={pomodoroSettings[key]}
+                    onChange={(e) => setPomodoroSettings(prev => ({
+                      ...prev,
+                      [key]: Math.max(1, Math.min(MAX_POMODORO_SETTINGS[key], parseInt(e.target.value) || 1))
+                    }))}
+                    aria-label={label}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center outline-none"
+                  />
+                  <div className="text-sm text-gray-600 text-center">{label}</div>
+                </div>
+              ))}
             </div>
+          ) : (
+            <TimerTextInput
+              value={timerText}
+              mode={timerType}
+              result={textResult}
+              endTime={computeTargetDate(inputType, timerInput, currentTime)?.endTime ?? null}
+              now={currentTime}
+              onChange={changeTimerText}
+              onSubmit={startTimer}
+            />
           )}
 
-          {endTime !== null && (
-            <div className="text-center py-4 px-6 bg-gray-50 rounded-lg">
-              <p className="text-3xl font-mono text-gray-800">
-                {getTimeLeft()}
-              </p>
-            </div>
-          )}
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={timerLabel}
+              onChange={(e) => setTimerLabel(e.target.value)}
+              placeholder={t('form.labelPlaceholder')}
+              aria-label={t('form.label')}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+            />
+            <select
+              value={alarmSoundId}
+              onChange={(e) => setAlarmSoundId(e.target.value)}
+              aria-label={t('form.alarmSound')}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm bg-white"
+            >
+              <optgroup label={t('form.bundledAlarms')}>
+                {alarmSounds.filter(sound => !sound.uploaded).map((sound) => (
+                  <option key={sound.id} value={sound.id}>{sound.label}</option>
+                ))}
+              </optgroup>
+              {tracks.length > 0 && (
+                <optgroup label={t('form.uploadedTracks')}>
+                  {alarmSounds.filter(sound => sound.uploaded).map((sound) => (
+                    <option key={sound.id} value={sound.id}>{sound.label}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
+
+          <AlarmSettingsPanel settings={alarmSettings} onChange={setAlarmSettings} />
+          <RecurringAlarmsPanel
+            alarms={recurringAlarms}
+            alarmSounds={alarmSounds}
+            defaultAlarmSoundId={alarmSoundId}
+            now={currentTime}
+            onSave={saveRecurringAlarm}
+            onRemove={removeRecurringAlarm}
+            onSkipNext={skipNextOccurrence}
+            onImport={importCalendar}
+          />
+          <StudyRoomPanel
+            settings={studyRoom}
+            status={room.status}
+            members={room.members}
+            isFollower={!isLeader}
+            onChange={setStudyRoom}
+          />
+          <BackupPanel onExport={exportBackup} onExportCsv={exportSessionsCsv} onImport={importBackup} />
 
           <button
-            onClick={endTime ? stopTimer : startTimer}
-            className={`w-full py-3 px-6 rounded-lg font-medium flex items-center justify-center space-x-2 ${
-              endTime
-                ? 'bg-red-600 text-white hover:bg-red-700'
-                : 'bg-blue-600 text-white hover:bg-blue-700'
-            }`}
+            onClick={startTimer}
+            aria-keyshortcuts={getAriaKeyShortcuts('toggleTimer')}
+            className="w-full py-3 px-6 rounded-lg font-medium text-white flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700"
           >
             <TimerIcon className="w-5 h-5" />
-            <span>{endTime ? 'タイマー停止' : 'タイマー開始'}</span>
+            <span>{t('form.start')}</span>
           </button>
-        </div>
 
-        <audio ref={audioRef}>
-          <source src="/audio/alarm.mp3" type="audio/mpeg" />
-        </audio>
-        <audio ref={bgmRef} loop preload="auto">
-          {selectedTrack && (
-            <source src={selectedTrack.filename} type={selectedTrack.type} />
+          {timers.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-600">{t('timers.heading', { count: timers.length })}</h3>
+                <button
+                  onClick={() => setSortByExpiry(v => !v)}
+                  className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+                >
+                  <ArrowDownWideNarrow className="w-4 h-4" />
+                  <span>{sortByExpiry ? t('timers.sortByExpiry') : t('timers.sortByAdded')}</span>
+                </button>
+              </div>
+              {displayedTimers.map((timer) => (
+                <TimerListItem
+                  key={timer.id}
+                  timer={timer}
+                  now={currentTime}
+                  pomodoroSettings={pomodoroSettings}
+                  alarmSoundLabel={findAlarmSound(timer.alarmSoundId, alarmSounds).label}
+                  snoozeMinutes={alarmSettings.snoozeMinutes}
+                  onPause={() => updateTimer(timer.id, { type: 'pause', now: now() })}
+                  onResume={() => updateTimer(timer.id, { type: 'resume', now: now() })}
+                  onStop={() => stopTimer(timer)}
+                  onAdjust={(minutes) => updateTimer(timer.id, { type: 'adjust', deltaMs: minutes * 60 * 1000, now: now() })}
+                  onDismiss={() => dismissAlarm(timer.id)}
+                  onSnooze={() => snoozeAlarm(timer.id)}
+                  onFocus={() => openFocus(timer.id)}
+                />
+              ))}
+            </div>
           )}
-        </audio>
+        </div>
+
+        {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
+
+        {showStats && (
+          <StatsDashboard sessions={sessions} now={currentTime} onClose={() => setShowStats(false)} />
+        )}
+
+        {showFocus && (
+          <FocusMode
+            timer={focusTimer}
+            now={currentTime}
+            pomodoroSettings={pomodoroSettings}
+            player={bgm}
+            settings={focusSettings}
+            onSettingsChange={setFocusSettings}
+            onPause={(id) => updateTimer(id, { type: 'pause', now: now() })}
+            onResume={(id) => updateTimer(id, { type: 'resume', now: now() })}
+            onDismiss={dismissAlarm}
+            onClose={() => setShowFocus(false)}
+          />
+        )}
+
+        <TimeAnnouncer timers={timers} now={currentTime} />
+        <audio ref={audio.audioRef} onEnded={audio.handleAlarmEnded} />
       </div>
     </div>
   );
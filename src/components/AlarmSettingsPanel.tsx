@@ -0,0 +1,82 @@
+import { BellRing } from 'lucide-react';
+import { FADE_IN_OPTIONS, MAX_SNOOZE_MINUTES } from '../lib/alarmSettings';
+import type { AlarmSettings } from '../lib/alarmSettings';
+import { useI18n } from '../hooks/useI18n';
+
+interface AlarmSettingsPanelProps {
+  settings: AlarmSettings;
+  onChange: (settings: AlarmSettings) => void;
+}
+
+function AlarmSettingsPanel({ settings, onChange }: AlarmSettingsPanelProps) {
+  const { t } = useI18n();
+  const update = (patch: Partial<AlarmSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <details className="rounded-lg border border-gray-200">
+      <summary className="px-3 py-2 text-sm font-medium text-gray-600 cursor-pointer flex items-center gap-2">
+        <BellRing className="w-4 h-4" />
+        <span>{t('alarmSettings.title')}</span>
+      </summary>
+      <div className="px-3 pb-3 space-y-3 text-sm text-gray-600">
+        <label className="flex items-center justify-between gap-4">
+          <span>{t('alarmSettings.volume')}</span>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.01"
+            value={settings.volume}
+            onChange={(e) => update({ volume: parseFloat(e.target.value) })}
+            className="w-32 accent-blue-600"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-4">
+          <span>{t('alarmSettings.fadeIn')}</span>
+          <select
+            value={settings.fadeInSeconds}
+            onChange={(e) => update({ fadeInSeconds: parseInt(e.target.value) })}
+            className="p-1 border border-gray-300 rounded bg-white"
+          >
+            {FADE_IN_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds === 0 ? t('common.none') : t('common.seconds', { seconds })}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-4">
+          <span>{t('alarmSettings.repeat')}</span>
+          <input
+            type="checkbox"
+            checked={settings.repeat}
+            onChange={(e) => update({ repeat: e.target.checked })}
+            className="w-4 h-4 accent-blue-600"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-4">
+          <span>{t('alarmSettings.snoozeMinutes')}</span>
+          <input
+            type="number"
+            min="1"
+            max={MAX_SNOOZE_MINUTES}
+            value={settings.snoozeMinutes}
+            onChange={(e) => update({ snoozeMinutes: Math.max(1, Math.min(MAX_SNOOZE_MINUTES, parseInt(e.target.value) || 1)) })}
+            className="w-20 p-1 border border-gray-300 rounded text-center"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-4">
+          <span>{t('alarmSettings.duckBgm')}</span>
+          <input
+            type="checkbox"
+            checked={settings.duckBgm}
+            onChange={(e) => update({ duckBgm: e.target.checked })}
+            className="w-4 h-4 accent-blue-600"
+          />
+        </label>
+      </div>
+    </details>
+  );
+}
+
+export default AlarmSettingsPanel;
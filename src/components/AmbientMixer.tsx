@@ -0,0 +1,39 @@
+import type { BGMPlayer } from '../hooks/useBGMPlayer';
+import { AMBIENT_SOUNDS } from '../lib/ambient';
+import { useI18n } from '../hooks/useI18n';
+
+interface AmbientMixerProps {
+  player: BGMPlayer;
+}
+
+// 環境音ごとの音量。選んだ音に他の音を重ねられる
+function AmbientMixer({ player }: AmbientMixerProps) {
+  const { t } = useI18n();
+  const { ambientMix, setAmbientMix } = player;
+
+  return (
+    <div role="group" aria-label={t('ambient.mixer')} className="space-y-1">
+      {AMBIENT_SOUNDS.map((id) => (
+        <label key={id} className="flex items-center justify-between gap-2 text-xs text-gray-600">
+          <span className="truncate">{t(`ambient.${id}`)}</span>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.01"
+            value={ambientMix[id]}
+            onChange={(e) => setAmbientMix({ ...ambientMix, [id]: parseFloat(e.target.value) })}
+            aria-label={t('ambient.level', { name: t(`ambient.${id}`) })}
+            aria-valuetext={`${Math.round(ambientMix[id] * 100)}%`}
+            className="w-28 accent-blue-600"
+          />
+        </label>
+      ))}
+      {ambientMix.binaural > 0 && (
+        <p className="text-xs text-gray-400">{t('ambient.binauralHint')}</p>
+      )}
+    </div>
+  );
+}
+
+export default AmbientMixer;
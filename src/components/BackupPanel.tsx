@@ -0,0 +1,71 @@
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { Download, FileSpreadsheet, HardDrive, Upload } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+
+interface BackupPanelProps {
+  onExport: () => void;
+  onExportCsv: () => void;
+  // 読み込み結果のメッセージを返す。失敗したときは例外を投げる
+  onImport: (file: File) => Promise<string>;
+}
+
+function BackupPanel({ onExport, onExportCsv, onImport }: BackupPanelProps) {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setMessage({ text: await onImport(file), error: false });
+    } catch (error) {
+      console.error('Error importing backup:', error);
+      setMessage({ text: t('backup.importFailed'), error: true });
+    }
+  };
+
+  const buttonClass =
+    'w-full py-2 px-3 rounded-lg bg-gray-50 hover:bg-gray-100 flex items-center gap-2 text-left';
+
+  return (
+    <details className="rounded-lg border border-gray-200">
+      <summary className="px-3 py-2 text-sm font-medium text-gray-600 cursor-pointer flex items-center gap-2">
+        <HardDrive className="w-4 h-4" />
+        <span>{t('backup.title')}</span>
+      </summary>
+      <div className="px-3 pb-3 space-y-2 text-sm text-gray-600">
+        <button onClick={onExport} className={buttonClass}>
+          <Download className="w-4 h-4" />
+          <span>{t('backup.export')}</span>
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          <Upload className="w-4 h-4" />
+          <span>{t('backup.import')}</span>
+        </button>
+        <button onClick={onExportCsv} className={buttonClass}>
+          <FileSpreadsheet className="w-4 h-4" />
+          <span>{t('backup.exportCsv')}</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <p className="text-xs text-gray-400">
+          {t('backup.note')}
+        </p>
+        {message && (
+          <p role={message.error ? 'alert' : 'status'} className={`text-sm ${message.error ? 'text-red-500' : 'text-green-600'}`}>{message.text}</p>
+        )}
+      </div>
+    </details>
+  );
+}
+
+export default BackupPanel;
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import FocusMode from './FocusMode';
+import type { NamedTimer } from '../lib/timers';
+import { BUILT_IN_TRACKS } from '../lib/builtInTracks';
+import { DEFAULT_POMODORO_SETTINGS } from '../lib/pomodoro';
+import { DEFAULT_FOCUS_SETTINGS } from '../lib/focusSettings';
+import { createMockBGMPlayer } from '../test/bgmPlayer';
+
+const NOW = 1_700_000_000_000;
+
+const player = createMockBGMPlayer({ currentTrack: BUILT_IN_TRACKS[0] });
+
+const timer: NamedTimer = {
+  id: 't1',
+  label: '英単語',
+  type: 'duration',
+  target: '00:15:00',
+  alarmSoundId: 'bell',
+  startedAt: NOW - 5 * 60 * 1000,
+  totalMs: 15 * 60 * 1000,
+  state: { status: 'running', endTime: NOW + 10 * 60 * 1000 }
+};
+
+const renderFocus = (props: Partial<Parameters<typeof FocusMode>[0]> = {}) => {
+  const handlers = {
+    onSettingsChange: vi.fn(),
+    onPause: vi.fn(),
+    onResume: vi.fn(),
+    onDismiss: vi.fn(),
+    onClose: vi.fn()
+  };
+  render(
+    <FocusMode
+      timer={timer}
+      now={NOW}
+      pomodoroSettings={DEFAULT_POMODORO_SETTINGS}
+      player={player}
+      settings={DEFAULT_FOCUS_SETTINGS}
+      {...handlers}
+      {...props}
+    />
+  );
+  return handlers;
+};
+
+describe('FocusMode', () => {
+  const request = vi.fn();
+
+  beforeEach(() => {
+    request.mockReset();
+    request.mockResolvedValue({ released: false, release: vi.fn().mockResolvedValue(undefined) });
+    Object.defineProperty(navigator, 'wakeLock', { value: { request }, configurable: true });
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, 'wakeLock');
+  });
+
+  it('残り時間と経過に応じたリングを表示する', () => {
+    renderFocus();
+    expect(screen.getByRole('timer').textContent).toBe('00:10:00');
+    const ring = document.querySelectorAll('circle')[1];
+    const circumference = Number(ring.getAttribute('stroke-dasharray'));
+    // 15分中5分経過
+    expect(Number(ring.getAttribute('stroke-dashoffset'))).toBeCloseTo(circumference * (2 / 3));
+  });
+
+  it('表示中は画面のスリープを防ぐ', async () => {
+    await act(async () => {
+      renderFocus();
+    });
+    expect(request).toHaveBeenCalledWith('screen');
+  });
+
+  it('Escで閉じる', () => {
+    const { onClose } = renderFocus();
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('一時停止とダークテーマの切り替えを親に伝える', () => {
+    const { onPause, onSettingsChange } = renderFocus();
+    fireEvent.click(screen.getByRole('button', { name: '一時停止' }));
+    expect(onPause).toHaveBeenCalledWith('t1');
+    fireEvent.click(screen.getByRole('button', { name: 'ダークテーマ' }));
+    expect(onSettingsChange).toHaveBeenCalledWith({ darkTheme: true });
+  });
+
+  it('再生中のBGMを表示する', () => {
+    renderFocus();
+    expect(screen.getByText(BUILT_IN_TRACKS[0].title)).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: '次の曲' }));
+    expect(player.next).toHaveBeenCalled();
+  });
+
+  it('タイマーがなければその旨を表示する', () => {
+    renderFocus({ timer: null });
+    expect(screen.getByText('動いているタイマーはありません')).toBeTruthy();
+    expect(screen.queryByRole('timer')).toBeNull();
+  });
+});
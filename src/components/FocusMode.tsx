@@ -0,0 +1,239 @@
+import { useEffect, useRef } from 'react';
+import { BellOff, Check, Minimize2, Moon, Pause, Play, SkipForward, Sun } from 'lucide-react';
+import type { NamedTimer } from '../lib/timers';
+import { getTimerProgress } from '../lib/timers';
+import { formatRemaining, getRemainingMs } from '../lib/timerState';
+import type { PomodoroSettings } from '../lib/pomodoro';
+import type { FocusSettings } from '../lib/focusSettings';
+import type { BGMPlayer } from '../hooks/useBGMPlayer';
+import { useWakeLock } from '../hooks/useWakeLock';
+import { useI18n } from '../hooks/useI18n';
+import ProgressRing from './ProgressRing';
+
+interface FocusModeProps {
+  // 表示するタイマー。なければ現在時刻だけを表示する
+  timer: NamedTimer | null;
+  now: number;
+  pomodoroSettings: PomodoroSettings;
+  player: BGMPlayer;
+  settings: FocusSettings;
+  onSettingsChange: (settings: FocusSettings) => void;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onDismiss: (id: string) => void;
+  onClose: () => void;
+}
+
+const RING_SIZE = 320;
+
+// 状態ごとのリングの色（ポモドーロの休憩中は緑）
+const getRingColor = (timer: NamedTimer | null): string => {
+  const state = timer?.state;
+  if (!state) return '#9ca3af';
+  if (state.status === 'finished') return '#dc2626';
+  if (state.status === 'paused' || state.status === 'missed') return '#9ca3af';
+  if (state.status === 'running' && state.pomodoro && state.pomodoro.phase !== 'focus') return '#16a34a';
+  return '#2563eb';
+};
+
+// 画面いっぱいに残り時間と進捗のリングだけを表示する。Escまたは全画面の解除で閉じる
+function FocusMode({
+  timer,
+  now,
+  pomodoroSettings,
+  player,
+  settings,
+  onSettingsChange,
+  onPause,
+  onResume,
+  onDismiss,
+  onClose
+}: FocusModeProps) {
+  const { t, formatTime } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onCloseRef = useRef(onClose);
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  });
+
+  useWakeLock(true);
+
+  // 開いている間だけ全画面にする。ブラウザ側でEscを押して全画面を抜けたときも閉じる
+  useEffect(() => {
+    containerRef.current?.focus();
+
+    let entered = false;
+    const handleFullscreenChange = () => {
+      if (document.fullscreenElement) {
+        entered = true;
+      } else if (entered) {
+        onCloseRef.current();
+      }
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+
+    if (document.fullscreenEnabled && !document.fullscreenElement) {
+      containerRef.current?.requestFullscreen().catch((error) => {
+        console.error('Error entering fullscreen:', error);
+      });
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        onCloseRef.current();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      window.removeEventListener('keydown', handleKeyDown);
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => {});
+      }
+    };
+  }, []);
+
+  const { darkTheme } = settings;
+  const state = timer?.state;
+  const remaining = state ? getRemainingMs(state, now) : null;
+  const progress = timer ? getTimerProgress(timer, pomodoroSettings, now) ?? 0 : 0;
+  const { currentTrack } = player;
+  const trackProgress = player.duration > 0 ? Math.min(1, player.elapsed / player.duration) : 0;
+
+  const mainButton = state && {
+    idle: null,
+    running: { onClick: onPause, label: t('timers.pause'), icon: Pause },
+    paused: { onClick: onResume, label: t('timers.resume'), icon: Play },
+    finished: { onClick: onDismiss, label: t('timers.stopAlarm'), icon: BellOff },
+    missed: { onClick: onDismiss, label: t('timers.acknowledge'), icon: Check }
+  }[state.status];
+
+  const subtle = darkTheme ? 'text-gray-400' : 'text-gray-500';
+  const iconButton = `p-2 rounded-full transition-colors ${
+    darkTheme ? 'text-gray-300 hover:bg-white/10' : 'text-gray-600 hover:bg-black/5'
+  }`;
+
+  return (
+    <div
+      ref={containerRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={t('focus.title')}
+      tabIndex={-1}
+      className={`fixed inset-0 z-30 flex flex-col overflow-hidden outline-none ${
+        darkTheme ? 'bg-gray-950 text-gray-100' : 'bg-gradient-to-br from-blue-50 to-purple-50 text-gray-800'
+      }`}
+    >
+      {currentTrack?.coverArt && (
+        <img
+          src={currentTrack.coverArt}
+          alt=""
+          className={`absolute inset-0 w-full h-full object-cover blur-3xl scale-110 pointer-events-none ${
+            darkTheme ? 'opacity-20' : 'opacity-30'
+          }`}
+        />
+      )}
+
+      <div className="relative flex items-center justify-between p-4">
+        <span className={`text-lg font-mono ${subtle}`}>{formatTime(now)}</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onSettingsChange({ ...settings, darkTheme: !darkTheme })}
+            aria-label={t('focus.darkTheme')}
+            title={t('focus.darkTheme')}
+            aria-pressed={darkTheme}
+            className={iconButton}
+          >
+            {darkTheme ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
+          </button>
+          <button onClick={onClose} aria-label={t('focus.exit')} title={t('focus.exit')} className={iconButton}>
+            <Minimize2 className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative flex-1 flex flex-col items-center justify-center gap-8 p-4">
+        <ProgressRing
+          progress={progress}
+          size={RING_SIZE}
+          strokeWidth={12}
+          color={getRingColor(timer)}
+          trackColor={darkTheme ? '#1f2937' : '#e5e7eb'}
+        >
+          {timer && state ? (
+            <>
+              <div className={`max-w-[80%] truncate text-lg ${subtle}`}>{timer.label}</div>
+              <p
+                role="timer"
+                className={`text-6xl font-mono tabular-nums ${state.status === 'finished' ? 'text-red-600 animate-pulse' : ''} ${
+                  state.status === 'paused' || state.status === 'missed' ? subtle : ''
+                }`}
+              >
+                {state.status === 'missed' ? '--:--:--' : remaining !== null && formatRemaining(remaining)}
+              </p>
+              <div className={`text-sm ${subtle}`}>
+                {(state.status === 'running' || state.status === 'paused') && state.pomodoro
+                  ? t(`pomodoro.${state.pomodoro.phase}`)
+                  : state.status === 'paused'
+                  ? t('timers.paused')
+                  : state.status === 'finished'
+                  ? t('timers.finished')
+                  : null}
+              </div>
+            </>
+          ) : (
+            <p className={`text-lg ${subtle}`}>{t('focus.noTimer')}</p>
+          )}
+        </ProgressRing>
+
+        {timer && mainButton && (
+          <button
+            onClick={() => mainButton.onClick(timer.id)}
+            className={`py-2 px-6 rounded-full font-medium flex items-center gap-2 transition-colors ${
+              darkTheme ? 'bg-white/10 hover:bg-white/20' : 'bg-white/70 hover:bg-white'
+            }`}
+          >
+            <mainButton.icon className="w-4 h-4" />
+            <span>{mainButton.label}</span>
+          </button>
+        )}
+      </div>
+
+      {currentTrack && (
+        <div className="relative p-4">
+          <div className="mx-auto max-w-md flex items-center gap-3">
+            {currentTrack.coverArt && (
+              <img src={currentTrack.coverArt} alt="" className="w-12 h-12 rounded object-cover shrink-0" />
+            )}
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="font-medium truncate">{currentTrack.title}</div>
+              <div className={`text-sm truncate ${subtle}`}>{currentTrack.composer}</div>
+              <div className={`h-0.5 rounded-full overflow-hidden ${darkTheme ? 'bg-white/10' : 'bg-black/10'}`}>
+                <div
+                  className={`h-full ${darkTheme ? 'bg-gray-300' : 'bg-gray-600'}`}
+                  style={{ width: `${trackProgress * 100}%` }}
+                />
+              </div>
+            </div>
+            <button
+              onClick={player.isPlaying ? player.pause : player.play}
+              disabled={!player.isLoaded && !player.isPlaying}
+              aria-label={player.isPlaying ? t('player.pause') : t('player.play')}
+              title={player.isPlaying ? t('player.pause') : t('player.play')}
+              className={`${iconButton} disabled:opacity-40`}
+            >
+              {player.isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+            </button>
+            <button onClick={player.next} aria-label={t('player.next')} title={t('player.next')} className={iconButton}>
+              <SkipForward className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FocusMode;
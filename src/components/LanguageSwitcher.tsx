@@ -0,0 +1,28 @@
+import { Languages } from 'lucide-react';
+import { LOCALES } from '../lib/i18n';
+import type { Locale } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="relative p-2 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors cursor-pointer" title={t('app.language')}>
+      <Languages className="w-5 h-5" />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        aria-label={t('app.language')}
+        className="absolute inset-0 opacity-0 cursor-pointer"
+      >
+        {Object.entries(LOCALES).map(([code, { label }]) => (
+          <option key={code} value={code}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default LanguageSwitcher;
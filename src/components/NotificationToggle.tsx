@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import { isNotificationSupported, requestNotificationPermission } from '../lib/notifications';
+import { useI18n } from '../hooks/useI18n';
+
+interface NotificationToggleProps {
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+}
+
+function NotificationToggle({ enabled, onChange }: NotificationToggleProps) {
+  const { t } = useI18n();
+  const [permission, setPermission] = useState<NotificationPermission>(
+    isNotificationSupported() ? Notification.permission : 'denied'
+  );
+
+  if (!isNotificationSupported()) return null;
+
+  const handleClick = async () => {
+    if (enabled) {
+      onChange(false);
+      return;
+    }
+
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    onChange(result === 'granted');
+  };
+
+  const title =
+    permission === 'denied'
+      ? t('notifications.blocked')
+      : enabled
+      ? t('notifications.on')
+      : t('notifications.off');
+
+  return (
+    <button
+      onClick={handleClick}
+      title={title}
+      aria-label={t('notifications.label')}
+      aria-pressed={enabled}
+      disabled={permission === 'denied'}
+      className={`p-2 rounded-full transition-colors ${
+        permission === 'denied'
+          ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+          : enabled
+          ? 'bg-blue-100 text-blue-600'
+          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+      }`}
+    >
+      {enabled ? <Bell className="w-5 h-5" /> : <BellOff className="w-5 h-5" />}
+    </button>
+  );
+}
+
+export default NotificationToggle;
@@ -0,0 +1,110 @@
+import { Play, Pause, SkipBack, SkipForward, Shuffle, Repeat, Repeat1 } from 'lucide-react';
+import type { BGMPlayer } from '../hooks/useBGMPlayer';
+import { CROSSFADE_OPTIONS, REPEAT_MODES } from '../lib/playlist';
+import { useI18n } from '../hooks/useI18n';
+import AmbientMixer from './AmbientMixer';
+
+interface NowPlayingProps {
+  player: BGMPlayer;
+}
+
+const formatPosition = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+function NowPlaying({ player }: NowPlayingProps) {
+  const { t } = useI18n();
+  const { currentTrack, isPlaying, isLoaded, elapsed, duration, settings, setSettings } = player;
+  const progress = duration > 0 ? Math.min(1, elapsed / duration) : 0;
+  const nextRepeat = REPEAT_MODES[(REPEAT_MODES.indexOf(settings.repeat) + 1) % REPEAT_MODES.length];
+
+  return (
+    <div className="p-2 rounded-lg bg-gray-50 space-y-2">
+      <div className="flex items-center gap-2">
+        {currentTrack?.coverArt && (
+          <img src={currentTrack.coverArt} alt="" className="w-12 h-12 rounded object-cover shrink-0" />
+        )}
+        <div className="min-w-0">
+          <div className="text-xs text-gray-400">{isPlaying ? t('player.playing') : t('player.stopped')}</div>
+          <div className="font-medium text-gray-800 truncate">{currentTrack?.title ?? t('player.noTrack')}</div>
+          {currentTrack && <div className="text-sm text-gray-600 truncate">{currentTrack.composer}</div>}
+        </div>
+      </div>
+
+      {currentTrack?.ambient ? (
+        <AmbientMixer player={player} />
+      ) : (
+        <div className="space-y-1">
+          <div
+            role="progressbar"
+            aria-label={t('player.position')}
+            aria-valuemin={0}
+            aria-valuemax={Math.round(duration)}
+            aria-valuenow={Math.round(elapsed)}
+            aria-valuetext={`${formatPosition(elapsed)} / ${duration > 0 ? formatPosition(duration) : '--:--'}`}
+            className="h-1 rounded-full bg-gray-200 overflow-hidden"
+          >
+            <div className="h-full bg-blue-600" style={{ width: `${progress * 100}%` }} />
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 font-mono">
+            <span>{formatPosition(elapsed)}</span>
+            <span>{duration > 0 ? formatPosition(duration) : '--:--'}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setSettings({ ...settings, shuffle: !settings.shuffle })}
+          title={settings.shuffle ? t('player.shuffleOn') : t('player.shuffleOff')}
+          aria-label={t('player.shuffle')}
+          aria-pressed={settings.shuffle}
+          className={`p-1 rounded ${settings.shuffle ? 'text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+        >
+          <Shuffle className="w-4 h-4" />
+        </button>
+        <button onClick={player.previous} title={t('player.previous')} aria-label={t('player.previous')} className="p-1 rounded text-gray-600 hover:bg-gray-200">
+          <SkipBack className="w-4 h-4" />
+        </button>
+        <button
+          onClick={isPlaying ? player.pause : player.play}
+          disabled={!isLoaded && !isPlaying}
+          title={isPlaying ? t('player.pause') : t('player.play')}
+          aria-label={isPlaying ? t('player.pause') : t('player.play')}
+          className="p-2 rounded-full bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button onClick={player.next} title={t('player.next')} aria-label={t('player.next')} className="p-1 rounded text-gray-600 hover:bg-gray-200">
+          <SkipForward className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setSettings({ ...settings, repeat: nextRepeat })}
+          title={t(`player.repeat.${settings.repeat}`)}
+          aria-label={t(`player.repeat.${settings.repeat}`)}
+          className={`p-1 rounded ${settings.repeat === 'off' ? 'text-gray-400 hover:text-gray-600' : 'text-blue-600'}`}
+        >
+          {settings.repeat === 'one' ? <Repeat1 className="w-4 h-4" /> : <Repeat className="w-4 h-4" />}
+        </button>
+      </div>
+
+      <label className="flex items-center justify-between text-xs text-gray-600">
+        <span>{t('player.crossfade')}</span>
+        <select
+          value={settings.crossfadeSeconds}
+          onChange={(e) => setSettings({ ...settings, crossfadeSeconds: parseInt(e.target.value) })}
+          className="p-1 border border-gray-300 rounded bg-white"
+        >
+          {CROSSFADE_OPTIONS.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              {seconds === 0 ? t('common.none') : t('common.seconds', { seconds })}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
+
+export default NowPlaying;
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import PresetBar from './PresetBar';
+import { createPreset } from '../lib/presets';
+import { DEFAULT_POMODORO_SETTINGS } from '../lib/pomodoro';
+
+const preset = createPreset('英単語', 'duration', {
+  targetTime: '',
+  duration: { hours: 0, minutes: 15, seconds: 0 },
+  pomodoro: DEFAULT_POMODORO_SETTINGS
+}, 'bell', null);
+
+const renderBar = (canSave = true) => {
+  const handlers = { onApply: vi.fn(), onSave: vi.fn(), onMove: vi.fn(), onRemove: vi.fn() };
+  render(
+    <PresetBar
+      presets={[preset]}
+      canSave={canSave}
+      defaultName="15分"
+      currentTrackTitle="月の光"
+      {...handlers}
+    />
+  );
+  return handlers;
+};
+
+describe('PresetBar', () => {
+  it('チップを押すとプリセットで開始する', () => {
+    const { onApply } = renderBar();
+    fireEvent.click(screen.getByRole('button', { name: '英単語を開始' }));
+    expect(onApply).toHaveBeenCalledWith(preset);
+  });
+
+  it('今の設定を名前とBGMの有無を付けて保存する', () => {
+    const { onSave } = renderBar();
+    fireEvent.click(screen.getByRole('button', { name: '今の設定を保存' }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'プリセット名' }), { target: { value: '過去問' } });
+    fireEvent.click(screen.getByRole('checkbox'));
+    fireEvent.click(screen.getByRole('button', { name: '保存' }));
+    expect(onSave).toHaveBeenCalledWith('過去問', true);
+    expect(screen.queryByRole('textbox')).toBeNull();
+  });
+
+  it('開始できない入力のときは保存できない', () => {
+    renderBar(false);
+    expect((screen.getByRole('button', { name: '今の設定を保存' }) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('編集中は並べ替えと削除ができる', () => {
+    const { onRemove, onApply } = renderBar();
+    fireEvent.click(screen.getByRole('button', { name: 'プリセットを編集' }));
+    fireEvent.click(screen.getByRole('button', { name: '英単語を削除' }));
+    expect(onRemove).toHaveBeenCalledWith(preset.id);
+    expect((screen.getByRole('button', { name: '英単語を前へ移動' }) as HTMLButtonElement).disabled).toBe(true);
+    expect(onApply).not.toHaveBeenCalled();
+  });
+});
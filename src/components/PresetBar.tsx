@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { BookmarkPlus, ChevronLeft, ChevronRight, Pencil, X } from 'lucide-react';
+import type { TimerPreset } from '../lib/presets';
+import { useI18n } from '../hooks/useI18n';
+
+interface PresetBarProps {
+  presets: TimerPreset[];
+  // 今の入力内容で開始できるか（できなければ保存もできない）
+  canSave: boolean;
+  // 名前を空にしたときに使う名前
+  defaultName: string;
+  // 今のBGMの曲名。なければBGMは保存できない
+  currentTrackTitle: string | null;
+  onApply: (preset: TimerPreset) => void;
+  onSave: (name: string, includeBgm: boolean) => void;
+  onMove: (id: string, offset: number) => void;
+  onRemove: (id: string) => void;
+}
+
+// モード切り替えの下に並べるプリセットのチップ。押すとすぐにタイマーを開始する
+function PresetBar({
+  presets,
+  canSave,
+  defaultName,
+  currentTrackTitle,
+  onApply,
+  onSave,
+  onMove,
+  onRemove
+}: PresetBarProps) {
+  const { t } = useI18n();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [includeBgm, setIncludeBgm] = useState(false);
+
+  const closeForm = () => {
+    setIsSaving(false);
+    setName('');
+    setIncludeBgm(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {presets.length === 0 && !isSaving && (
+          <p className="flex-1 text-xs text-gray-500">{t('presets.empty')}</p>
+        )}
+        <ul aria-label={t('presets.label')} className="contents">
+          {presets.map((preset, index) => (
+            <li
+              key={preset.id}
+              className="flex items-center rounded-full bg-blue-50 text-blue-700 text-sm"
+            >
+              {isEditing ? (
+                <>
+                  <button
+                    onClick={() => onMove(preset.id, -1)}
+                    disabled={index === 0}
+                    aria-label={t('presets.moveLeft', { name: preset.name })}
+                    className="p-1 rounded-full hover:bg-blue-100 disabled:opacity-30"
+                  >
+                    <ChevronLeft className="w-3 h-3" />
+                  </button>
+                  <span className="px-1">{preset.name}</span>
+                  <button
+                    onClick={() => onMove(preset.id, 1)}
+                    disabled={index === presets.length - 1}
+                    aria-label={t('presets.moveRight', { name: preset.name })}
+                    className="p-1 rounded-full hover:bg-blue-100 disabled:opacity-30"
+                  >
+                    <ChevronRight className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => onRemove(preset.id)}
+                    aria-label={t('presets.delete', { name: preset.name })}
+                    className="p-1 rounded-full text-gray-400 hover:text-red-600 hover:bg-red-50"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => onApply(preset)}
+                  aria-label={t('presets.start', { name: preset.name })}
+                  className="py-1 px-3 rounded-full hover:bg-blue-100"
+                >
+                  {preset.name}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <div className="ml-auto flex items-center gap-1">
+          {presets.length > 0 && (
+            <button
+              onClick={() => setIsEditing(v => !v)}
+              aria-label={isEditing ? t('presets.done') : t('presets.edit')}
+              title={isEditing ? t('presets.done') : t('presets.edit')}
+              aria-pressed={isEditing}
+              className={`p-1 rounded ${isEditing ? 'text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={() => (isSaving ? closeForm() : setIsSaving(true))}
+            disabled={!canSave}
+            aria-label={t('presets.saveCurrent')}
+            title={t('presets.saveCurrent')}
+            aria-expanded={isSaving}
+            className="p-1 rounded text-gray-400 hover:text-gray-600 disabled:opacity-30"
+          >
+            <BookmarkPlus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {isSaving && canSave && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSave(name, includeBgm);
+            closeForm();
+          }}
+          className="p-2 rounded-lg bg-gray-50 space-y-2"
+        >
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={defaultName}
+            aria-label={t('presets.name')}
+            autoFocus
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+          />
+          {currentTrackTitle && (
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={includeBgm}
+                onChange={(e) => setIncludeBgm(e.target.checked)}
+                className="accent-blue-600"
+              />
+              <span className="truncate">{t('presets.includeBgm', { title: currentTrackTitle })}</span>
+            </label>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="flex-1 py-1 px-3 rounded bg-blue-600 text-white text-sm hover:bg-blue-700"
+            >
+              {t('presets.save')}
+            </button>
+            <button
+              type="button"
+              onClick={closeForm}
+              className="flex-1 py-1 px-3 rounded text-gray-600 text-sm hover:bg-gray-100"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default PresetBar;
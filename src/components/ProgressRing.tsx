@@ -0,0 +1,50 @@
+import type { ReactNode } from 'react';
+
+interface ProgressRingProps {
+  // 0〜1
+  progress: number;
+  size: number;
+  strokeWidth: number;
+  color: string;
+  trackColor: string;
+  children?: ReactNode;
+}
+
+// 経過の割合を12時の位置から時計回りに伸びる円で表示する
+function ProgressRing({ progress, size, strokeWidth, color, trackColor, children }: ProgressRingProps) {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const clamped = Math.min(1, Math.max(0, progress));
+
+  return (
+    <div className="relative" style={{ width: size, height: size }}>
+      <svg width={size} height={size} className="-rotate-90" aria-hidden="true">
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke={trackColor}
+          strokeWidth={strokeWidth}
+        />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - clamped)}
+          className="transition-[stroke-dashoffset,stroke] duration-1000 ease-linear"
+        />
+      </svg>
+      <div className="absolute inset-0 flex flex-col items-center justify-center">
+        {children}
+      </div>
+    </div>
+  );
+}
+
+export default ProgressRing;
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import type { AlarmSound } from '../lib/alarmSounds';
+import { WEEKDAYS, fromDateKey, getWeekdayName, parseTime } from '../lib/recurrence';
+import type { RecurrenceRule, RecurringAlarm } from '../lib/recurrence';
+import { useI18n } from '../hooks/useI18n';
+
+interface RecurringAlarmFormProps {
+  alarm: RecurringAlarm;
+  alarmSounds: AlarmSound[];
+  onSave: (alarm: RecurringAlarm) => void;
+  onCancel: () => void;
+}
+
+interface DateListProps {
+  dates: string[];
+  addLabel: string;
+  onChange: (dates: string[]) => void;
+}
+
+// 日付を選んで追加し、チップの×で外すリスト
+function DateList({ dates, addLabel, onChange }: DateListProps) {
+  const { t, formatDate } = useI18n();
+  const [draft, setDraft] = useState('');
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <input
+          type="date"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          aria-label={addLabel}
+          className="flex-1 p-1 border border-gray-300 rounded bg-white"
+        />
+        <button
+          type="button"
+          onClick={() => {
+            if (draft && !dates.includes(draft)) onChange([...dates, draft].sort());
+            setDraft('');
+          }}
+          disabled={!draft}
+          className="px-2 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-40"
+        >
+          {addLabel}
+        </button>
+      </div>
+      {dates.length > 0 && (
+        <ul className="flex flex-wrap gap-1">
+          {dates.map((date) => {
+            const label = formatDate(fromDateKey(date).getTime(), { month: 'numeric', day: 'numeric', weekday: 'short' });
+            return (
+              <li key={date} className="flex items-center gap-1 pl-2 rounded-full bg-gray-100 text-xs">
+                <span>{label}</span>
+                <button
+                  type="button"
+                  onClick={() => onChange(dates.filter((d) => d !== date))}
+                  aria-label={t('recurring.removeDate', { date: label })}
+                  className="p-0.5 rounded-full text-gray-400 hover:text-red-600"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function RecurringAlarmForm({ alarm, alarmSounds, onSave, onCancel }: RecurringAlarmFormProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState(alarm);
+  const { rule } = draft;
+
+  const setRule = (next: RecurrenceRule) => setDraft({ ...draft, rule: next });
+
+  const isValid =
+    parseTime(draft.time) !== null &&
+    (rule.type === 'weekly' ? rule.weekdays.length > 0 : rule.dates.length > 0);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (isValid) onSave({ ...draft, label: draft.label.trim() });
+      }}
+      className="p-2 rounded-lg bg-gray-50 space-y-2"
+    >
+      <div className="grid grid-cols-[1fr_auto] gap-2">
+        <input
+          type="text"
+          value={draft.label}
+          onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+          placeholder={t('recurring.labelPlaceholder')}
+          aria-label={t('recurring.label')}
+          className="p-1 border border-gray-300 rounded bg-white"
+        />
+        <input
+          type="time"
+          value={draft.time}
+          onChange={(e) => setDraft({ ...draft, time: e.target.value })}
+          aria-label={t('recurring.time')}
+          className="p-1 border border-gray-300 rounded bg-white"
+        />
+      </div>
+
+      <select
+        value={rule.type}
+        onChange={(e) => setRule(
+          e.target.value === 'weekly' ? { type: 'weekly', weekdays: [] } : { type: 'dates', dates: [] }
+        )}
+        aria-label={t('recurring.ruleType')}
+        className="w-full p-1 border border-gray-300 rounded bg-white"
+      >
+        <option value="weekly">{t('recurring.weekly')}</option>
+        <option value="dates">{t('recurring.dates')}</option>
+      </select>
+
+      {rule.type === 'weekly' ? (
+        <div role="group" aria-label={t('recurring.weekdays')} className="grid grid-cols-7 gap-1">
+          {WEEKDAYS.map((weekday) => {
+            const selected = rule.weekdays.includes(weekday);
+            return (
+              <button
+                key={weekday}
+                type="button"
+                onClick={() => setRule({
+                  ...rule,
+                  weekdays: selected ? rule.weekdays.filter((d) => d !== weekday) : [...rule.weekdays, weekday]
+                })}
+                aria-pressed={selected}
+                className={`py-1 rounded text-xs ${selected ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+              >
+                {getWeekdayName(weekday)}
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <DateList
+          dates={rule.dates}
+          addLabel={t('recurring.addDate')}
+          onChange={(dates) => setRule({ ...rule, dates })}
+        />
+      )}
+
+      <div className="space-y-1">
+        <div className="text-xs text-gray-500">{t('recurring.skipDates')}</div>
+        <DateList
+          dates={draft.skipDates}
+          addLabel={t('recurring.addSkipDate')}
+          onChange={(skipDates) => setDraft({ ...draft, skipDates })}
+        />
+      </div>
+
+      <select
+        value={draft.alarmSoundId}
+        onChange={(e) => setDraft({ ...draft, alarmSoundId: e.target.value })}
+        aria-label={t('form.alarmSound')}
+        className="w-full p-1 border border-gray-300 rounded bg-white"
+      >
+        {alarmSounds.map((sound) => (
+          <option key={sound.id} value={sound.id}>{sound.label}</option>
+        ))}
+      </select>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!isValid}
+          className="flex-1 py-1 px-3 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          {t('common.save')}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 py-1 px-3 rounded text-gray-600 hover:bg-gray-100"
+        >
+          {t('common.cancel')}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default RecurringAlarmForm;
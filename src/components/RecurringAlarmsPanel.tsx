@@ -0,0 +1,182 @@
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { CalendarClock, CalendarX, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import type { AlarmSound } from '../lib/alarmSounds';
+import { describeRule, getNextOccurrence } from '../lib/recurrence';
+import type { RecurringAlarm } from '../lib/recurrence';
+import { useI18n } from '../hooks/useI18n';
+import RecurringAlarmForm from './RecurringAlarmForm';
+
+interface RecurringAlarmsPanelProps {
+  alarms: RecurringAlarm[];
+  alarmSounds: AlarmSound[];
+  // 新しく作るアラームのアラーム音
+  defaultAlarmSoundId: string;
+  now: number;
+  // 追加・変更（IDが同じなら置き換える）
+  onSave: (alarm: RecurringAlarm) => void;
+  onRemove: (id: string) => void;
+  onSkipNext: (alarm: RecurringAlarm) => void;
+  // 読み込み結果のメッセージを返す。失敗したときは例外を投げる
+  onImport: (file: File) => Promise<string>;
+}
+
+function RecurringAlarmsPanel({
+  alarms,
+  alarmSounds,
+  defaultAlarmSoundId,
+  now,
+  onSave,
+  onRemove,
+  onSkipNext,
+  onImport
+}: RecurringAlarmsPanelProps) {
+  const { t, formatDate } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // 編集中のアラーム（新規の場合はまだ一覧にないアラーム）
+  const [editing, setEditing] = useState<RecurringAlarm | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setMessage({ text: await onImport(file), error: false });
+    } catch (error) {
+      console.error('Error importing calendar:', error);
+      setMessage({ text: t('recurring.importFailed'), error: true });
+    }
+  };
+
+  const formatNext = (alarm: RecurringAlarm): string => {
+    if (!alarm.enabled) return t('recurring.disabled');
+    const next = getNextOccurrence(alarm, now);
+    return next === null
+      ? t('recurring.noNext')
+      : t('recurring.next', {
+        time: formatDate(next, { month: 'numeric', day: 'numeric', weekday: 'short', hour: '2-digit', minute: '2-digit' })
+      });
+  };
+
+  const buttonClass =
+    'w-full py-2 px-3 rounded-lg bg-gray-50 hover:bg-gray-100 flex items-center gap-2 text-left';
+
+  return (
+    <details className="rounded-lg border border-gray-200">
+      <summary className="px-3 py-2 text-sm font-medium text-gray-600 cursor-pointer flex items-center gap-2">
+        <CalendarClock className="w-4 h-4" />
+        <span>{t('recurring.title')}</span>
+      </summary>
+      <div className="px-3 pb-3 space-y-2 text-sm text-gray-600">
+        {alarms.length === 0 && !editing && (
+          <p className="text-xs text-gray-400">{t('recurring.empty')}</p>
+        )}
+        <ul aria-label={t('recurring.title')} className="space-y-2">
+          {alarms.map((alarm) => {
+            const label = alarm.label || t('recurring.title');
+            return (
+              <li key={alarm.id}>
+                {editing?.id === alarm.id ? (
+                  <RecurringAlarmForm
+                    alarm={editing}
+                    alarmSounds={alarmSounds}
+                    onSave={(saved) => {
+                      onSave(saved);
+                      setEditing(null);
+                    }}
+                    onCancel={() => setEditing(null)}
+                  />
+                ) : (
+                  <div className="flex items-center gap-2 p-2 rounded-lg bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={alarm.enabled}
+                      onChange={(e) => onSave({ ...alarm, enabled: e.target.checked })}
+                      aria-label={t('recurring.enabled', { label })}
+                      className="w-4 h-4 accent-blue-600 shrink-0"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-gray-800 truncate">{alarm.time} {label}</div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {describeRule(alarm.rule)} ・ {formatNext(alarm)}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onSkipNext(alarm)}
+                      disabled={!alarm.enabled || getNextOccurrence(alarm, now) === null}
+                      title={t('recurring.skipNext')}
+                      aria-label={t('recurring.skipNextNamed', { label })}
+                      className="p-1 text-gray-400 hover:text-amber-600 rounded disabled:opacity-30"
+                    >
+                      <CalendarX className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setEditing(alarm)}
+                      aria-label={t('recurring.edit', { label })}
+                      className="p-1 text-gray-400 hover:text-blue-600 rounded"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => onRemove(alarm.id)}
+                      aria-label={t('recurring.delete', { label })}
+                      className="p-1 text-gray-400 hover:text-red-600 rounded"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {editing && !alarms.some((alarm) => alarm.id === editing.id) ? (
+          <RecurringAlarmForm
+            alarm={editing}
+            alarmSounds={alarmSounds}
+            onSave={(saved) => {
+              onSave(saved);
+              setEditing(null);
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <button
+            onClick={() => setEditing({
+              id: Date.now().toString(),
+              label: '',
+              time: '',
+              rule: { type: 'weekly', weekdays: [] },
+              skipDates: [],
+              alarmSoundId: defaultAlarmSoundId,
+              enabled: true
+            })}
+            className={buttonClass}
+          >
+            <Plus className="w-4 h-4" />
+            <span>{t('recurring.add')}</span>
+          </button>
+        )}
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          <Upload className="w-4 h-4" />
+          <span>{t('recurring.importIcs')}</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="text/calendar,.ics"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        {message && (
+          <p role={message.error ? 'alert' : 'status'} className={`text-sm ${message.error ? 'text-red-500' : 'text-green-600'}`}>{message.text}</p>
+        )}
+      </div>
+    </details>
+  );
+}
+
+export default RecurringAlarmsPanel;
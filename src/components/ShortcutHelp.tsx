@@ -0,0 +1,71 @@
+import { useEffect, useId, useRef } from 'react';
+import { X } from 'lucide-react';
+import { SHORTCUTS } from '../lib/shortcuts';
+import { useI18n } from '../hooks/useI18n';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  const { t } = useI18n();
+  const titleId = useId();
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    closeRef.current?.focus();
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-20"
+      onClick={onClose}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className="bg-white rounded-2xl shadow-xl p-6 w-full max-w-sm space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 id={titleId} className="text-xl font-semibold text-gray-800">{t('shortcuts.title')}</h2>
+          <button
+            ref={closeRef}
+            onClick={onClose}
+            aria-label={t('common.close')}
+            title={t('common.close')}
+            className="p-1 rounded hover:bg-gray-100 text-gray-500"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <dl className="space-y-2">
+          {SHORTCUTS.map((shortcut) => (
+            <div key={shortcut.id} className="flex items-center justify-between gap-4 text-sm">
+              <dt className="text-gray-600">{t(shortcut.label)}</dt>
+              <dd className="flex gap-1">
+                {shortcut.display.map((key) => (
+                  <kbd key={key} className="px-2 py-0.5 rounded border border-gray-300 bg-gray-50 font-mono text-xs text-gray-700">
+                    {key}
+                  </kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-4 text-sm">
+            <dt className="text-gray-600">{t('shortcuts.close')}</dt>
+            <dd>
+              <kbd className="px-2 py-0.5 rounded border border-gray-300 bg-gray-50 font-mono text-xs text-gray-700">Esc</kbd>
+            </dd>
+          </div>
+        </dl>
+      </div>
+    </div>
+  );
+}
+
+export default ShortcutHelp;
@@ -0,0 +1,184 @@
+import { useEffect, useId, useRef } from 'react';
+import { X, Flame, CalendarDays, BookOpen } from 'lucide-react';
+import type { StudySession } from '../lib/sessionHistory';
+import {
+  formatStudyTime,
+  getDailyTotals,
+  getHeatmap,
+  getRecentDays,
+  getRecentWeeks,
+  getStreak,
+  getSubjectBreakdown,
+} from '../lib/stats';
+import { useI18n } from '../hooks/useI18n';
+
+interface StatsDashboardProps {
+  sessions: StudySession[];
+  now: number;
+  onClose: () => void;
+}
+
+const HEATMAP_WEEKS = 12;
+
+// ヒートマップの色の濃さ（分）
+const heatColor = (ms: number): string => {
+  const minutes = ms / 60000;
+  if (minutes <= 0) return 'bg-gray-100';
+  if (minutes < 30) return 'bg-blue-200';
+  if (minutes < 60) return 'bg-blue-300';
+  if (minutes < 120) return 'bg-blue-500';
+  return 'bg-blue-700';
+};
+
+function StatsDashboard({ sessions, now, onClose }: StatsDashboardProps) {
+  const { t, formatDate } = useI18n();
+  const titleId = useId();
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const daily = getDailyTotals(sessions);
+  const days = getRecentDays(daily, 7, now);
+  const weeks = getRecentWeeks(daily, 8, now);
+  const heatmap = getHeatmap(daily, HEATMAP_WEEKS, now);
+  const streak = getStreak(daily, now);
+  const subjects = getSubjectBreakdown(sessions);
+  const maxDay = Math.max(1, ...days.map((day) => day.totalMs));
+  const maxWeek = Math.max(1, ...weeks.map((week) => week.totalMs));
+  const maxSubject = Math.max(1, ...subjects.map((subject) => subject.totalMs));
+
+  // 開いたら閉じるボタンにフォーカスを移す
+  useEffect(() => {
+    closeRef.current?.focus();
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-20"
+      onClick={onClose}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className="bg-white rounded-2xl shadow-xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto space-y-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 id={titleId} className="text-xl font-semibold text-gray-800">{t('stats.title')}</h2>
+          <button ref={closeRef} onClick={onClose} title={t('common.close')} aria-label={t('common.close')} className="p-1 rounded hover:bg-gray-100 text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="p-3 rounded-lg bg-blue-50">
+            <div className="text-xs text-gray-500">{t('stats.today')}</div>
+            <div className="font-semibold text-gray-800">{formatStudyTime(days[days.length - 1].totalMs)}</div>
+          </div>
+          <div className="p-3 rounded-lg bg-blue-50">
+            <div className="text-xs text-gray-500">{t('stats.thisWeek')}</div>
+            <div className="font-semibold text-gray-800">{formatStudyTime(weeks[weeks.length - 1].totalMs)}</div>
+          </div>
+          <div className="p-3 rounded-lg bg-orange-50">
+            <div className="text-xs text-gray-500 flex items-center justify-center gap-1">
+              <Flame className="w-3 h-3 text-orange-500" />
+              {t('stats.streak')}
+            </div>
+            <div className="font-semibold text-gray-800">{t('stats.days', { days: streak.current })}</div>
+            <div className="text-xs text-gray-400">{t('stats.longest', { days: streak.longest })}</div>
+          </div>
+        </div>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-600">{t('stats.last7Days')}</h3>
+          <div className="flex items-end gap-2 h-32">
+            {days.map((day) => (
+              <div key={day.dateKey} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+                <div
+                  className="w-full rounded-t bg-blue-500"
+                  style={{ height: `${(day.totalMs / maxDay) * 100}%` }}
+                  title={formatStudyTime(day.totalMs)}
+                />
+                <div className="text-xs text-gray-500">{formatDate(day.date.getTime(), { weekday: 'narrow' })}</div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-600">{t('stats.weekly')}</h3>
+          <div className="space-y-1">
+            {weeks.map((week) => (
+              <div key={week.weekStart.getTime()} className="flex items-center gap-2 text-xs text-gray-600">
+                <span className="w-20 shrink-0">
+                  {t('stats.weekOf', { date: formatDate(week.weekStart.getTime(), { month: 'numeric', day: 'numeric' }) })}
+                </span>
+                <div className="flex-1 h-2 rounded-full bg-gray-100 overflow-hidden">
+                  <div className="h-full bg-purple-500" style={{ width: `${(week.totalMs / maxWeek) * 100}%` }} />
+                </div>
+                <span className="w-20 shrink-0 text-right">{formatStudyTime(week.totalMs)}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-600 flex items-center gap-1">
+            <CalendarDays className="w-4 h-4" />
+            {t('stats.calendar', { weeks: HEATMAP_WEEKS })}
+          </h3>
+          <div className="flex gap-1">
+            {heatmap.map((week, i) => (
+              <div key={i} className="flex flex-col gap-1">
+                {week.map((day, d) =>
+                  day ? (
+                    <div
+                      key={day.dateKey}
+                      className={`w-4 h-4 rounded-sm ${heatColor(day.totalMs)}`}
+                      title={`${day.dateKey}: ${formatStudyTime(day.totalMs)}`}
+                    />
+                  ) : (
+                    <div key={d} className="w-4 h-4" />
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-600 flex items-center gap-1">
+            <BookOpen className="w-4 h-4" />
+            {t('stats.bySubject')}
+          </h3>
+          {subjects.length === 0 ? (
+            <p className="text-sm text-gray-400">{t('stats.empty')}</p>
+          ) : (
+            <div className="space-y-2">
+              {subjects.map((subject) => (
+                <div key={subject.label} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-800 truncate">{subject.label}</span>
+                    <span className="text-gray-600 shrink-0">
+                      {t('stats.subjectDetail', {
+                        time: formatStudyTime(subject.totalMs),
+                        completed: subject.completed,
+                        sessions: subject.sessions
+                      })}
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+                    <div className="h-full bg-green-500" style={{ width: `${(subject.totalMs / maxSubject) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
+
+export default StatsDashboard;
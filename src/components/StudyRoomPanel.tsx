@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { LogIn, LogOut, Shuffle, Users } from 'lucide-react';
+import { buildRoomUrl, createRoomCode } from '../lib/studyRoom';
+import type { StudyRoomSettings } from '../lib/studyRoom';
+import type { StudyRoomStatus } from '../hooks/useStudyRoom';
+import { useI18n } from '../hooks/useI18n';
+
+interface StudyRoomPanelProps {
+  settings: StudyRoomSettings;
+  status: StudyRoomStatus;
+  members: number;
+  // 他のタブが接続を担当しているとき
+  isFollower: boolean;
+  onChange: (settings: StudyRoomSettings) => void;
+}
+
+const STATUS_CLASSES: Record<StudyRoomStatus, string> = {
+  off: 'text-gray-400',
+  connecting: 'text-amber-600',
+  connected: 'text-green-600',
+  reconnecting: 'text-red-500'
+};
+
+// 同じルームコードの端末とタイマーを共有する学習ルームの参加・退出
+function StudyRoomPanel({ settings, status, members, isFollower, onChange }: StudyRoomPanelProps) {
+  const { t } = useI18n();
+  const [room, setRoom] = useState(settings.room);
+  const [relayUrl, setRelayUrl] = useState(settings.relayUrl);
+  const canJoin = room.trim() !== '' && buildRoomUrl(relayUrl, room) !== null;
+
+  return (
+    <details className="rounded-lg border border-gray-200">
+      <summary className="px-3 py-2 text-sm font-medium text-gray-600 cursor-pointer flex items-center gap-2">
+        <Users className="w-4 h-4" />
+        <span>{t('studyRoom.title')}</span>
+        {settings.enabled && (
+          <span className="ml-auto text-xs font-normal text-gray-500">{settings.room}</span>
+        )}
+      </summary>
+      <div className="px-3 pb-3 space-y-2 text-sm text-gray-600">
+        {settings.enabled ? (
+          <>
+            <p role="status" className={`text-xs ${isFollower ? 'text-gray-500' : STATUS_CLASSES[status]}`}>
+              {isFollower
+                ? t('studyRoom.otherTab')
+                : status === 'connected'
+                ? t('studyRoom.connected', { room: settings.room, members })
+                : t(`studyRoom.${status}`)}
+            </p>
+            <button
+              onClick={() => onChange({ ...settings, enabled: false })}
+              className="w-full py-2 px-3 rounded-lg bg-gray-50 hover:bg-gray-100 flex items-center gap-2 text-left"
+            >
+              <LogOut className="w-4 h-4" />
+              <span>{t('studyRoom.leave')}</span>
+            </button>
+          </>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (canJoin) onChange({ enabled: true, room: room.trim(), relayUrl: relayUrl.trim() });
+            }}
+            className="space-y-2"
+          >
+            <p className="text-xs text-gray-400">{t('studyRoom.hint')}</p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={room}
+                onChange={(e) => setRoom(e.target.value.toUpperCase())}
+                placeholder={t('studyRoom.roomPlaceholder')}
+                aria-label={t('studyRoom.room')}
+                className="flex-1 min-w-0 p-1 border border-gray-300 rounded bg-white font-mono"
+              />
+              <button
+                type="button"
+                onClick={() => setRoom(createRoomCode())}
+                aria-label={t('studyRoom.newRoom')}
+                title={t('studyRoom.newRoom')}
+                className="p-1 rounded text-gray-400 hover:text-blue-600"
+              >
+                <Shuffle className="w-4 h-4" />
+              </button>
+            </div>
+            <input
+              type="text"
+              value={relayUrl}
+              onChange={(e) => setRelayUrl(e.target.value)}
+              aria-label={t('studyRoom.relayUrl')}
+              className="w-full p-1 border border-gray-300 rounded bg-white font-mono text-xs"
+            />
+            <button
+              type="submit"
+              disabled={!canJoin}
+              className="w-full py-1 px-3 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 flex items-center justify-center gap-2"
+            >
+              <LogIn className="w-4 h-4" />
+              <span>{t('studyRoom.join')}</span>
+            </button>
+          </form>
+        )}
+      </div>
+    </details>
+  );
+}
+
+export default StudyRoomPanel;
@@ -0,0 +1,29 @@
+import { useEffect, useRef, useState } from 'react';
+import type { NamedTimer } from '../lib/timers';
+import { getAnnouncements } from '../lib/announcements';
+import type { AnnounceMarks } from '../lib/announcements';
+
+interface TimeAnnouncerProps {
+  timers: NamedTimer[];
+  now: number;
+}
+
+// 残り時間の区切りや終了をスクリーンリーダーに読み上げさせる（画面には表示しない）
+function TimeAnnouncer({ timers, now }: TimeAnnouncerProps) {
+  const [message, setMessage] = useState('');
+  const marksRef = useRef<AnnounceMarks>(new Map());
+
+  useEffect(() => {
+    const { messages, marks } = getAnnouncements(timers, marksRef.current, now);
+    marksRef.current = marks;
+    if (messages.length > 0) setMessage(messages.join(' '));
+  }, [timers, now]);
+
+  return (
+    <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+      {message}
+    </div>
+  );
+}
+
+export default TimeAnnouncer;
@@ -0,0 +1,156 @@
+import { Pause, Play, Square, BellOff, Check, AlarmClockPlus, Maximize2 } from 'lucide-react';
+import type { NamedTimer } from '../lib/timers';
+import { formatRemaining, getRemainingMs } from '../lib/timerState';
+import { getCycleNumber } from '../lib/pomodoro';
+import type { PomodoroSettings } from '../lib/pomodoro';
+import { useI18n } from '../hooks/useI18n';
+
+interface TimerListItemProps {
+  timer: NamedTimer;
+  now: number;
+  pomodoroSettings: PomodoroSettings;
+  alarmSoundLabel: string;
+  snoozeMinutes: number;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  onAdjust: (minutes: number) => void;
+  onDismiss: () => void;
+  onSnooze: () => void;
+  onFocus: () => void;
+}
+
+function TimerListItem({
+  timer,
+  now,
+  pomodoroSettings,
+  alarmSoundLabel,
+  snoozeMinutes,
+  onPause,
+  onResume,
+  onStop,
+  onAdjust,
+  onDismiss,
+  onSnooze,
+  onFocus
+}: TimerListItemProps) {
+  const { t, formatTime } = useI18n();
+  const { state } = timer;
+  const remaining = getRemainingMs(state, now);
+
+  const mainButton = {
+    idle: null,
+    running: { onClick: onPause, label: t('timers.pause'), icon: Pause, className: 'bg-amber-500 hover:bg-amber-600' },
+    paused: { onClick: onResume, label: t('timers.resume'), icon: Play, className: 'bg-blue-600 hover:bg-blue-700' },
+    finished: { onClick: onDismiss, label: t('timers.stopAlarm'), icon: BellOff, className: 'bg-red-600 hover:bg-red-700' },
+    missed: { onClick: onDismiss, label: t('timers.acknowledge'), icon: Check, className: 'bg-gray-500 hover:bg-gray-600' }
+  }[state.status];
+
+  return (
+    <div
+      role="group"
+      aria-label={timer.label}
+      className={`p-4 rounded-lg space-y-3 ${
+        state.status === 'finished' ? 'bg-red-50 animate-pulse' : 'bg-gray-50'
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="flex items-center gap-1">
+            <span className="font-medium text-gray-800 truncate">{timer.label}</span>
+            <button
+              onClick={onFocus}
+              title={t('focus.open')}
+              aria-label={t('focus.openTimer', { label: timer.label })}
+              className="p-0.5 rounded text-gray-400 hover:text-blue-600 shrink-0"
+            >
+              <Maximize2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="text-xs text-gray-500">
+            {t(`timerType.${timer.type}`)} {timer.target} ・ {alarmSoundLabel}
+          </div>
+        </div>
+        <p
+          role="timer"
+          className={`text-2xl font-mono ${
+            state.status === 'paused' || state.status === 'missed' ? 'text-gray-400' : state.status === 'finished' ? 'text-red-600' : 'text-gray-800'
+          }`}
+        >
+          {state.status === 'missed' ? '--:--:--' : remaining !== null && formatRemaining(remaining)}
+        </p>
+      </div>
+
+      {(state.status === 'running' || state.status === 'paused') && state.pomodoro && (
+        <p className="text-sm text-gray-600">
+          {t(`pomodoro.${state.pomodoro.phase}`)}
+          {' ・ '}
+          {t('pomodoro.progress', {
+            cycle: getCycleNumber(pomodoroSettings, state.pomodoro),
+            total: pomodoroSettings.longBreakEvery,
+            completed: state.pomodoro.completedFocus
+          })}
+        </p>
+      )}
+      {state.status === 'paused' && (
+        <p className="text-sm text-gray-500">{t('timers.paused')}</p>
+      )}
+      {state.status === 'finished' && (
+        <p className="text-sm text-red-600">{t('timers.finished')}</p>
+      )}
+      {state.status === 'missed' && (
+        <p className="text-sm text-gray-600">
+          {t('timers.missed', { time: formatTime(state.finishedAt, { hour: '2-digit', minute: '2-digit' }) })}
+        </p>
+      )}
+
+      {(state.status === 'running' || state.status === 'paused') && (
+        <div className="grid grid-cols-3 gap-2">
+          {[-1, 1, 5].map((minutes) => (
+            <button
+              key={minutes}
+              onClick={() => onAdjust(minutes)}
+              className="py-1 rounded-lg bg-white text-gray-600 hover:bg-gray-100 text-sm font-medium"
+            >
+              {t('timers.adjust', { minutes: minutes > 0 ? `+${minutes}` : minutes })}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {mainButton && (
+        <div className="flex gap-2">
+          <button
+            onClick={mainButton.onClick}
+            className={`flex-1 py-2 px-4 rounded-lg font-medium text-white flex items-center justify-center space-x-2 ${mainButton.className}`}
+          >
+            <mainButton.icon className="w-4 h-4" />
+            <span>{mainButton.label}</span>
+          </button>
+          {state.status === 'finished' && (
+            <button
+              onClick={onSnooze}
+              title={t('timers.snoozeTitle', { minutes: snoozeMinutes })}
+              className="py-2 px-3 rounded-lg bg-white text-gray-600 hover:bg-gray-100 flex items-center gap-1 text-sm"
+            >
+              <AlarmClockPlus className="w-4 h-4" />
+              <span>{t('timers.snooze')}</span>
+            </button>
+          )}
+          {(state.status === 'running' || state.status === 'paused') && (
+            <button
+              onClick={onStop}
+              title={t('timers.stop')}
+              aria-label={t('timers.stop')}
+              className="py-2 px-3 rounded-lg bg-white text-gray-600 hover:bg-gray-100"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TimerListItem;
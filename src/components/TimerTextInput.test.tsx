@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { useState } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import TimerTextInput from './TimerTextInput';
+import { parseTimerText } from '../lib/timerText';
+
+const NOW = new Date(2025, 2, 10, 9, 0).getTime();
+
+function Harness({ onSubmit = () => {} }: { onSubmit?: () => void }) {
+  const [value, setValue] = useState('');
+  const result = parseTimerText(value, 'duration');
+  const endTime = result.ok && result.value.type === 'duration'
+    ? NOW + (result.value.duration.hours * 3600 + result.value.duration.minutes * 60) * 1000
+    : null;
+  return (
+    <TimerTextInput
+      value={value}
+      mode="duration"
+      result={result}
+      endTime={endTime}
+      now={NOW}
+      onChange={setValue}
+      onSubmit={onSubmit}
+    />
+  );
+}
+
+const description = (input: HTMLElement) =>
+  document.getElementById(input.getAttribute('aria-describedby') ?? '')?.textContent;
+
+describe('TimerTextInput', () => {
+  it('読み取れた入力は終了時刻と残り時間をすぐに表示する', () => {
+    render(<Harness />);
+    const input = screen.getByLabelText('時間または終了時刻');
+
+    fireEvent.change(input, { target: { value: '1h30' } });
+    expect(input.getAttribute('aria-invalid')).toBe('false');
+    expect(description(input)).toMatch(/に終了（あと 01:30:00）$/);
+  });
+
+  it('読み取れない入力は理由を表示する', () => {
+    render(<Harness />);
+    const input = screen.getByLabelText('時間または終了時刻');
+
+    fireEvent.change(input, { target: { value: '20d' } });
+    expect(input.getAttribute('aria-invalid')).toBe('true');
+    expect(description(input)).toBe('長すぎます（14日まで）');
+
+    // 空のときはエラーにしない
+    fireEvent.change(input, { target: { value: '' } });
+    expect(input.getAttribute('aria-invalid')).toBe('false');
+  });
+
+  it('Enter で開始する', () => {
+    const onSubmit = vi.fn();
+    render(<Harness onSubmit={onSubmit} />);
+    fireEvent.keyDown(screen.getByLabelText('時間または終了時刻'), { key: 'Enter' });
+    expect(onSubmit).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,62 @@
+import { useId } from 'react';
+import { formatRemaining } from '../lib/timerState';
+import { MAX_DURATION_DAYS } from '../lib/timerText';
+import type { TimerTextResult } from '../lib/timerText';
+import { useI18n } from '../hooks/useI18n';
+
+interface TimerTextInputProps {
+  value: string;
+  // 選んでいるモード（入力例の表示に使う）
+  mode: 'time' | 'duration';
+  result: TimerTextResult;
+  // 読み取れたときの終了時刻
+  endTime: number | null;
+  now: number;
+  onChange: (value: string) => void;
+  // Enter で開始する
+  onSubmit: () => void;
+}
+
+// "90m"、"1h30"、"until 14:05"、"明日 9:00" などを1つの欄で受け付け、
+// 終了時刻のプレビューか読み取れない理由をすぐ下に表示する
+function TimerTextInput({ value, mode, result, endTime, now, onChange, onSubmit }: TimerTextInputProps) {
+  const { t, formatDate } = useI18n();
+  const messageId = useId();
+  const error = !result.ok && result.error !== 'empty' ? result.error : null;
+
+  return (
+    <div className="space-y-1">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            onSubmit();
+          }
+        }}
+        placeholder={t(mode === 'time' ? 'timerText.placeholderTime' : 'timerText.placeholderDuration')}
+        aria-label={t('timerText.label')}
+        aria-invalid={error !== null}
+        aria-describedby={messageId}
+        autoComplete="off"
+        className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-center text-lg ${
+          error ? 'border-red-400' : 'border-gray-300'
+        }`}
+      />
+      <p id={messageId} aria-live="polite" className={`min-h-5 text-sm text-center ${error ? 'text-red-500' : 'text-gray-500'}`}>
+        {error
+          ? t(`timerText.${error}`, { days: MAX_DURATION_DAYS })
+          : endTime !== null
+          ? t('timerText.preview', {
+            time: formatDate(endTime, { month: 'numeric', day: 'numeric', weekday: 'short', hour: '2-digit', minute: '2-digit' }),
+            remaining: formatRemaining(endTime - now)
+          })
+          : t('timerText.hint')}
+      </p>
+    </div>
+  );
+}
+
+export default TimerTextInput;
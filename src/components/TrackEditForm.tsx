@@ -0,0 +1,108 @@
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { ImagePlus, Music, X } from 'lucide-react';
+import type { BGMTrack } from '../types';
+import { createCoverThumbnail } from '../lib/trackInfo';
+import { useI18n } from '../hooks/useI18n';
+
+export type TrackEdit = Pick<BGMTrack, 'title' | 'composer' | 'coverArt'>;
+
+interface TrackEditFormProps {
+  track: BGMTrack;
+  onSave: (edit: TrackEdit) => void;
+  onCancel: () => void;
+}
+
+function TrackEditForm({ track, onSave, onCancel }: TrackEditFormProps) {
+  const { t } = useI18n();
+  const [title, setTitle] = useState(track.title);
+  const [composer, setComposer] = useState(track.composer);
+  const [coverArt, setCoverArt] = useState(track.coverArt);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImageChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const thumbnail = await createCoverThumbnail(file);
+    if (thumbnail) setCoverArt(thumbnail);
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave({ title: title.trim() || track.title, composer: composer.trim(), coverArt });
+      }}
+      className="p-2 rounded bg-gray-50 space-y-2"
+    >
+      <div className="flex gap-2">
+        <div className="relative w-16 h-16 shrink-0">
+          <button
+            type="button"
+            onClick={() => imageInputRef.current?.click()}
+            title={t('trackEdit.changeCover')}
+            aria-label={t('trackEdit.changeCover')}
+            className="w-16 h-16 rounded overflow-hidden bg-gray-200 flex items-center justify-center text-gray-400 hover:opacity-80"
+          >
+            {coverArt ? (
+              <img src={coverArt} alt="" className="w-full h-full object-cover" />
+            ) : (
+              <ImagePlus className="w-6 h-6" />
+            )}
+          </button>
+          {coverArt && (
+            <button
+              type="button"
+              onClick={() => setCoverArt(undefined)}
+              title={t('trackEdit.removeCover')}
+              aria-label={t('trackEdit.removeCover')}
+              className="absolute -top-1 -right-1 p-0.5 rounded-full bg-white shadow text-gray-500 hover:text-red-600"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+          <input
+            ref={imageInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handleImageChange}
+            className="hidden"
+          />
+        </div>
+        <div className="flex-1 space-y-1">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={t('trackEdit.title')}
+            aria-label={t('trackEdit.title')}
+            className="w-full p-1 text-sm border border-gray-300 rounded"
+          />
+          <input
+            type="text"
+            value={composer}
+            onChange={(e) => setComposer(e.target.value)}
+            placeholder={t('trackEdit.composer')}
+            aria-label={t('trackEdit.composer')}
+            className="w-full p-1 text-sm border border-gray-300 rounded"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-400 flex items-center gap-1 truncate">
+        <Music className="w-3 h-3 shrink-0" />
+        {track.originalName}
+      </p>
+      <div className="flex gap-2">
+        <button type="submit" className="flex-1 py-1 rounded bg-blue-600 text-white text-sm hover:bg-blue-700">
+          {t('common.save')}
+        </button>
+        <button type="button" onClick={onCancel} className="flex-1 py-1 rounded text-gray-600 text-sm hover:bg-gray-100">
+          {t('common.cancel')}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default TrackEditForm;
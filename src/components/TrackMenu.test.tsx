@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import TrackMenu from './TrackMenu';
+import type { BGMTrack } from '../types';
+import { BUILT_IN_TRACKS } from '../lib/builtInTracks';
+import { createMockBGMPlayer } from '../test/bgmPlayer';
+
+const player = createMockBGMPlayer({ currentTrack: BUILT_IN_TRACKS[0] });
+
+const uploaded: BGMTrack = {
+  id: 'u1',
+  title: '自作BGM',
+  composer: 'me',
+  filename: 'blob:u1',
+  originalName: 'bgm.mp3',
+  size: 1,
+  type: 'audio/mpeg',
+  uploadedAt: '2025-01-01T00:00:00.000Z'
+};
+
+const renderMenu = () => {
+  const onRemoveTrack = vi.fn();
+  render(
+    <TrackMenu
+      player={player}
+      tracks={[uploaded]}
+      onUpload={vi.fn()}
+      onUpdateTrack={() => true}
+      onRemoveTrack={onRemoveTrack}
+    />
+  );
+  return { onRemoveTrack };
+};
+
+describe('TrackMenu', () => {
+  it('ボタンで開き、Escで閉じてボタンにフォーカスを戻す', () => {
+    renderMenu();
+    const trigger = screen.getByRole('button', { name: 'BGMメニュー' });
+    expect(trigger.getAttribute('aria-expanded')).toBe('false');
+    expect(screen.queryByRole('dialog')).toBeNull();
+
+    fireEvent.click(trigger);
+    const menu = screen.getByRole('dialog', { name: 'BGMメニュー' });
+    expect(trigger.getAttribute('aria-expanded')).toBe('true');
+    expect(document.activeElement).toBe(menu);
+
+    fireEvent.keyDown(menu, { key: 'Escape' });
+    expect(screen.queryByRole('dialog')).toBeNull();
+    expect(document.activeElement).toBe(trigger);
+  });
+
+  it('曲ごとの操作ボタンに曲名入りのラベルを付ける', () => {
+    const { onRemoveTrack } = renderMenu();
+    fireEvent.click(screen.getByRole('button', { name: 'BGMメニュー' }));
+
+    expect(screen.getByRole('list', { name: 'アップロードした曲' })).toBeTruthy();
+    expect(screen.getByRole('button', { name: '「自作BGM」の曲情報を編集' })).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: '「自作BGM」を削除' }));
+    expect(onRemoveTrack).toHaveBeenCalledWith(uploaded);
+  });
+
+  it('メニューの外を押すと閉じる', () => {
+    renderMenu();
+    fireEvent.click(screen.getByRole('button', { name: 'BGMメニュー' }));
+    fireEvent.pointerDown(document.body);
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+});
@@ -0,0 +1,223 @@
+import { useEffect, useId, useRef, useState } from 'react';
+import { ListMusic, Pencil, Trash2, Upload, Volume2 } from 'lucide-react';
+import type { BGMTrack } from '../types';
+import type { BGMPlayer } from '../hooks/useBGMPlayer';
+import { BUILT_IN_TRACKS } from '../lib/builtInTracks';
+import { getAmbientTracks } from '../lib/ambient';
+import { ACCEPTED_FILE_TYPES } from '../lib/audioValidation';
+import { useI18n } from '../hooks/useI18n';
+import NowPlaying from './NowPlaying';
+import TrackEditForm from './TrackEditForm';
+import type { TrackEdit } from './TrackEditForm';
+
+interface TrackMenuProps {
+  player: BGMPlayer;
+  tracks: BGMTrack[];
+  onUpload: (files: File[]) => void;
+  // 保存できたら true
+  onUpdateTrack: (id: string, edit: TrackEdit) => boolean;
+  onRemoveTrack: (track: BGMTrack) => void;
+}
+
+const formatTrackDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// 曲の選択・アップロード・編集をまとめたメニュー。クリックまたはキーボードで開き、Escで閉じる
+function TrackMenu({ player, tracks, onUpload, onUpdateTrack, onRemoveTrack }: TrackMenuProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [showUploadForm, setShowUploadForm] = useState(false);
+  const [editingTrackId, setEditingTrackId] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const panelId = useId();
+
+  const close = (restoreFocus: boolean) => {
+    setIsOpen(false);
+    setShowUploadForm(false);
+    setEditingTrackId(null);
+    if (restoreFocus) triggerRef.current?.focus();
+  };
+
+  // 開いたらメニューにフォーカスを移し、外側をクリックしたら閉じる
+  useEffect(() => {
+    if (!isOpen) return;
+    panelRef.current?.focus();
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+        setShowUploadForm(false);
+        setEditingTrackId(null);
+      }
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const sections = [
+    { label: t('bgm.classical'), items: BUILT_IN_TRACKS },
+    { label: t('bgm.uploaded'), items: tracks },
+    { label: t('ambient.section'), items: getAmbientTracks() }
+  ].filter(section => section.items.length > 0);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        ref={triggerRef}
+        onClick={() => (isOpen ? close(false) : setIsOpen(true))}
+        aria-label={t('bgm.menu')}
+        title={t('bgm.menu')}
+        aria-expanded={isOpen}
+        aria-controls={panelId}
+        aria-haspopup="dialog"
+        className={`p-2 rounded-full transition-colors ${
+          isOpen ? 'bg-blue-100 text-blue-600' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+        }`}
+      >
+        <ListMusic className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div
+          ref={panelRef}
+          id={panelId}
+          role="dialog"
+          aria-label={t('bgm.menu')}
+          tabIndex={-1}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              e.preventDefault();
+              close(true);
+            }
+          }}
+          className="absolute right-0 mt-2 w-72 bg-white rounded-lg shadow-lg p-3 z-10 outline-none"
+        >
+          <div className="space-y-2">
+            {showUploadForm ? (
+              <div className="p-2">
+                <input
+                  type="file"
+                  ref={fileInputRef}
+                  multiple
+                  onChange={(e) => {
+                    onUpload(Array.from(e.target.files ?? []));
+                    e.target.value = '';
+                    setShowUploadForm(false);
+                  }}
+                  accept={ACCEPTED_FILE_TYPES}
+                  className="hidden"
+                />
+                <div className="space-y-2">
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-full py-2 px-4 bg-blue-100 text-blue-600 rounded hover:bg-blue-200 flex items-center justify-center gap-2"
+                  >
+                    <Upload className="w-4 h-4" />
+                    <span>{t('bgm.chooseFiles')}</span>
+                  </button>
+                  <p className="text-xs text-gray-500">
+                    {t('bgm.uploadHint')}
+                  </p>
+                  <button
+                    onClick={() => setShowUploadForm(false)}
+                    className="w-full py-2 px-4 text-gray-600 rounded hover:bg-gray-100"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <NowPlaying player={player} />
+                <div className="max-h-64 overflow-y-auto space-y-2">
+                  {sections.map((section) => (
+                    <div key={section.label} className="space-y-1">
+                      <div className="px-2 text-xs font-semibold text-gray-400">{section.label}</div>
+                      <ul aria-label={section.label} className="space-y-1">
+                        {section.items.map((track) => (
+                          <li key={track.id}>
+                            {editingTrackId === track.id ? (
+                              <TrackEditForm
+                                track={track}
+                                onSave={(edit) => {
+                                  if (onUpdateTrack(track.id, edit)) setEditingTrackId(null);
+                                }}
+                                onCancel={() => setEditingTrackId(null)}
+                              />
+                            ) : (
+                              <div
+                                className={`w-full text-left p-2 rounded transition-colors flex items-center justify-between gap-2 ${
+                                  player.currentTrack?.id === track.id
+                                    ? 'bg-blue-50 text-blue-600'
+                                    : 'hover:bg-gray-50'
+                                }`}
+                              >
+                                {track.coverArt && (
+                                  <img src={track.coverArt} alt="" className="w-10 h-10 rounded object-cover shrink-0" />
+                                )}
+                                <button
+                                  onClick={() => player.select(track)}
+                                  aria-current={player.currentTrack?.id === track.id ? 'true' : undefined}
+                                  className="flex-1 min-w-0 text-left"
+                                >
+                                  <div className="font-medium flex items-center gap-1">
+                                    {player.currentTrack?.id === track.id && player.isPlaying && (
+                                      <Volume2 className="w-3 h-3 animate-pulse" aria-hidden="true" />
+                                    )}
+                                    <span className="truncate">{track.title}</span>
+                                  </div>
+                                  <div className="text-sm text-gray-600 truncate">
+                                    {track.composer}
+                                    {track.duration !== undefined && ` ・ ${formatTrackDuration(track.duration)}`}
+                                  </div>
+                                </button>
+                                {!track.builtIn && (
+                                  <>
+                                    <button
+                                      onClick={() => setEditingTrackId(track.id)}
+                                      title={t('bgm.editTrack')}
+                                      aria-label={t('bgm.editTrackNamed', { title: track.title })}
+                                      className="p-1 text-gray-400 hover:text-blue-600 rounded"
+                                    >
+                                      <Pencil className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                      onClick={() => onRemoveTrack(track)}
+                                      title={t('bgm.deleteTrack')}
+                                      aria-label={t('bgm.deleteTrackNamed', { title: track.title })}
+                                      className="p-1 text-gray-400 hover:text-red-600 rounded"
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </button>
+                                  </>
+                                )}
+                              </div>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setShowUploadForm(true)}
+                  className="w-full py-2 px-4 text-gray-600 rounded hover:bg-gray-100 flex items-center justify-center gap-2"
+                >
+                  <Upload className="w-4 h-4" />
+                  <span>{t('bgm.upload')}</span>
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TrackMenu;
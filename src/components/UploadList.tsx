@@ -0,0 +1,49 @@
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import type { UploadItem } from '../hooks/useTrackUploads';
+import { useI18n } from '../hooks/useI18n';
+
+interface UploadListProps {
+  uploads: UploadItem[];
+  onClear: () => void;
+}
+
+function UploadList({ uploads, onClear }: UploadListProps) {
+  const { t } = useI18n();
+  const finished = uploads.every((item) => item.status === 'done' || item.status === 'error');
+
+  return (
+    <div className="p-3 rounded-lg bg-gray-50 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-600">{t('upload.heading')}</h3>
+        {finished && (
+          <button onClick={onClear} className="text-xs text-gray-500 hover:text-gray-700">
+            {t('common.close')}
+          </button>
+        )}
+      </div>
+      {uploads.map((item) => (
+        <div key={item.id} className="space-y-1">
+          <div className="flex items-center gap-2 text-sm">
+            {item.status === 'done' ? (
+              <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0" />
+            ) : item.status === 'error' ? (
+              <AlertCircle className="w-4 h-4 text-red-600 shrink-0" />
+            ) : (
+              <Loader2 className="w-4 h-4 text-blue-600 shrink-0 animate-spin" />
+            )}
+            <span className="flex-1 truncate text-gray-800">{item.name}</span>
+            <span className="text-xs text-gray-500 shrink-0">{t(`upload.${item.status}`)}</span>
+          </div>
+          {item.error && <p role="alert" className="pl-6 text-xs text-red-600">{t(item.error)}</p>}
+          {item.status !== 'done' && item.status !== 'error' && (
+            <div className="h-1 rounded-full bg-gray-200 overflow-hidden">
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${item.progress * 100}%` }} />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default UploadList;
@@ -0,0 +1,66 @@
+import { useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import type { AlarmSettings } from '../lib/alarmSettings';
+
+const FADE_STEP_MS = 100;
+
+// ringKey が変わるたびに src のアラームを最初から鳴らす。null なら止める
+export const useAlarmPlayer = (
+  audioRef: RefObject<HTMLAudioElement>,
+  ringKey: string | null,
+  src: string | null,
+  settings: AlarmSettings
+): void => {
+  const settingsRef = useRef(settings);
+  const fadingRef = useRef(false);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.loop = settings.repeat;
+    if (!fadingRef.current) {
+      audio.volume = settings.volume;
+    }
+  }, [audioRef, settings]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (!ringKey || !src) {
+      audio.pause();
+      audio.currentTime = 0;
+      return;
+    }
+
+    const { volume, fadeInSeconds, repeat } = settingsRef.current;
+    audio.src = src;
+    audio.loop = repeat;
+    audio.currentTime = 0;
+    audio.volume = fadeInSeconds > 0 ? 0 : volume;
+    audio.play().catch((error) => {
+      console.error('Error playing alarm:', error);
+    });
+
+    if (fadeInSeconds <= 0) return;
+
+    // 音量を少しずつ上げる
+    fadingRef.current = true;
+    const startedAt = performance.now();
+    const interval = setInterval(() => {
+      const progress = Math.min(1, (performance.now() - startedAt) / (fadeInSeconds * 1000));
+      audio.volume = settingsRef.current.volume * progress;
+      if (progress >= 1) {
+        fadingRef.current = false;
+        clearInterval(interval);
+      }
+    }, FADE_STEP_MS);
+
+    return () => {
+      fadingRef.current = false;
+      clearInterval(interval);
+    };
+  }, [audioRef, ringKey, src]);
+};
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { useCountdown } from './useCountdown';
+import { useAudioController } from './useAudioController';
+import type { BGMPlayer } from './useBGMPlayer';
+import { getBundledAlarmSounds } from '../lib/alarmSounds';
+import { DEFAULT_ALARM_SETTINGS } from '../lib/alarmSettings';
+import type { AlarmSettings } from '../lib/alarmSettings';
+import { DEFAULT_POMODORO_SETTINGS } from '../lib/pomodoro';
+import { installFakeClock } from '../test/fakeClock';
+import { createMockBGMPlayer } from '../test/bgmPlayer';
+
+// App と同じように、タイマーの終了でアラームを鳴らす
+function Harness({ bgm, settings = DEFAULT_ALARM_SETTINGS }: { bgm: BGMPlayer; settings?: AlarmSettings }) {
+  const countdown = useCountdown(DEFAULT_POMODORO_SETTINGS, {
+    onExpire: (timer) => audio.ringAlarm(timer.id),
+    onPhaseEnd: () => {},
+    onPhaseStart: () => {}
+  });
+  const audio = useAudioController(bgm, countdown.timers, getBundledAlarmSounds(), settings, 0.5);
+
+  return (
+    <>
+      <button
+        onClick={() => countdown.start(
+          { label: '英語', type: 'duration', alarmSoundId: 'alarm' },
+          { endTime: Date.now() + 60 * 1000, target: '00:01:00' }
+        )}
+      >
+        start
+      </button>
+      {countdown.timers.map((timer) => (
+        <button key={timer.id} onClick={() => audio.silenceAlarm(timer.id)}>
+          dismiss
+        </button>
+      ))}
+      <div data-testid="ringing">{audio.ringingId ?? ''}</div>
+      <audio data-testid="alarm" ref={audio.audioRef} onEnded={audio.handleAlarmEnded} />
+    </>
+  );
+}
+
+describe('useAudioController', () => {
+  beforeEach(() => {
+    installFakeClock(new Date(2025, 2, 10, 9, 0, 0));
+    vi.mocked(HTMLMediaElement.prototype.play).mockClear();
+    vi.mocked(HTMLMediaElement.prototype.pause).mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('タイマーの終了でBGMを止めてアラームを鳴らす', () => {
+    const bgm = createMockBGMPlayer({ isPlaying: true });
+    render(<Harness bgm={bgm} settings={{ ...DEFAULT_ALARM_SETTINGS, duckBgm: false }} />);
+    const alarm = screen.getByTestId<HTMLAudioElement>('alarm');
+
+    fireEvent.click(screen.getByText('start'));
+    act(() => {
+      vi.advanceTimersByTime(59 * 1000);
+    });
+    expect(bgm.stop).not.toHaveBeenCalled();
+    expect(HTMLMediaElement.prototype.play).not.toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(bgm.stop).toHaveBeenCalledTimes(1);
+    expect(HTMLMediaElement.prototype.play).toHaveBeenCalledTimes(1);
+    expect(alarm.src).toMatch(/\/audio\/alarm\.mp3$/);
+    expect(alarm.volume).toBe(DEFAULT_ALARM_SETTINGS.volume);
+    expect(screen.getByTestId('ringing').textContent).not.toBe('');
+  });
+
+  it('タイマーの開始後に再生し始めたBGMも終了時に止める', () => {
+    const settings = { ...DEFAULT_ALARM_SETTINGS, duckBgm: false };
+    const { rerender } = render(<Harness bgm={createMockBGMPlayer({ isPlaying: false })} settings={settings} />);
+
+    fireEvent.click(screen.getByText('start'));
+    // 開始時の描画の値ではなく、終了時点の再生状態を見る
+    const playing = createMockBGMPlayer({ isPlaying: true });
+    rerender(<Harness bgm={playing} settings={settings} />);
+    act(() => {
+      vi.advanceTimersByTime(60 * 1000);
+    });
+    expect(playing.stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('ダッキングする設定ではBGMを止めずに小さくし、アラームを止めたら戻す', () => {
+    const bgm = createMockBGMPlayer({ isPlaying: true });
+    render(<Harness bgm={bgm} />);
+
+    fireEvent.click(screen.getByText('start'));
+    act(() => {
+      vi.advanceTimersByTime(60 * 1000);
+    });
+    expect(bgm.stop).not.toHaveBeenCalled();
+    expect(bgm.setDucked).toHaveBeenLastCalledWith(true);
+
+    fireEvent.click(screen.getByText('dismiss'));
+    expect(bgm.setDucked).toHaveBeenLastCalledWith(false);
+    expect(bgm.stop).not.toHaveBeenCalled();
+  });
+
+  it('BGMが止まっているときはBGMに触れない', () => {
+    const bgm = createMockBGMPlayer({ isPlaying: false });
+    render(<Harness bgm={bgm} />);
+
+    fireEvent.click(screen.getByText('start'));
+    act(() => {
+      vi.advanceTimersByTime(60 * 1000);
+    });
+    expect(bgm.stop).not.toHaveBeenCalled();
+    expect(HTMLMediaElement.prototype.play).toHaveBeenCalledTimes(1);
+  });
+
+  it('アラームを止めると再生をやめる', () => {
+    render(<Harness bgm={createMockBGMPlayer({ isPlaying: false })} />);
+
+    fireEvent.click(screen.getByText('start'));
+    act(() => {
+      vi.advanceTimersByTime(60 * 1000);
+    });
+    fireEvent.click(screen.getByText('dismiss'));
+    expect(screen.getByTestId('ringing').textContent).toBe('');
+    expect(HTMLMediaElement.prototype.pause).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from 'react';
+import type { NamedTimer } from '../lib/timers';
+import { findAlarmSound } from '../lib/alarmSounds';
+import type { AlarmSound } from '../lib/alarmSounds';
+import type { AlarmSettings } from '../lib/alarmSettings';
+import type { PomodoroPhase } from '../lib/pomodoro';
+import { playPhaseCue } from '../lib/cues';
+import { perceptualVolume } from '../lib/loudness';
+import { useAlarmPlayer } from './useAlarmPlayer';
+import type { BGMPlayer } from './useBGMPlayer';
+
+// アラーム・BGM・フェーズの合図の鳴らし分けをまとめる。
+// audioRef はアラーム用の <audio> に渡し、その onEnded で handleAlarmEnded を呼ぶ
+export const useAudioController = (
+  bgm: BGMPlayer,
+  timers: NamedTimer[],
+  alarmSounds: AlarmSound[],
+  alarmSettings: AlarmSettings,
+  volume: number
+) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  // 鳴らす順番待ちのタイマーID（先頭が再生中）
+  const [alarmQueue, setAlarmQueue] = useState<string[]>([]);
+
+  // 同時に終了したタイマーのアラームは重ねずに順番に鳴らす
+  const ringingId = alarmQueue[0] ?? null;
+  const ringingTimer = timers.find((timer) => timer.id === ringingId);
+  const ringingSound = ringingTimer ? findAlarmSound(ringingTimer.alarmSoundId, alarmSounds) : null;
+
+  useAlarmPlayer(audioRef, ringingId, ringingSound?.src ?? null, alarmSettings);
+
+  // ダッキングする設定なら、鳴っている間だけBGMを小さくする
+  const ducking = alarmSettings.duckBgm && ringingId !== null;
+  const bgmRef = useRef(bgm);
+  useEffect(() => {
+    bgmRef.current = bgm;
+  });
+  useEffect(() => {
+    bgmRef.current.setDucked(ducking);
+  }, [ducking]);
+
+  // アラームを鳴らす前にBGMを止める（ダッキングする設定なら止めずに小さくする）
+  const ringAlarm = (id: string) => {
+    if (bgm.isPlaying && !alarmSettings.duckBgm) {
+      bgm.stop();
+    }
+    setAlarmQueue(queue => [...queue, id]);
+  };
+
+  // 鳴っている・順番待ちのアラームを外す（次のアラームが鳴り始める）
+  const silenceAlarm = (id: string) => {
+    setAlarmQueue(queue => queue.filter(queuedId => queuedId !== id));
+  };
+
+  const handleAlarmEnded = () => {
+    setAlarmQueue(queue => queue.slice(1));
+  };
+
+  // 集中中はBGMを流し、休憩中は一時停止する（再生位置は保持）
+  const enterPhase = (phase: PomodoroPhase) => {
+    playPhaseCue(phase, perceptualVolume(volume));
+
+    if (phase === 'focus') {
+      bgm.play();
+    } else {
+      bgm.pause();
+    }
+  };
+
+  return { audioRef, ringingId, ringAlarm, silenceAlarm, handleAlarmEnded, enterPhase };
+};
@@ -0,0 +1,246 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useBGMPlayer } from './useBGMPlayer';
+import { getAmbientTracks } from '../lib/ambient';
+import { BUILT_IN_TRACKS } from '../lib/builtInTracks';
+import { getNormalizationGain, perceptualVolume } from '../lib/loudness';
+import type { BGMTrack } from '../types';
+
+// jsdom には Web Audio がないので、つながりと開始・停止だけを記録する偽物を使う
+const param = () => ({ value: 0, setTargetAtTime: vi.fn(), setValueAtTime: vi.fn(), linearRampToValueAtTime: vi.fn(), cancelScheduledValues: vi.fn() });
+const node = () => ({ connect: vi.fn((target) => target), disconnect: vi.fn() });
+
+const started: { stop: ReturnType<typeof vi.fn> }[] = [];
+const gains: ReturnType<typeof param>[] = [];
+
+class FakeAudioContext {
+  state = 'running';
+  currentTime = 0;
+  sampleRate = 8000;
+  destination = node();
+  resume = vi.fn();
+  createGain() {
+    const gain = param();
+    gains.push(gain);
+    return { ...node(), gain };
+  }
+  createBiquadFilter() {
+    return { ...node(), type: '', frequency: param() };
+  }
+  createMediaElementSource() {
+    return node();
+  }
+  createChannelMerger() {
+    return node();
+  }
+  createBuffer(channels: number, length: number) {
+    const data = Array.from({ length: channels }, () => new Float32Array(length));
+    return { numberOfChannels: channels, getChannelData: (channel: number) => data[channel] };
+  }
+  createBufferSource() {
+    return this.source({ buffer: null, loop: false });
+  }
+  createOscillator() {
+    return this.source({ frequency: param() });
+  }
+  private source<T extends object>(extra: T) {
+    const source = { ...node(), ...extra, start: vi.fn(), stop: vi.fn() };
+    source.start.mockImplementation(() => started.push(source));
+    return source;
+  }
+}
+
+describe('useBGMPlayer（環境音）', () => {
+  const rain = getAmbientTracks()[3];
+
+  beforeEach(() => {
+    started.length = 0;
+    gains.length = 0;
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const renderPlayer = () =>
+    renderHook(({ volume }) => useBGMPlayer([...BUILT_IN_TRACKS, ...getAmbientTracks()], volume, BUILT_IN_TRACKS[0]), {
+      initialProps: { volume: 0.5 }
+    });
+
+  it('環境音を選ぶとその音だけを鳴らす', () => {
+    const { result } = renderPlayer();
+    act(() => {
+      result.current.select(rain, true);
+    });
+    expect(result.current.currentTrack?.id).toBe(rain.id);
+    expect(result.current.isPlaying).toBe(true);
+    expect(result.current.isLoaded).toBe(true);
+    expect(result.current.ambientMix).toMatchObject({ rain: 0.5, white: 0, binaural: 0 });
+    expect(started.length).toBeGreaterThan(0);
+  });
+
+  it('停止（アラームで止めるとき）と一時停止で音源を止める', () => {
+    const { result } = renderPlayer();
+    act(() => {
+      result.current.select(rain, true);
+    });
+    act(() => {
+      result.current.stop();
+    });
+    expect(started.every((source) => source.stop.mock.calls.length === 1)).toBe(true);
+    expect(result.current.isPlaying).toBe(false);
+
+    act(() => {
+      result.current.play();
+    });
+    const restarted = started.slice(started.length / 2);
+    act(() => {
+      result.current.pause();
+    });
+    expect(restarted.every((source) => source.stop.mock.calls.length === 1)).toBe(true);
+  });
+
+  it('マスターの音量を環境音にもかける', () => {
+    const { result, rerender } = renderPlayer();
+    act(() => {
+      result.current.select(rain, true);
+    });
+    // 最初に作るゲインがマスター
+    const master = gains[0];
+    rerender({ volume: 0.2 });
+    expect(master.value).toBe(perceptualVolume(0.2));
+  });
+
+  it('ミックスの変更を再生中の音に反映する', () => {
+    const { result } = renderPlayer();
+    act(() => {
+      result.current.select(rain, true);
+    });
+    act(() => {
+      result.current.setAmbientMix({ ...result.current.ambientMix, pink: 0.7 });
+    });
+    expect(gains.some((gain) => gain.setTargetAtTime.mock.calls.some(([value]) => value === 0.7))).toBe(true);
+    expect(JSON.parse(localStorage.getItem('ambientMix')!)).toMatchObject({ rain: 0.5, pink: 0.7 });
+  });
+});
+
+describe('useBGMPlayer（音量）', () => {
+  const quietTrack: BGMTrack = {
+    ...BUILT_IN_TRACKS[0],
+    id: 'quiet',
+    builtIn: false,
+    loudness: { integratedDb: -30, peak: 0.2 }
+  };
+
+  beforeEach(() => {
+    gains.length = 0;
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const renderPlayer = () => renderHook(() => useBGMPlayer([...BUILT_IN_TRACKS, quietTrack], 0.5, BUILT_IN_TRACKS[0]));
+
+  it('測った音量に合わせて曲ごとの音量をそろえる', () => {
+    const { result } = renderPlayer();
+    act(() => {
+      result.current.select(quietTrack, true);
+    });
+    // マスター・ダッキングの次が、1つ目のデッキの音量補正
+    expect(gains[2].value).toBeCloseTo(getNormalizationGain(quietTrack.loudness));
+    expect(gains[2].value).toBeGreaterThan(1);
+  });
+
+  it('あとから音量を測った曲には、読み込み済みでも音量補正をかける', () => {
+    const unmeasured: BGMTrack = { ...quietTrack, loudness: undefined };
+    const { result, rerender } = renderHook(
+      ({ track }) => useBGMPlayer([...BUILT_IN_TRACKS, track], 0.5, BUILT_IN_TRACKS[0]),
+      { initialProps: { track: unmeasured } }
+    );
+    act(() => {
+      result.current.select(unmeasured, true);
+    });
+    expect(gains[2].value).toBe(1);
+
+    rerender({ track: quietTrack });
+    expect(gains[2].value).toBeCloseTo(getNormalizationGain(quietTrack.loudness));
+  });
+
+  it('ダッキング中は止めずに小さくし、戻すと元の音量に戻す', () => {
+    const { result } = renderPlayer();
+    act(() => {
+      result.current.select(quietTrack, true);
+    });
+    const duck = gains[1];
+    const pause = vi.mocked(HTMLMediaElement.prototype.pause);
+    pause.mockClear();
+
+    act(() => {
+      result.current.setDucked(true);
+    });
+    expect(duck.linearRampToValueAtTime).toHaveBeenLastCalledWith(0.2, expect.any(Number));
+    expect(pause).not.toHaveBeenCalled();
+
+    act(() => {
+      result.current.setDucked(false);
+    });
+    expect(duck.linearRampToValueAtTime).toHaveBeenLastCalledWith(1, expect.any(Number));
+  });
+});
+
+describe('useBGMPlayer（読み込みエラー）', () => {
+  const tracks: BGMTrack[] = ['a', 'b', 'c'].map((id) => ({ ...BUILT_IN_TRACKS[0], id, filename: `/audio/${id}.mp3` }));
+  const play = vi.mocked(HTMLMediaElement.prototype.play);
+  const load = vi.mocked(HTMLMediaElement.prototype.load);
+
+  // 最後に曲を読み込んだデッキでエラーを起こす
+  const failActiveDeck = () => {
+    const audio = load.mock.contexts[load.mock.contexts.length - 1] as HTMLAudioElement;
+    act(() => {
+      audio.dispatchEvent(new Event('error'));
+    });
+  };
+
+  beforeEach(() => {
+    play.mockClear();
+    load.mockClear();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it('再生中の曲が読み込めなければ次の曲へ進み、全曲失敗したら止める', () => {
+    const { result } = renderHook(() => useBGMPlayer(tracks, 0.5, tracks[0]));
+    act(() => {
+      result.current.select(tracks[1], true);
+    });
+
+    failActiveDeck();
+    expect(result.current.currentTrack?.id).toBe('c');
+    expect(play).toHaveBeenCalledTimes(2);
+
+    // 先頭に戻って a を再生し、それも失敗したら b は飛ばして止める
+    failActiveDeck();
+    expect(result.current.currentTrack?.id).toBe('a');
+    failActiveDeck();
+    expect(play).toHaveBeenCalledTimes(3);
+    expect(result.current.isPlaying).toBe(false);
+  });
+
+  it('再生していないときは曲を切り替えない', () => {
+    const { result } = renderHook(() => useBGMPlayer(tracks, 0.5, tracks[0]));
+    act(() => {
+      result.current.select(tracks[1], false);
+    });
+
+    failActiveDeck();
+    expect(result.current.currentTrack?.id).toBe('b');
+    expect(result.current.isLoaded).toBe(false);
+    expect(play).not.toHaveBeenCalled();
+  });
+});
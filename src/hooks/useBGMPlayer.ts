@@ -0,0 +1,514 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { BGMTrack } from '../types';
+import {
+  getAdjacentId,
+  loadPlaylistSettings,
+  savePlaylistSettings,
+  shuffleIds,
+} from '../lib/playlist';
+import type { PlaylistSettings } from '../lib/playlist';
+import { createAmbientEngine, loadAmbientMix, saveAmbientMix, soloAmbientMix } from '../lib/ambient';
+import type { AmbientEngine, AmbientMix } from '../lib/ambient';
+import { getNormalizationGain, perceptualVolume } from '../lib/loudness';
+
+// クロスフェード用に2つの再生デッキを用意し、Web Audio のゲインで音量を切り替える。
+// 音声 → normalize（曲ごとの音量補正）→ gain（クロスフェード）→ マスター → ダッキング の順につなぐ
+interface Deck {
+  audio: HTMLAudioElement;
+  gain: GainNode | null;
+  normalize: GainNode | null;
+  // 読み込んでいる曲の音量補正の倍率
+  level: number;
+}
+
+const createDecks = (): Deck[] =>
+  [0, 1].map(() => {
+    const audio = new Audio();
+    audio.preload = 'auto';
+    return { audio, gain: null, normalize: null, level: 1 };
+  });
+
+// この秒数以上再生していたら「前へ」で曲の先頭に戻る
+const RESTART_THRESHOLD_SECONDS = 3;
+// アラーム中のBGMの倍率（約-14dB）と、下げる・戻すのにかける時間
+const DUCK_LEVEL = 0.2;
+const DUCK_FADE_SECONDS = 0.5;
+
+export interface BGMPlayer {
+  currentTrack: BGMTrack | null;
+  isPlaying: boolean;
+  isLoaded: boolean;
+  elapsed: number;
+  duration: number;
+  settings: PlaylistSettings;
+  setSettings: (settings: PlaylistSettings) => void;
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  toggle: () => void;
+  next: () => void;
+  previous: () => void;
+  select: (track: BGMTrack, autoplay?: boolean) => void;
+  ambientMix: AmbientMix;
+  setAmbientMix: (mix: AmbientMix) => void;
+  // 止めずに音量だけ下げる（アラーム中）。false で元の音量に戻す
+  setDucked: (ducked: boolean) => void;
+}
+
+export const useBGMPlayer = (
+  playlist: BGMTrack[],
+  volume: number,
+  initialTrack: BGMTrack | null
+): BGMPlayer => {
+  const [selectedTrack, setCurrentTrack] = useState<BGMTrack | null>(initialTrack);
+  // 曲情報が編集されたときに反映されるよう、プレイリスト上の最新の曲を参照する
+  const currentTrack = playlist.find((track) => track.id === selectedTrack?.id) ?? selectedTrack;
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [position, setPosition] = useState({ elapsed: 0, duration: 0 });
+  const [settings, setSettings] = useState<PlaylistSettings>(loadPlaylistSettings);
+  const [ambientMix, setAmbientMix] = useState<AmbientMix>(loadAmbientMix);
+
+  const decksRef = useRef<Deck[] | null>(null);
+  decksRef.current ??= createDecks();
+  const decks = decksRef.current;
+  const activeRef = useRef(0);
+  const contextRef = useRef<AudioContext | null>(null);
+  const masterRef = useRef<GainNode | null>(null);
+  const duckRef = useRef<GainNode | null>(null);
+  const duckedRef = useRef(false);
+  const crossfadingRef = useRef(false);
+  // クロスフェードが終わったら前の曲を止めるタイマー
+  const fadeTimeoutRef = useRef<number | undefined>(undefined);
+  // 再生しようとしているか（読み込みに失敗したときに次の曲へ進むかどうか）
+  const wantsPlayRef = useRef(false);
+  // 読み込みや再生に失敗した曲。次へ進むときに飛ばす
+  const failedRef = useRef(new Set<string>());
+  const ambientRef = useRef<AmbientEngine | null>(null);
+
+  // 再生順（シャッフル時は曲の追加・削除やシャッフル切り替えのたびに並べ直す）。
+  // 環境音は終わりがないので、選んだときだけ再生し、曲順には入れない
+  const idsKey = playlist.filter((track) => !track.ambient).map((track) => track.id).join('\n');
+  const order = useMemo(() => {
+    const ids = idsKey ? idsKey.split('\n') : [];
+    return settings.shuffle ? shuffleIds(ids) : ids;
+  }, [idsKey, settings.shuffle]);
+
+  // イベントリスナーから最新の値を参照するためのref
+  const latest = useRef({ playlist, order, settings, currentTrack, isPlaying, volume, ambientMix });
+  useEffect(() => {
+    latest.current = { playlist, order, settings, currentTrack, isPlaying, volume, ambientMix };
+  });
+
+  // AudioContext はユーザー操作の後でないと動かないので、初めて再生するときに作る
+  const ensureGraph = (): AudioContext | null => {
+    if (contextRef.current || typeof AudioContext === 'undefined') return contextRef.current;
+
+    try {
+      const context = new AudioContext();
+      const master = context.createGain();
+      const duck = context.createGain();
+      master.gain.value = perceptualVolume(latest.current.volume);
+      duck.gain.value = duckedRef.current ? DUCK_LEVEL : 1;
+      master.connect(duck).connect(context.destination);
+
+      decks.forEach((deck, i) => {
+        const normalize = context.createGain();
+        const gain = context.createGain();
+        normalize.gain.value = deck.level;
+        gain.gain.value = i === activeRef.current ? 1 : 0;
+        context.createMediaElementSource(deck.audio).connect(normalize).connect(gain).connect(master);
+        deck.audio.volume = 1;
+        deck.normalize = normalize;
+        deck.gain = gain;
+      });
+
+      contextRef.current = context;
+      masterRef.current = master;
+      duckRef.current = duck;
+    } catch (error) {
+      console.error('Error creating BGM audio graph:', error);
+    }
+    return contextRef.current;
+  };
+
+  // Web Audio を使う前（または使えない環境）は、音量補正とダッキングも要素の音量でかける
+  const applyElementVolumes = () => {
+    if (masterRef.current) return;
+    const volume = perceptualVolume(latest.current.volume) * (duckedRef.current ? DUCK_LEVEL : 1);
+    decks.forEach((deck) => {
+      deck.audio.volume = Math.min(1, volume * deck.level);
+    });
+  };
+
+  // デッキに曲を読み込み、その曲の音量補正をかける
+  const loadTrack = (deck: Deck, track: BGMTrack) => {
+    deck.audio.src = track.filename;
+    deck.level = getNormalizationGain(track.loudness);
+    if (deck.normalize) {
+      deck.normalize.gain.value = deck.level;
+    } else {
+      applyElementVolumes();
+    }
+  };
+
+  const startPlayback = (audio: HTMLAudioElement) => {
+    const context = ensureGraph();
+    if (context?.state === 'suspended') {
+      context.resume();
+    }
+    wantsPlayRef.current = true;
+    const src = audio.src;
+    audio.play()
+      .then(() => setIsPlaying(true))
+      .catch((error) => {
+        // 失敗した曲から次の曲に切り替えた後なら、新しい曲の再生状態はそのまま
+        if (audio.src !== src || decks[activeRef.current].audio !== audio) return;
+        console.error('Error playing BGM:', error);
+        setIsPlaying(false);
+      });
+  };
+
+  // 途中のクロスフェードを打ち切り、フェードアウト中の曲を止める
+  const cancelCrossfade = () => {
+    window.clearTimeout(fadeTimeoutRef.current);
+    fadeTimeoutRef.current = undefined;
+    crossfadingRef.current = false;
+    decks.forEach((deck, i) => {
+      if (i !== activeRef.current) deck.audio.pause();
+    });
+  };
+
+  // 環境音はマスターの音量につなぐ。AudioContext が使えない環境では再生しない
+  const startAmbient = () => {
+    const context = ensureGraph();
+    if (!context || !masterRef.current) {
+      setIsPlaying(false);
+      return;
+    }
+    if (context.state === 'suspended') {
+      context.resume();
+    }
+    ambientRef.current ??= createAmbientEngine(context, masterRef.current, latest.current.ambientMix);
+    setIsPlaying(true);
+  };
+
+  const stopAmbient = () => {
+    ambientRef.current?.stop();
+    ambientRef.current = null;
+  };
+
+  // 曲を切り替える。再生中でクロスフェードが有効なら、もう一方のデッキで重ねて切り替える
+  const switchTo = (track: BGMTrack, autoplay: boolean, fadeSeconds = 0) => {
+    const from = decks[activeRef.current];
+    const context = contextRef.current;
+    const loop = latest.current.settings.repeat === 'one';
+
+    stopAmbient();
+    cancelCrossfade();
+    wantsPlayRef.current = autoplay;
+    setCurrentTrack(track);
+    setPosition({ elapsed: 0, duration: 0 });
+
+    if (track.ambient) {
+      decks.forEach((deck) => deck.audio.pause());
+      setIsLoaded(typeof AudioContext !== 'undefined');
+      const mix = soloAmbientMix(latest.current.ambientMix, track.ambient);
+      latest.current.ambientMix = mix;
+      setAmbientMix(mix);
+      if (autoplay) {
+        startAmbient();
+      } else {
+        setIsPlaying(false);
+      }
+      return;
+    }
+
+    if (fadeSeconds > 0 && autoplay && context && from.gain && !from.audio.paused) {
+      const toIndex = 1 - activeRef.current;
+      const to = decks[toIndex];
+      const now = context.currentTime;
+
+      crossfadingRef.current = true;
+      loadTrack(to, track);
+      to.audio.loop = loop;
+      to.gain?.gain.cancelScheduledValues(now);
+      to.gain?.gain.setValueAtTime(0, now);
+      to.gain?.gain.linearRampToValueAtTime(1, now + fadeSeconds);
+      from.gain.gain.cancelScheduledValues(now);
+      from.gain.gain.setValueAtTime(from.gain.gain.value, now);
+      from.gain.gain.linearRampToValueAtTime(0, now + fadeSeconds);
+      activeRef.current = toIndex;
+      startPlayback(to.audio);
+
+      fadeTimeoutRef.current = window.setTimeout(() => {
+        fadeTimeoutRef.current = undefined;
+        from.audio.pause();
+        crossfadingRef.current = false;
+      }, fadeSeconds * 1000);
+      return;
+    }
+
+    from.gain?.gain.cancelScheduledValues(0);
+    if (from.gain) from.gain.gain.value = 1;
+    from.audio.pause();
+    loadTrack(from, track);
+    from.audio.loop = loop;
+    setIsLoaded(false);
+    from.audio.load();
+    if (autoplay) {
+      startPlayback(from.audio);
+    } else {
+      setIsPlaying(false);
+    }
+  };
+
+  const stop = () => {
+    stopAmbient();
+    cancelCrossfade();
+    wantsPlayRef.current = false;
+    const deck = decks[activeRef.current];
+    deck.audio.pause();
+    deck.audio.currentTime = 0;
+    setIsPlaying(false);
+  };
+
+  // 失敗した曲を飛ばして、step の方向にある次の曲を探す（一周しても見つからなければ null）
+  const findPlayable = (fromId: string | null, step: 1 | -1, wrap: boolean): BGMTrack | null => {
+    const { playlist, order } = latest.current;
+    let id = fromId;
+    for (let i = 0; i < order.length; i++) {
+      id = getAdjacentId(order, id, step, wrap);
+      if (id === null) return null;
+      if (!failedRef.current.has(id)) return playlist.find((track) => track.id === id) ?? null;
+    }
+    return null;
+  };
+
+  // 曲の終わりやクロスフェード開始時に、リピート設定に従って次の曲へ進む
+  const advance = (fadeSeconds: number) => {
+    const { settings, currentTrack } = latest.current;
+    const nextTrack = findPlayable(currentTrack?.id ?? null, 1, settings.repeat === 'all');
+    if (!nextTrack) {
+      stop();
+      return;
+    }
+    switchTo(nextTrack, true, fadeSeconds);
+  };
+
+  // 読み込めない曲は失敗として記録し、再生中なら次に再生できる曲へ進む（全曲失敗したら止める）
+  const skipFailed = () => {
+    const { currentTrack } = latest.current;
+    if (currentTrack) failedRef.current.add(currentTrack.id);
+    setIsLoaded(false);
+    if (!wantsPlayRef.current) {
+      setIsPlaying(false);
+      return;
+    }
+    const nextTrack = findPlayable(currentTrack?.id ?? null, 1, true);
+    if (nextTrack) {
+      switchTo(nextTrack, true);
+    } else {
+      stop();
+    }
+  };
+
+  const advanceRef = useRef(advance);
+  const skipFailedRef = useRef(skipFailed);
+  useEffect(() => {
+    advanceRef.current = advance;
+    skipFailedRef.current = skipFailed;
+  });
+
+  // 再生デッキのイベントを購読する
+  useEffect(() => {
+    const cleanups = decks.map((deck, i) => {
+      const { audio } = deck;
+      const isActive = () => activeRef.current === i;
+
+      const onTimeUpdate = () => {
+        if (!isActive()) return;
+        setPosition({ elapsed: audio.currentTime, duration: audio.duration || 0 });
+
+        const { crossfadeSeconds, repeat } = latest.current.settings;
+        const remaining = audio.duration - audio.currentTime;
+        if (
+          crossfadeSeconds > 0 &&
+          repeat !== 'one' &&
+          audio.duration > crossfadeSeconds * 2 &&
+          !crossfadingRef.current &&
+          Number.isFinite(remaining) &&
+          remaining <= crossfadeSeconds
+        ) {
+          advanceRef.current(crossfadeSeconds);
+        }
+      };
+      const onEnded = () => {
+        if (isActive() && !crossfadingRef.current) advanceRef.current(0);
+      };
+      const onCanPlay = () => {
+        if (!isActive()) return;
+        setIsLoaded(true);
+        const { currentTrack } = latest.current;
+        if (currentTrack) failedRef.current.delete(currentTrack.id);
+      };
+      const onError = () => {
+        if (!isActive()) return;
+        console.error('BGM loading error:', audio.error);
+        skipFailedRef.current();
+      };
+
+      audio.addEventListener('timeupdate', onTimeUpdate);
+      audio.addEventListener('loadedmetadata', onTimeUpdate);
+      audio.addEventListener('ended', onEnded);
+      audio.addEventListener('canplaythrough', onCanPlay);
+      audio.addEventListener('error', onError);
+      return () => {
+        audio.removeEventListener('timeupdate', onTimeUpdate);
+        audio.removeEventListener('loadedmetadata', onTimeUpdate);
+        audio.removeEventListener('ended', onEnded);
+        audio.removeEventListener('canplaythrough', onCanPlay);
+        audio.removeEventListener('error', onError);
+      };
+    });
+
+    return () => cleanups.forEach((cleanup) => cleanup());
+  }, [decks]);
+
+  // 最初の曲を読み込んでおく
+  const initialSrc = initialTrack?.filename;
+  const initialLevel = getNormalizationGain(initialTrack?.loudness);
+  useEffect(() => {
+    const deck = decks[activeRef.current];
+    if (initialSrc && !deck.audio.src) {
+      deck.audio.src = initialSrc;
+      deck.level = initialLevel;
+      deck.audio.load();
+    }
+  }, [decks, initialSrc, initialLevel]);
+
+  // アンマウント時に再生を止める
+  useEffect(() => {
+    return () => {
+      window.clearTimeout(fadeTimeoutRef.current);
+      decks.forEach((deck) => deck.audio.pause());
+      ambientRef.current?.stop();
+    };
+  }, [decks]);
+
+  useEffect(() => {
+    saveAmbientMix(ambientMix);
+    ambientRef.current?.setMix(ambientMix);
+  }, [ambientMix]);
+
+  // スライダーの値は聞こえ方に合わせた倍率にしてからかける
+  useEffect(() => {
+    if (masterRef.current) {
+      masterRef.current.gain.value = perceptualVolume(volume);
+    } else {
+      decks.forEach((deck) => {
+        deck.audio.volume = Math.min(1, perceptualVolume(volume) * (duckedRef.current ? DUCK_LEVEL : 1) * deck.level);
+      });
+    }
+  }, [decks, volume]);
+
+  // あとから音量を測った曲は、再生中でもその場で音量補正をかける
+  const currentLevel = currentTrack?.ambient ? 1 : getNormalizationGain(currentTrack?.loudness);
+  useEffect(() => {
+    const deck = decks[activeRef.current];
+    if (deck.level === currentLevel) return;
+    deck.level = currentLevel;
+    if (deck.normalize) {
+      deck.normalize.gain.value = currentLevel;
+    } else if (!masterRef.current) {
+      deck.audio.volume = Math.min(1, perceptualVolume(latest.current.volume) * (duckedRef.current ? DUCK_LEVEL : 1) * currentLevel);
+    }
+  }, [decks, currentLevel]);
+
+  useEffect(() => {
+    savePlaylistSettings(settings);
+    decks[activeRef.current].audio.loop = settings.repeat === 'one';
+  }, [decks, settings]);
+
+  const play = () => {
+    if (!currentTrack || !isLoaded) return;
+    if (currentTrack.ambient) {
+      startAmbient();
+      return;
+    }
+    startPlayback(decks[activeRef.current].audio);
+  };
+
+  const pause = () => {
+    stopAmbient();
+    cancelCrossfade();
+    wantsPlayRef.current = false;
+    decks.forEach((deck) => deck.audio.pause());
+    setIsPlaying(false);
+  };
+
+  const toggle = () => {
+    if (isPlaying) {
+      stop();
+    } else {
+      play();
+    }
+  };
+
+  const next = () => {
+    const track = findPlayable(currentTrack?.id ?? null, 1, true);
+    if (track) switchTo(track, isPlaying);
+  };
+
+  const previous = () => {
+    const audio = decks[activeRef.current].audio;
+    if (!currentTrack?.ambient && audio.currentTime > RESTART_THRESHOLD_SECONDS) {
+      audio.currentTime = 0;
+      return;
+    }
+    const track = findPlayable(currentTrack?.id ?? null, -1, true);
+    if (track) switchTo(track, isPlaying);
+  };
+
+  // アラームの間は止めずに小さくし、終わったら同じ位置から元の音量で流し続ける
+  const setDucked = (ducked: boolean) => {
+    if (duckedRef.current === ducked) return;
+    duckedRef.current = ducked;
+
+    const context = contextRef.current;
+    const duck = duckRef.current;
+    if (!context || !duck) {
+      applyElementVolumes();
+      return;
+    }
+    const now = context.currentTime;
+    duck.gain.cancelScheduledValues(now);
+    duck.gain.setValueAtTime(duck.gain.value, now);
+    duck.gain.linearRampToValueAtTime(ducked ? DUCK_LEVEL : 1, now + DUCK_FADE_SECONDS);
+  };
+
+  // 既定では再生中なら切り替えた曲をそのまま再生する
+  const select = (track: BGMTrack, autoplay = isPlaying) => {
+    switchTo(track, autoplay);
+  };
+
+  return {
+    currentTrack,
+    isPlaying,
+    isLoaded,
+    elapsed: position.elapsed,
+    duration: position.duration,
+    settings,
+    setSettings,
+    play,
+    pause,
+    stop,
+    toggle,
+    next,
+    previous,
+    select,
+    ambientMix,
+    setAmbientMix,
+    setDucked
+  };
+};
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useCountdown } from './useCountdown';
+import type { CountdownHandlers } from './useCountdown';
+import { computeTargetDate } from '../lib/timerTarget';
+import { DEFAULT_POMODORO_SETTINGS } from '../lib/pomodoro';
+import { installFakeClock } from '../test/fakeClock';
+import { createTimerInput } from '../test/timerInput';
+
+const OPTIONS = { label: '英語', alarmSoundId: 'alarm' };
+
+const renderCountdown = (active = true) => {
+  const handlers = {
+    onExpire: vi.fn<CountdownHandlers['onExpire']>(),
+    onPhaseEnd: vi.fn<CountdownHandlers['onPhaseEnd']>(),
+    onPhaseStart: vi.fn<CountdownHandlers['onPhaseStart']>()
+  };
+  const { result } = renderHook(() => useCountdown(DEFAULT_POMODORO_SETTINGS, handlers, active));
+  return { result, handlers };
+};
+
+const advance = (ms: number) => {
+  act(() => {
+    vi.advanceTimersByTime(ms);
+  });
+};
+
+describe('useCountdown', () => {
+  beforeEach(() => {
+    installFakeClock(new Date(2025, 2, 10, 23, 58, 30));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('時間指定のタイマーが終了時刻ちょうどに終了する', () => {
+    const { result, handlers } = renderCountdown();
+    const target = computeTargetDate('duration', createTimerInput({ duration: { hours: 0, minutes: 0, seconds: 10 } }), Date.now());
+
+    act(() => {
+      result.current.start({ ...OPTIONS, type: 'duration' }, target!);
+    });
+    advance(9999);
+    expect(handlers.onExpire).not.toHaveBeenCalled();
+    expect(result.current.timers[0].state.status).toBe('running');
+
+    advance(1);
+    expect(handlers.onExpire).toHaveBeenCalledTimes(1);
+    expect(handlers.onExpire.mock.calls[0][0].label).toBe('英語');
+    expect(result.current.timers[0].state).toEqual({ status: 'finished', finishedAt: Date.now() });
+  });
+
+  it('時刻指定で深夜0時をまたぐタイマーは翌日の時刻に終了する', () => {
+    const { result, handlers } = renderCountdown();
+    const target = computeTargetDate('time', createTimerInput({ targetTime: '00:01' }), Date.now());
+
+    act(() => {
+      result.current.start({ ...OPTIONS, type: 'time' }, target!);
+    });
+    expect(result.current.timers[0].totalMs).toBe(150 * 1000);
+
+    advance(90 * 1000);
+    expect(new Date().getDate()).toBe(11);
+    expect(handlers.onExpire).not.toHaveBeenCalled();
+
+    advance(60 * 1000);
+    expect(handlers.onExpire).toHaveBeenCalledTimes(1);
+    expect(new Date()).toEqual(new Date(2025, 2, 11, 0, 1));
+  });
+
+  it('一時停止中は終了しない', () => {
+    const { result, handlers } = renderCountdown();
+    const target = computeTargetDate('duration', createTimerInput({ duration: { hours: 0, minutes: 1, seconds: 0 } }), Date.now());
+
+    act(() => {
+      result.current.start({ ...OPTIONS, type: 'duration' }, target!);
+    });
+    advance(30 * 1000);
+    act(() => {
+      result.current.update(result.current.timers[0].id, { type: 'pause', now: Date.now() });
+    });
+    advance(60 * 1000);
+    expect(handlers.onExpire).not.toHaveBeenCalled();
+
+    act(() => {
+      result.current.update(result.current.timers[0].id, { type: 'resume', now: Date.now() });
+    });
+    advance(30 * 1000);
+    expect(handlers.onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it('ポモドーロは終了せずに次のフェーズへ進む', () => {
+    const { result, handlers } = renderCountdown();
+    const target = computeTargetDate('pomodoro', createTimerInput(), Date.now());
+
+    act(() => {
+      result.current.start({ ...OPTIONS, type: 'pomodoro' }, target!);
+    });
+    expect(handlers.onPhaseStart).toHaveBeenLastCalledWith('focus');
+
+    advance(25 * 60 * 1000);
+    expect(handlers.onPhaseEnd).toHaveBeenCalledTimes(1);
+    expect(handlers.onPhaseEnd.mock.calls[0][1]).toEqual({ phase: 'focus', completedFocus: 0 });
+    expect(handlers.onPhaseStart).toHaveBeenLastCalledWith('shortBreak');
+    expect(handlers.onExpire).not.toHaveBeenCalled();
+    expect(result.current.timers[0].state).toMatchObject({
+      status: 'running',
+      pomodoro: { phase: 'shortBreak', completedFocus: 1 }
+    });
+  });
+
+  it('担当でないタブでは終了時刻になっても終了させない', () => {
+    const { result, handlers } = renderCountdown(false);
+    const target = computeTargetDate('duration', createTimerInput({ duration: { hours: 0, minutes: 0, seconds: 10 } }), Date.now());
+
+    act(() => {
+      result.current.start({ ...OPTIONS, type: 'duration' }, target!);
+    });
+    advance(20 * 1000);
+    expect(handlers.onExpire).not.toHaveBeenCalled();
+    expect(result.current.timers[0].state.status).toBe('running');
+  });
+
+  it('他の端末で先に終了したタイマーが届いたらアラームを鳴らす', () => {
+    const { result, handlers } = renderCountdown();
+    const target = computeTargetDate('duration', createTimerInput({ duration: { hours: 0, minutes: 0, seconds: 10 } }), Date.now());
+
+    act(() => {
+      result.current.start({ ...OPTIONS, type: 'duration' }, target!);
+    });
+    const timer = result.current.timers[0];
+    const finished = { ...timer, state: { status: 'finished' as const, finishedAt: Date.now() } };
+    act(() => {
+      result.current.applyRemote([finished]);
+    });
+    expect(handlers.onExpire).toHaveBeenCalledWith(timer);
+    expect(result.current.timers).toEqual([finished]);
+
+    // 同じ一覧がもう一度届いても鳴らし直さない
+    act(() => {
+      result.current.applyRemote([finished]);
+    });
+    advance(20 * 1000);
+    expect(handlers.onExpire).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,151 @@
+import { useEffect, useReducer, useRef } from 'react';
+import type { TimerType } from '../types';
+import { restoreTimers, saveTimers, timersReducer } from '../lib/timers';
+import type { NamedTimer } from '../lib/timers';
+import type { TimerAction } from '../lib/timerState';
+import type { TimerTarget } from '../lib/timerTarget';
+import { getPhaseDurationMs, nextPomodoroPhase } from '../lib/pomodoro';
+import type { PomodoroPhase, PomodoroProgress, PomodoroSettings } from '../lib/pomodoro';
+import { now } from '../lib/clock';
+import { schedule } from '../lib/scheduler';
+import { useTicker } from './useTicker';
+
+export interface CountdownHandlers {
+  // 通常のタイマーが終了したとき
+  onExpire: (timer: NamedTimer) => void;
+  // ポモドーロのフェーズが終わったとき。スリープなどで複数のフェーズをまたいだ場合はフェーズごとに呼ぶ
+  onPhaseEnd: (timer: NamedTimer, progress: PomodoroProgress, endedAt: number) => void;
+  // ポモドーロの新しいフェーズが始まったとき（開始時を含む）
+  onPhaseStart: (phase: PomodoroPhase) => void;
+  // 閉じている間に終了していたタイマー（最初の描画のあとに1回だけ呼ぶ）
+  onMissed?: (timer: NamedTimer) => void;
+}
+
+export interface CountdownOptions {
+  label: string;
+  type: TimerType;
+  alarmSoundId: string;
+  recurringId?: string;
+}
+
+// 同じミリ秒に続けて作ってもIDが重ならないようにする
+let lastTimerId = 0;
+const createTimerId = (): string => {
+  lastTimerId = Math.max(Date.now(), lastTimerId + 1);
+  return lastTimerId.toString();
+};
+
+// 名前付きタイマーの一覧を保持し、終了時刻になったらハンドラーを呼ぶ。
+// active でないとき（他のタブが担当しているとき）は終了時刻を監視しない
+export const useCountdown = (pomodoroSettings: PomodoroSettings, handlers: CountdownHandlers, active = true) => {
+  // 閉じている間に終了していたタイマー。描画中に呼び出し側の状態を変えないよう、描画のあとで伝える
+  const missedRef = useRef<NamedTimer[]>([]);
+  const [timers, dispatch] = useReducer(timersReducer, [], () => {
+    missedRef.current = [];
+    return restoreTimers(now(), (timer) => missedRef.current.push(timer));
+  });
+  const currentTime = useTicker(
+    timers.flatMap((timer) => (timer.state.status === 'running' ? [timer.state.endTime] : []))
+  );
+
+  // 予約し直さずに最新のハンドラーを呼べるようにする
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    missedRef.current.forEach((timer) => handlersRef.current.onMissed?.(timer));
+    missedRef.current = [];
+  }, []);
+
+  // 再読み込みやクラッシュ後に復元できるよう、タイマーを常に保存しておく
+  useEffect(() => {
+    saveTimers(timers);
+  }, [timers]);
+
+  // 終了時刻をワーカーで監視する（バックグラウンドタブやスリープ明けでも遅れない）
+  useEffect(() => {
+    if (!active) return;
+
+    const cancels = timers.map((timer) => {
+      const { id, state } = timer;
+      if (state.status !== 'running') return () => {};
+
+      return schedule(state.endTime, () => {
+        const { onExpire, onPhaseEnd, onPhaseStart } = handlersRef.current;
+        if (state.pomodoro) {
+          // ポモドーロは終了せずに次のフェーズへ進む。
+          // スリープなどで複数のフェーズをまたいだ場合は現在のフェーズまで進める
+          let current = state.pomodoro;
+          let endTime = state.endTime;
+          do {
+            onPhaseEnd(timer, current, endTime);
+            current = nextPomodoroPhase(pomodoroSettings, current);
+            endTime += getPhaseDurationMs(pomodoroSettings, current.phase);
+          } while (endTime <= now());
+          dispatch({ type: 'update', id, action: { type: 'advance', endTime, pomodoro: current } });
+          onPhaseStart(current.phase);
+        } else {
+          onExpire(timer);
+          dispatch({ type: 'update', id, action: { type: 'finish' } });
+        }
+      });
+    });
+
+    return () => cancels.forEach((cancel) => cancel());
+  }, [timers, pomodoroSettings, active]);
+
+  const start = (options: CountdownOptions, { endTime, target, pomodoro }: TimerTarget): NamedTimer => {
+    const startedAt = now();
+    const timer: NamedTimer = {
+      id: createTimerId(),
+      startedAt,
+      ...options,
+      target,
+      totalMs: endTime - startedAt,
+      state: { status: 'running', endTime, pomodoro }
+    };
+    dispatch({ type: 'add', timer });
+    if (pomodoro) {
+      handlersRef.current.onPhaseStart(pomodoro.phase);
+    }
+    return timer;
+  };
+
+  const update = (id: string, action: TimerAction) => {
+    dispatch({ type: 'update', id, action });
+  };
+
+  // 同じタイマーをスヌーズの長さでもう一度動かす
+  const snooze = (id: string, durationMs: number) => {
+    dispatch({ type: 'snooze', id, now: now(), durationMs });
+  };
+
+  // 他のタブ・端末から届いた一覧に置き換える。担当しているときは、
+  // こちらでまだ終了していなかったタイマーのアラームやフェーズの切り替えもここで行う
+  const applyRemote = (incoming: NamedTimer[]) => {
+    if (active) {
+      const { onExpire, onPhaseEnd, onPhaseStart } = handlersRef.current;
+      incoming.forEach((timer) => {
+        const local = timers.find((t) => t.id === timer.id);
+        if (local?.state.status !== 'running') return;
+        const { pomodoro } = local.state;
+        if (timer.state.status === 'finished') {
+          onExpire(local);
+        } else if (
+          pomodoro &&
+          timer.state.status === 'running' &&
+          timer.state.pomodoro &&
+          timer.state.pomodoro.phase !== pomodoro.phase
+        ) {
+          onPhaseEnd(local, pomodoro, local.state.endTime);
+          onPhaseStart(timer.state.pomodoro.phase);
+        }
+      });
+    }
+    dispatch({ type: 'replace', timers: incoming });
+  };
+
+  return { timers, currentTime, start, update, snooze, applyRemote };
+};
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { formatDate, formatTime, getLocale, setLocale, subscribeLocale, t } from '../lib/i18n';
+
+// 言語が切り替わったときに再描画されるよう、翻訳を使うコンポーネントで呼ぶ
+export const useI18n = () => {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return { locale, setLocale, t, formatTime, formatDate };
+};
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import { matchShortcut } from '../lib/shortcuts';
+import type { ShortcutId } from '../lib/shortcuts';
+
+// ページ全体のキー操作をショートカットに割り当てる
+export const useKeyboardShortcuts = (handlers: Record<ShortcutId, () => void>, enabled = true): void => {
+  // 登録し直さずに最新のハンドラーを呼べるようにする
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // 押しっぱなしで開始と一時停止を繰り返さないようにする
+      if (event.defaultPrevented || (event.repeat && event.key === ' ')) return;
+      const id = matchShortcut(event);
+      if (!id) return;
+      event.preventDefault();
+      handlersRef.current[id]();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
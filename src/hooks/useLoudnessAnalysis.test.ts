@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useLoudnessAnalysis } from './useLoudnessAnalysis';
+import { BUILT_IN_TRACKS } from '../lib/builtInTracks';
+import type { BGMTrack } from '../types';
+
+// 1秒分の一定の音（振幅0.1）にデコードされたことにする
+class FakeOfflineAudioContext {
+  sampleRate: number;
+  constructor(_channels: number, _length: number, sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
+  decodeAudioData() {
+    const data = new Float32Array(this.sampleRate).fill(0.1);
+    return Promise.resolve({ numberOfChannels: 1, sampleRate: this.sampleRate, getChannelData: () => data });
+  }
+}
+
+describe('useLoudnessAnalysis', () => {
+  const fetchMock = vi.fn(() => Promise.resolve(new Response(new ArrayBuffer(8))));
+
+  beforeEach(() => {
+    fetchMock.mockClear();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('OfflineAudioContext', FakeOfflineAudioContext);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('音量を測っていない曲を読み込んで測る', async () => {
+    const onAnalyzed = vi.fn();
+    renderHook(() => useLoudnessAnalysis(BUILT_IN_TRACKS[0], onAnalyzed));
+
+    await waitFor(() => expect(onAnalyzed).toHaveBeenCalledTimes(1));
+    expect(fetchMock).toHaveBeenCalledWith(BUILT_IN_TRACKS[0].filename);
+    expect(onAnalyzed).toHaveBeenCalledWith(BUILT_IN_TRACKS[0].id, {
+      integratedDb: expect.closeTo(-20, 5),
+      peak: expect.closeTo(0.1, 5)
+    });
+  });
+
+  it('測った曲と環境音は読み込まない', () => {
+    const measured: BGMTrack = { ...BUILT_IN_TRACKS[0], loudness: { integratedDb: -18, peak: 0.5 } };
+    const { rerender } = renderHook(({ track }) => useLoudnessAnalysis(track, vi.fn()), {
+      initialProps: { track: measured }
+    });
+    rerender({ track: { ...BUILT_IN_TRACKS[0], id: 'ambient-rain', ambient: 'rain' } });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
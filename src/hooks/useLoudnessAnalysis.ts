@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+import type { BGMTrack } from '../types';
+import { analyzeLoudness } from '../lib/loudness';
+import type { TrackLoudness } from '../lib/loudness';
+
+// 音量を測っていない曲（同梱曲や、音量の解析を入れる前にアップロードした曲）を
+// 初めて選ばれたときに読み込んで測る。結果は onAnalyzed で保存してもらう
+export const useLoudnessAnalysis = (
+  track: BGMTrack | null,
+  onAnalyzed: (id: string, loudness: TrackLoudness) => void
+): void => {
+  const onAnalyzedRef = useRef(onAnalyzed);
+  useEffect(() => {
+    onAnalyzedRef.current = onAnalyzed;
+  });
+  // 失敗した曲を何度も読み込まないよう、一度試した曲は覚えておく
+  const attemptedRef = useRef(new Set<string>());
+
+  const id = track && !track.ambient && !track.loudness ? track.id : null;
+  const src = track?.filename;
+
+  useEffect(() => {
+    if (!id || !src || attemptedRef.current.has(id)) return;
+    attemptedRef.current.add(id);
+
+    fetch(src)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .then(analyzeLoudness)
+      .then((loudness) => {
+        if (loudness) onAnalyzedRef.current(id, loudness);
+      })
+      .catch((error) => {
+        console.error('Error analyzing track loudness:', error);
+      });
+  }, [id, src]);
+};
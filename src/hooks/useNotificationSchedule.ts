@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import type { NamedTimer } from '../lib/timers';
+import { getScheduledNotifications } from '../lib/notifications';
+import { scheduleNotifications } from '../lib/serviceWorker';
+import type { ScheduledNotification } from '../workers/serviceWorkerMessages';
+import { schedule } from '../lib/scheduler';
+import { now } from '../lib/clock';
+import { t } from '../lib/i18n';
+
+// ページが前面にない間に予約を送り直す間隔。止められたサービスワーカーを起こして予約し直させる
+const RESEND_MS = 20 * 1000;
+
+// 実行中のタイマーの終了時刻をサービスワーカーに伝え、バックグラウンドでも通知を出せるようにする。
+// ブラウザはサービスワーカーを数分で止めるので、前面にない間はワーカーのタイマーで定期的に送り直す
+export const useNotificationSchedule = (timers: NamedTimer[], enabled: boolean): void => {
+  const notifications = enabled ? getScheduledNotifications(timers, t('notifications.finishedTitle')) : [];
+  // 描画ごとに作り直される配列を値で比較する
+  const notificationsKey = JSON.stringify(notifications);
+
+  useEffect(() => {
+    const list: ScheduledNotification[] = JSON.parse(notificationsKey);
+    let cancel = () => {};
+
+    const send = () => {
+      cancel();
+      scheduleNotifications(list);
+      if (document.visibilityState === 'hidden' && list.length > 0) {
+        cancel = schedule(now() + RESEND_MS, send);
+      }
+    };
+
+    send();
+    document.addEventListener('visibilitychange', send);
+    return () => {
+      cancel();
+      document.removeEventListener('visibilitychange', send);
+    };
+  }, [notificationsKey]);
+};
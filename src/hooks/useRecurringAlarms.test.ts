@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useCountdown } from './useCountdown';
+import type { CountdownHandlers } from './useCountdown';
+import { useRecurringAlarms } from './useRecurringAlarms';
+import type { RecurringAlarm } from '../lib/recurrence';
+import { DEFAULT_POMODORO_SETTINGS } from '../lib/pomodoro';
+import { installFakeClock } from '../test/fakeClock';
+
+const alarm: RecurringAlarm = {
+  id: 'math',
+  label: '数学の授業',
+  time: '18:00',
+  rule: { type: 'weekly', weekdays: [1] },
+  skipDates: [],
+  alarmSoundId: 'alarm',
+  enabled: true
+};
+
+const renderAlarms = (alarms: RecurringAlarm[]) => {
+  const onExpire = vi.fn<CountdownHandlers['onExpire']>();
+  const { result, rerender } = renderHook(({ list }) => {
+    const countdown = useCountdown(DEFAULT_POMODORO_SETTINGS, { onExpire, onPhaseEnd: vi.fn(), onPhaseStart: vi.fn() });
+    useRecurringAlarms(list, countdown.timers, countdown.start);
+    return countdown;
+  }, { initialProps: { list: alarms } });
+  return { result, rerender, onExpire };
+};
+
+describe('useRecurringAlarms', () => {
+  beforeEach(() => {
+    // 2025-03-10 は月曜日
+    installFakeClock(new Date(2025, 2, 10, 17, 59, 50));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('次の回を時刻指定のタイマーとして予約する', () => {
+    const { result } = renderAlarms([alarm]);
+    expect(result.current.timers).toHaveLength(1);
+    expect(result.current.timers[0]).toMatchObject({
+      label: '数学の授業',
+      type: 'time',
+      target: '18:00',
+      recurringId: 'math',
+      state: { status: 'running', endTime: new Date(2025, 2, 10, 18).getTime() }
+    });
+  });
+
+  it('鳴ったらすぐに次の週の回を予約する', () => {
+    const { result, onExpire } = renderAlarms([alarm]);
+    act(() => {
+      vi.advanceTimersByTime(10 * 1000);
+    });
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(result.current.timers.map((timer) => timer.state)).toEqual([
+      { status: 'finished', finishedAt: new Date(2025, 2, 10, 18).getTime() },
+      { status: 'running', endTime: new Date(2025, 2, 17, 18).getTime() }
+    ]);
+  });
+
+  it('無効なアラームは予約しない', () => {
+    const { result } = renderAlarms([{ ...alarm, enabled: false }]);
+    expect(result.current.timers).toEqual([]);
+  });
+
+  it('複数のアラームを同時に予約してもIDが重ならない', () => {
+    const { result } = renderAlarms([alarm, { ...alarm, id: 'english', time: '19:00' }]);
+    const ids = result.current.timers.map((timer) => timer.id);
+    expect(ids).toHaveLength(2);
+    expect(new Set(ids).size).toBe(2);
+  });
+});
@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import type { NamedTimer } from '../lib/timers';
+import { getNextOccurrence } from '../lib/recurrence';
+import type { RecurringAlarm } from '../lib/recurrence';
+import type { TimerTarget } from '../lib/timerTarget';
+import type { CountdownOptions } from './useCountdown';
+import { now } from '../lib/clock';
+import { t } from '../lib/i18n';
+
+// 次に鳴らす1回分がまだ動いているか（鳴り終わったもの・スヌーズ中のものは数えない）
+const isPending = (timer: NamedTimer, id: string): boolean =>
+  timer.recurringId === id &&
+  !timer.snoozed &&
+  (timer.state.status === 'running' || timer.state.status === 'paused');
+
+// 有効な繰り返しアラームごとに、次の1回分を時刻指定のタイマーとして動かしておく。
+// 鳴ったらすぐに次の回を予約する。予約するのは担当のタブ（active）だけ
+export const useRecurringAlarms = (
+  alarms: RecurringAlarm[],
+  timers: NamedTimer[],
+  start: (options: CountdownOptions, target: TimerTarget) => NamedTimer,
+  active = true
+): void => {
+  const startRef = useRef(start);
+  useEffect(() => {
+    startRef.current = start;
+  });
+
+  useEffect(() => {
+    if (!active) return;
+    const at = now();
+    alarms.forEach((alarm) => {
+      if (!alarm.enabled || timers.some((timer) => isPending(timer, alarm.id))) return;
+      const endTime = getNextOccurrence(alarm, at);
+      if (endTime === null) return;
+      startRef.current(
+        { label: alarm.label || t('recurring.title'), type: 'time', alarmSoundId: alarm.alarmSoundId, recurringId: alarm.id },
+        { endTime, target: alarm.time }
+      );
+    });
+  }, [alarms, timers, active]);
+};
@@ -0,0 +1,129 @@
+import { useEffect, useRef, useState } from 'react';
+import type { NamedTimer } from '../lib/timers';
+import { buildRoomUrl, getSharedTimers, mergeRoomTimers, shiftTimers } from '../lib/studyRoom';
+import type { RoomMessage, StudyRoomSettings } from '../lib/studyRoom';
+import { createEchoGuard } from '../lib/timerSync';
+import { now } from '../lib/clock';
+
+export type StudyRoomStatus = 'off' | 'connecting' | 'connected' | 'reconnecting';
+
+// 接続が切れてからつなぎ直すまでの時間
+const RECONNECT_DELAY_MS = 3000;
+
+// 中継サーバーの時計に合わせて送る
+const sendTimers = (socket: WebSocket, timers: NamedTimer[], offsetMs: number) => {
+  socket.send(JSON.stringify({ type: 'timers', timers: shiftTimers(timers, offsetMs) }));
+};
+
+// 学習ルームに参加し、中継サーバーを通して他の端末とタイマー一覧を共有する（繰り返しアラームのタイマーは除く）。
+// 届いた一覧はタイマーごとにこの端末の一覧と合わせる。
+// 接続するのは担当のタブだけ（他のタブにはタブ間の同期で伝わる）。切れたら少し待ってつなぎ直す
+export const useStudyRoom = (
+  timers: NamedTimer[],
+  applyRemote: (timers: NamedTimer[]) => void,
+  settings: StudyRoomSettings,
+  active: boolean
+): { status: StudyRoomStatus; members: number } => {
+  const [status, setStatus] = useState<StudyRoomStatus>('connecting');
+  const [members, setMembers] = useState(0);
+  // ルームの一覧を受け取ってから送れるようにする（それまでは null）
+  const socketRef = useRef<WebSocket | null>(null);
+  // 中継サーバーの時計とこの端末の時計の差
+  const offsetRef = useRef(0);
+  const [guard] = useState(() => createEchoGuard(getSharedTimers(timers)));
+  const timersRef = useRef(timers);
+  // 最後にルームとやり取りした一覧（届いた一覧を合わせるときの基準）
+  const sharedRef = useRef<NamedTimer[]>([]);
+  const applyRef = useRef(applyRemote);
+  useEffect(() => {
+    applyRef.current = applyRemote;
+  });
+
+  const url = settings.enabled && active && settings.room.trim()
+    ? buildRoomUrl(settings.relayUrl, settings.room)
+    : null;
+
+  useEffect(() => {
+    if (!url) return;
+
+    let socket: WebSocket | null = null;
+    let retryId: number | undefined;
+    let closed = false;
+    sharedRef.current = [];
+
+    const receive = (list: NamedTimer[]) => {
+      const incoming = getSharedTimers(shiftTimers(list, -offsetRef.current));
+      const merged = mergeRoomTimers(timersRef.current, incoming, sharedRef.current);
+      sharedRef.current = incoming;
+      // 合わせた結果が届いた一覧と違えば、下の送信で合わせた一覧をルームに送り返す
+      guard.received(incoming);
+      applyRef.current(merged);
+    };
+
+    const connect = () => {
+      const current = new WebSocket(url);
+      socket = current;
+      current.onmessage = (event: MessageEvent<string>) => {
+        let message: RoomMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch (error) {
+          console.error('Error reading study room message:', error);
+          return;
+        }
+
+        switch (message.type) {
+          case 'welcome':
+            offsetRef.current = message.serverTime - now();
+            socketRef.current = current;
+            setStatus('connected');
+            setMembers(message.members);
+            // ルームに一覧があればこの端末の一覧と合わせ、なければこの端末の一覧を共有する
+            if (message.timers) {
+              receive(message.timers);
+            } else {
+              const shared = getSharedTimers(timersRef.current);
+              sharedRef.current = shared;
+              guard.received(shared);
+              sendTimers(current, shared, offsetRef.current);
+            }
+            break;
+          case 'timers':
+            receive(message.timers);
+            break;
+          case 'members':
+            setMembers(message.members);
+            break;
+        }
+      };
+      current.onclose = () => {
+        socketRef.current = null;
+        if (closed) return;
+        setStatus('reconnecting');
+        retryId = window.setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    setStatus('connecting');
+    connect();
+
+    return () => {
+      closed = true;
+      window.clearTimeout(retryId);
+      socketRef.current = null;
+      socket?.close();
+    };
+  }, [url, guard]);
+
+  useEffect(() => {
+    timersRef.current = timers;
+    const socket = socketRef.current;
+    const shared = getSharedTimers(timers);
+    if (guard.changed(shared) && socket) {
+      sharedRef.current = shared;
+      sendTimers(socket, shared, offsetRef.current);
+    }
+  }, [guard, timers]);
+
+  return url ? { status, members } : { status: 'off', members: 0 };
+};
@@ -0,0 +1,12 @@
+import { useEffect, useState } from 'react';
+import { requestLeadership } from '../lib/timerSync';
+
+// このタブがアラーム・通知・フェーズの切り替えを担当しているか。
+// 担当のタブが閉じると残りのタブの1つが引き継ぐ
+export const useTabLeader = (): boolean => {
+  const [isLeader, setIsLeader] = useState(() => !('locks' in navigator));
+
+  useEffect(() => requestLeadership(() => setIsLeader(true)), []);
+
+  return isLeader;
+};
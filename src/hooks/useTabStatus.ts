@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { formatRemaining, getRemainingMs } from '../lib/timerState';
+import { getTimerProgress, sortByNextExpiry } from '../lib/timers';
+import type { NamedTimer } from '../lib/timers';
+import type { PomodoroSettings } from '../lib/pomodoro';
+import { resetFavicon, setProgressFavicon } from '../lib/favicon';
+import { t } from '../lib/i18n';
+
+// ファビコンは描き直しが目立たない程度の段階で更新する
+const FAVICON_STEPS = 60;
+
+// 他のタブからでも残り時間がわかるように、タイトルとファビコンに次に終了するタイマーを表示する
+export const useTabStatus = (
+  timers: NamedTimer[],
+  pomodoroSettings: PomodoroSettings,
+  now: number
+): void => {
+  const [next] = sortByNextExpiry(timers);
+  const remaining = next ? getRemainingMs(next.state, now) : null;
+  const progress = next ? getTimerProgress(next, pomodoroSettings, now) : null;
+  const status = next?.state.status;
+
+  const appTitle = t('app.title');
+  let title = appTitle;
+  if (next && status === 'finished') {
+    title = t('tab.finished', { label: next.label });
+  } else if (next && remaining !== null && status !== 'missed') {
+    title = `${status === 'paused' ? '⏸' : '⏱'} ${formatRemaining(remaining)} ${next.label} - ${appTitle}`;
+  }
+
+  useEffect(() => {
+    document.title = title;
+  }, [title]);
+
+  const step = progress === null ? null : Math.round(progress * FAVICON_STEPS);
+  const color = status === 'finished' ? '#dc2626' : status === 'paused' ? '#9ca3af' : '#2563eb';
+
+  useEffect(() => {
+    if (step === null || status === 'missed') {
+      resetFavicon();
+    } else {
+      setProgressFavicon(step / FAVICON_STEPS, color);
+    }
+  }, [step, color, status]);
+};
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useState } from 'react';
+import { useTabSync } from './useTabSync';
+import type { NamedTimer } from '../lib/timers';
+
+const timer = (id: string): NamedTimer => ({
+  id,
+  label: id,
+  type: 'duration',
+  target: '00:10:00',
+  alarmSoundId: 'bell',
+  startedAt: 0,
+  totalMs: 10 * 60 * 1000,
+  state: { status: 'running', endTime: 10 * 60 * 1000 }
+});
+
+// タブ1つ分。届いた一覧はそのまま置き換え、置き換えた回数を数える
+const openTab = (initial: NamedTimer[]) => {
+  let applied = 0;
+  const hook = renderHook(() => {
+    const [timers, setTimers] = useState(initial);
+    useTabSync(timers, (incoming) => {
+      applied++;
+      setTimers(incoming);
+    });
+    return { timers, setTimers };
+  });
+  return { ...hook, applied: () => applied };
+};
+
+describe('useTabSync', () => {
+  const tabs: ReturnType<typeof openTab>[] = [];
+  const open = (initial: NamedTimer[]) => {
+    const tab = openTab(initial);
+    tabs.push(tab);
+    return tab;
+  };
+
+  afterEach(() => {
+    tabs.splice(0).forEach((tab) => tab.unmount());
+  });
+
+  it('あとから開いたタブは先に開いていたタブの一覧に合わせる', async () => {
+    const first = open([timer('a')]);
+    const second = open([]);
+
+    await waitFor(() => expect(second.result.current.timers).toEqual([timer('a')]));
+    expect(first.result.current.timers).toEqual([timer('a')]);
+  });
+
+  it('どちらのタブで変えても相手に伝わり、送り返しはしない', async () => {
+    const first = open([]);
+    const second = open([]);
+    await waitFor(() => expect(second.applied()).toBeGreaterThan(0));
+    const appliedToFirst = first.applied();
+
+    act(() => {
+      second.result.current.setTimers([timer('b')]);
+    });
+    await waitFor(() => expect(first.result.current.timers).toEqual([timer('b')]));
+
+    act(() => {
+      first.result.current.setTimers([]);
+    });
+    await waitFor(() => expect(second.result.current.timers).toEqual([]));
+    // 受け取った一覧はもう一度流れてこない
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(first.applied()).toBe(appliedToFirst + 1);
+  });
+});
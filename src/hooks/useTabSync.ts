@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from 'react';
+import type { NamedTimer } from '../lib/timers';
+import { TAB_CHANNEL_NAME, createEchoGuard, isTabSyncSupported } from '../lib/timerSync';
+import type { TabMessage } from '../lib/timerSync';
+
+const post = (channel: BroadcastChannel | null, message: TabMessage) => channel?.postMessage(message);
+
+// 同じブラウザで開いている他のタブとタイマー一覧を共有する。
+// どのタブで操作しても全タブの一覧が同じになり、終了時刻の監視は担当のタブだけが行う
+export const useTabSync = (timers: NamedTimer[], applyRemote: (timers: NamedTimer[]) => void): void => {
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  // 開いた時点の一覧は送らない（他のタブの一覧を優先する）
+  const [guard] = useState(() => createEchoGuard(timers));
+  const timersRef = useRef(timers);
+  const applyRef = useRef(applyRemote);
+  useEffect(() => {
+    applyRef.current = applyRemote;
+  });
+
+  useEffect(() => {
+    if (!isTabSyncSupported()) return;
+
+    const channel = new BroadcastChannel(TAB_CHANNEL_NAME);
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent<TabMessage>) => {
+      const message = event.data;
+      if (message.type === 'request') {
+        post(channel, { type: 'timers', timers: timersRef.current });
+        return;
+      }
+      guard.received(message.timers);
+      applyRef.current(message.timers);
+    };
+    post(channel, { type: 'request' });
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [guard]);
+
+  useEffect(() => {
+    timersRef.current = timers;
+    if (guard.changed(timers)) {
+      post(channelRef.current, { type: 'timers', timers });
+    }
+  }, [guard, timers]);
+};
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { now } from '../lib/clock';
+import { schedule } from '../lib/scheduler';
+
+// 時計の秒、または各カウントダウンの秒が切り替わる瞬間に合わせて現在時刻を更新する
+export const useTicker = (deadlines: number[]): number => {
+  const [tick, setTick] = useState(now);
+  // 配列は描画ごとに作り直されるので、値で比較できるようにする
+  const deadlinesKey = deadlines.join(',');
+
+  useEffect(() => {
+    const targets = deadlinesKey ? deadlinesKey.split(',').map(Number) : [];
+    let cancel = () => {};
+
+    const update = () => {
+      const t = now();
+      setTick(t);
+
+      let delay = 1000 - (t % 1000);
+      targets.forEach((deadline) => {
+        const untilNextSecond = (deadline - t) % 1000;
+        if (deadline > t && untilNextSecond > 0) {
+          delay = Math.min(delay, untilNextSecond);
+        }
+      });
+      cancel = schedule(t + delay + 1, update);
+    };
+
+    update();
+    return () => cancel();
+  }, [deadlinesKey]);
+
+  return tick;
+};
@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from 'react';
+import type { BGMTrack } from '../types';
+import { deleteTrackAudio, loadTracks, saveTrackMetadata } from '../lib/trackStore';
+
+export interface TrackRepository {
+  tracks: BGMTrack[];
+  // 保存済みの曲を読み込み終えてから追加する。保存に失敗したときは reject し、一覧は変更しない
+  add: (track: BGMTrack) => Promise<void>;
+  update: (id: string, patch: Partial<Omit<BGMTrack, 'id'>>) => void;
+  remove: (id: string) => void;
+  replace: (tracks: BGMTrack[]) => void;
+}
+
+// アップロードした曲の一覧を保持し、変更のたびに保存する
+export const useTrackRepository = (): TrackRepository => {
+  const [tracks, setTracks] = useState<BGMTrack[]>([]);
+  // 連続したアップロードでも直前の変更を含む一覧に追加できるよう、最新の一覧を持っておく
+  const tracksRef = useRef(tracks);
+  // 最初の読み込み。終わる前に追加すると、読み込んだ一覧で追加した曲が消えてしまう
+  const loadingRef = useRef<Promise<void>>(Promise.resolve());
+
+  const commit = (updated: BGMTrack[]) => {
+    saveTrackMetadata(updated);
+    tracksRef.current = updated;
+    setTracks(updated);
+  };
+
+  // IndexedDBに保存した曲を読み込む
+  useEffect(() => {
+    let mounted = true;
+
+    loadingRef.current = loadTracks()
+      .then((loaded) => {
+        if (mounted) {
+          tracksRef.current = loaded;
+          setTracks(loaded);
+        } else {
+          loaded.forEach((track) => URL.revokeObjectURL(track.filename));
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading tracks:', error);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const add = async (track: BGMTrack) => {
+    await loadingRef.current;
+    commit([...tracksRef.current, track]);
+  };
+
+  const update = (id: string, patch: Partial<Omit<BGMTrack, 'id'>>) => {
+    commit(tracksRef.current.map((track) => (track.id === id ? { ...track, ...patch } : track)));
+  };
+
+  const remove = (id: string) => {
+    const track = tracksRef.current.find((item) => item.id === id);
+    if (!track) return;
+    commit(tracksRef.current.filter((item) => item.id !== id));
+    if (track.filename.startsWith('blob:')) {
+      URL.revokeObjectURL(track.filename);
+    }
+    deleteTrackAudio(id).catch((error) => {
+      console.error('Error deleting track audio:', error);
+    });
+  };
+
+  return { tracks, add, update, remove, replace: commit };
+};
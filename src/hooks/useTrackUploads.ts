@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from 'react';
+import type { BGMTrack } from '../types';
+import { StorageQuotaError, TrackMetadataError, deleteTrackAudio, saveTrackAudio } from '../lib/trackStore';
+import { UploadValidationError, checkFileSize, validateAudioFile } from '../lib/audioValidation';
+import { readTrackInfo } from '../lib/trackInfo';
+import { measureAudioBuffer } from '../lib/loudness';
+import type { MessageKey } from '../lib/i18n';
+import type { TrackRepository } from './useTrackRepository';
+
+export type UploadStatus = 'waiting' | 'reading' | 'checking' | 'saving' | 'done' | 'error';
+
+export interface UploadItem {
+  id: string;
+  name: string;
+  status: UploadStatus;
+  // 0〜1
+  progress: number;
+  // 表示する言語を後から切り替えられるよう、メッセージのキーを持つ
+  error?: MessageKey;
+}
+
+const getErrorKey = (error: unknown): MessageKey => {
+  if (error instanceof UploadValidationError) return `upload.${error.reason}`;
+  if (error instanceof StorageQuotaError) return 'upload.quota';
+  if (error instanceof TrackMetadataError) return 'upload.metadataUnreadable';
+  console.error('Upload error:', error);
+  return 'upload.failed';
+};
+
+const readFile = (file: File, onProgress: (progress: number) => void): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded / event.total);
+    };
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+
+// 複数ファイルを1つずつ検証・保存する。onAdded は1回の追加で最初に保存できた曲について呼ぶ
+export const useTrackUploads = (
+  repository: TrackRepository,
+  onAdded: (track: BGMTrack) => void
+) => {
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const latest = useRef({ repository, onAdded });
+  useEffect(() => {
+    latest.current = { repository, onAdded };
+  });
+
+  const updateItem = (id: string, patch: Partial<UploadItem>) => {
+    setUploads((items) => items.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const processFile = async (id: string, file: File): Promise<BGMTrack | null> => {
+    let audioSaved = false;
+    try {
+      checkFileSize(file);
+      updateItem(id, { status: 'reading' });
+      // 進捗は 読み込み 0〜60% → 検証 80% → 保存 100%
+      const buffer = await readFile(file, (progress) => updateItem(id, { progress: progress * 0.6 }));
+
+      updateItem(id, { status: 'checking', progress: 0.6 });
+      const { mimeType, duration, decoded } = await validateAudioFile(buffer);
+      // 再生時に音量をそろえられるよう、検証でデコードした音声で一度だけ測っておく
+      const loudness = decoded && measureAudioBuffer(decoded);
+
+      updateItem(id, { status: 'saving', progress: 0.8 });
+      const blob = new Blob([buffer], { type: mimeType });
+      await saveTrackAudio(id, blob);
+      audioSaved = true;
+
+      // タグから曲名・作曲者・カバー画像を読む
+      const info = await readTrackInfo(file.name, buffer);
+      const newTrack: BGMTrack = {
+        id,
+        ...info,
+        duration: duration ?? info.duration,
+        loudness,
+        filename: URL.createObjectURL(blob),
+        originalName: file.name,
+        size: file.size,
+        type: mimeType,
+        uploadedAt: new Date().toISOString()
+      };
+
+      try {
+        await latest.current.repository.add(newTrack);
+      } catch (error) {
+        URL.revokeObjectURL(newTrack.filename);
+        throw error;
+      }
+      updateItem(id, { status: 'done', progress: 1 });
+      return newTrack;
+    } catch (error) {
+      if (audioSaved) await deleteTrackAudio(id).catch(() => {});
+      updateItem(id, { status: 'error', error: getErrorKey(error) });
+      return null;
+    }
+  };
+
+  const upload = (files: File[]) => {
+    if (files.length === 0) return;
+
+    const batch = Date.now();
+    const items: UploadItem[] = files.map((file, i) => ({
+      id: `${batch}-${i}`,
+      name: file.name,
+      status: 'waiting',
+      progress: 0
+    }));
+    setUploads((current) => [...current, ...items]);
+
+    let selected = false;
+    items.forEach((item, i) => {
+      queueRef.current = queueRef.current.then(async () => {
+        const track = await processFile(item.id, files[i]);
+        if (track && !selected) {
+          selected = true;
+          latest.current.onAdded(track);
+        }
+      });
+    });
+  };
+
+  // 完了・失敗した項目を一覧から消す
+  const clearFinished = () => {
+    setUploads((items) => items.filter((item) => item.status !== 'done' && item.status !== 'error'));
+  };
+
+  return { uploads, upload, clearFinished };
+};
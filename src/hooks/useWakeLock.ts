@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+
+// active の間は画面が消えないようにする。対応していないブラウザでは何もしない
+export const useWakeLock = (active: boolean): void => {
+  useEffect(() => {
+    if (!active || !('wakeLock' in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const request = async () => {
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (cancelled) {
+          await lock.release();
+          return;
+        }
+        sentinel = lock;
+      } catch (error) {
+        console.error('Error requesting wake lock:', error);
+      }
+    };
+
+    // タブを切り替えると自動で解除されるので、戻ってきたら取り直す
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && (!sentinel || sentinel.released)) {
+        request();
+      }
+    };
+
+    request();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      sentinel?.release().catch(() => {});
+    };
+  }, [active]);
+};
@@ -0,0 +1,43 @@
+export interface AlarmSettings {
+  // BGMとは別のアラーム音量（0〜1）
+  volume: number;
+  // 0でフェードインなし
+  fadeInSeconds: number;
+  // 止めるまで繰り返し鳴らす
+  repeat: boolean;
+  snoozeMinutes: number;
+  // 鳴っている間はBGMを止めずに小さくし、止めたら元の音量に戻す
+  duckBgm: boolean;
+}
+
+export const DEFAULT_ALARM_SETTINGS: AlarmSettings = {
+  volume: 0.8,
+  fadeInSeconds: 0,
+  repeat: false,
+  snoozeMinutes: 5,
+  duckBgm: true
+};
+
+export const FADE_IN_OPTIONS = [0, 5, 10, 30];
+
+export const MAX_SNOOZE_MINUTES = 60;
+
+const SETTINGS_KEY = 'alarmSettings';
+
+export const loadAlarmSettings = (): AlarmSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_ALARM_SETTINGS, ...JSON.parse(saved) } : DEFAULT_ALARM_SETTINGS;
+  } catch (error) {
+    console.error('Error loading alarm settings:', error);
+    return DEFAULT_ALARM_SETTINGS;
+  }
+};
+
+export const saveAlarmSettings = (settings: AlarmSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving alarm settings:', error);
+  }
+};
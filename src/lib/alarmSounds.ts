@@ -0,0 +1,29 @@
+import type { BGMTrack } from '../types';
+import { BUILT_IN_TRACKS } from './builtInTracks';
+import { t } from './i18n';
+
+export interface AlarmSound {
+  id: string;
+  label: string;
+  src: string;
+  uploaded?: boolean;
+}
+
+export const DEFAULT_ALARM_SOUND_ID = 'alarm';
+
+// public/audio に同梱しているアラーム音（クラシック曲もアラームとして使える）。
+// 表示名は言語設定に合わせるので呼び出すたびに作る
+export const getBundledAlarmSounds = (): AlarmSound[] => [
+  { id: DEFAULT_ALARM_SOUND_ID, label: t('alarmSound.default'), src: '/audio/alarm.mp3' },
+  ...BUILT_IN_TRACKS.map((track) => ({ id: track.id, label: track.title, src: track.filename }))
+];
+
+// 同梱音とアップロードした曲を合わせたアラーム音の一覧
+export const getAlarmSounds = (tracks: BGMTrack[]): AlarmSound[] => [
+  ...getBundledAlarmSounds(),
+  ...tracks.map((track) => ({ id: track.id, label: track.title, src: track.filename, uploaded: true }))
+];
+
+// 削除された曲を選んでいた場合は既定のアラーム音を使う
+export const findAlarmSound = (id: string, sounds: AlarmSound[] = getBundledAlarmSounds()): AlarmSound =>
+  sounds.find((sound) => sound.id === id) ?? sounds[0];
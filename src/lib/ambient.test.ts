@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_AMBIENT_LEVEL, DEFAULT_AMBIENT_MIX, fillNoise, getAmbientTracks, soloAmbientMix } from './ambient';
+
+// 再現できるよう決まった順で値を返す乱数
+const seeded = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+// 隣り合うサンプルの差の平均。低い音が多いほど小さくなる
+const roughness = (data: Float32Array): number => {
+  let sum = 0;
+  for (let i = 1; i < data.length; i++) sum += Math.abs(data[i] - data[i - 1]);
+  return sum / (data.length - 1);
+};
+
+describe('fillNoise', () => {
+  it('どの色も振幅が -1〜1 に収まる', () => {
+    (['white', 'pink', 'brown'] as const).forEach((color) => {
+      const data = new Float32Array(48000);
+      fillNoise(data, color, seeded(1));
+      expect(Math.max(...data.map(Math.abs))).toBeLessThanOrEqual(1);
+      expect(data.some((value) => value !== 0)).toBe(true);
+    });
+  });
+
+  it('白 → ピンク → ブラウンの順に低い音が多くなる', () => {
+    const [white, pink, brown] = (['white', 'pink', 'brown'] as const).map((color) => {
+      const data = new Float32Array(48000);
+      fillNoise(data, color, seeded(2));
+      return roughness(data);
+    });
+    expect(white).toBeGreaterThan(pink);
+    expect(pink).toBeGreaterThan(brown);
+  });
+});
+
+describe('soloAmbientMix', () => {
+  it('選んだ音だけを前の音量で鳴らす（0なら既定の音量）', () => {
+    const mix = { ...DEFAULT_AMBIENT_MIX, rain: 0.8, white: 0.3 };
+    expect(soloAmbientMix(mix, 'rain')).toEqual({ ...DEFAULT_AMBIENT_MIX, rain: 0.8 });
+    expect(soloAmbientMix(mix, 'brown')).toEqual({ ...DEFAULT_AMBIENT_MIX, brown: DEFAULT_AMBIENT_LEVEL });
+  });
+});
+
+describe('getAmbientTracks', () => {
+  it('環境音を削除できない曲として並べる', () => {
+    const tracks = getAmbientTracks();
+    expect(tracks.map((track) => track.ambient)).toEqual(['white', 'pink', 'brown', 'rain', 'binaural']);
+    expect(tracks.every((track) => track.builtIn && track.id.startsWith('ambient:'))).toBe(true);
+    expect(tracks[3].title).toBe('雨音');
+  });
+});
@@ -0,0 +1,186 @@
+import type { BGMTrack } from '../types';
+import { t } from './i18n';
+
+// Web Audio で生成する環境音。ファイルを読み込まずにBGMとして再生できる
+export type AmbientSoundId = 'white' | 'pink' | 'brown' | 'rain' | 'binaural';
+
+export const AMBIENT_SOUNDS: AmbientSoundId[] = ['white', 'pink', 'brown', 'rain', 'binaural'];
+
+// 音ごとの音量（0〜1）。BGMの音量はこの後にかかる
+export type AmbientMix = Record<AmbientSoundId, number>;
+
+export const DEFAULT_AMBIENT_LEVEL = 0.5;
+
+export const DEFAULT_AMBIENT_MIX: AmbientMix = {
+  white: 0,
+  pink: 0,
+  brown: 0,
+  rain: 0,
+  binaural: 0
+};
+
+const TRACK_ID_PREFIX = 'ambient:';
+
+// 曲の一覧に並べる環境音。表示名は言語設定に合わせるので呼び出すたびに作る
+export const getAmbientTracks = (): BGMTrack[] =>
+  AMBIENT_SOUNDS.map((id) => ({
+    id: `${TRACK_ID_PREFIX}${id}`,
+    title: t(`ambient.${id}`),
+    composer: t('ambient.composer'),
+    filename: '',
+    originalName: '',
+    size: 0,
+    type: '',
+    uploadedAt: '',
+    builtIn: true,
+    ambient: id
+  }));
+
+// 環境音の曲を選んだときは、その音だけを鳴らす（前に調整した音量があれば使う）
+export const soloAmbientMix = (mix: AmbientMix, id: AmbientSoundId): AmbientMix => ({
+  ...DEFAULT_AMBIENT_MIX,
+  [id]: mix[id] > 0 ? mix[id] : DEFAULT_AMBIENT_LEVEL
+});
+
+export type NoiseColor = 'white' | 'pink' | 'brown';
+
+// ノイズを data に書き込む。ピンクは Paul Kellet の近似フィルター、ブラウンは白色ノイズの積分
+export const fillNoise = (data: Float32Array, color: NoiseColor, random: () => number = Math.random): void => {
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  let last = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    const white = random() * 2 - 1;
+    if (color === 'white') {
+      data[i] = white * 0.5;
+    } else if (color === 'pink') {
+      b0 = 0.99886 * b0 + white * 0.0555179;
+      b1 = 0.99332 * b1 + white * 0.0750759;
+      b2 = 0.969 * b2 + white * 0.153852;
+      b3 = 0.8665 * b3 + white * 0.3104856;
+      b4 = 0.55 * b4 + white * 0.5329522;
+      b5 = -0.7616 * b5 - white * 0.016898;
+      data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+      b6 = white * 0.115926;
+    } else {
+      last = (last + 0.02 * white) / 1.02;
+      data[i] = last * 3.5;
+    }
+  }
+};
+
+// ループさせるノイズの長さ（秒）。短いと繰り返しが聞き取れる
+const NOISE_SECONDS = 4;
+
+// 左右で別のノイズにして広がりを出す
+const createNoiseBuffer = (context: BaseAudioContext, color: NoiseColor): AudioBuffer => {
+  const buffer = context.createBuffer(2, context.sampleRate * NOISE_SECONDS, context.sampleRate);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    fillNoise(buffer.getChannelData(channel), color);
+  }
+  return buffer;
+};
+
+// バイノーラルビートの周波数（左右の差が10Hzのアルファ波）
+const BINAURAL_BASE_HZ = 200;
+const BINAURAL_BEAT_HZ = 10;
+
+export interface AmbientEngine {
+  setMix: (mix: AmbientMix) => void;
+  stop: () => void;
+}
+
+// すべての音を鳴らし始め、音ごとのゲインで混ぜて destination（BGMのマスター音量）につなぐ
+export const createAmbientEngine = (
+  context: AudioContext,
+  destination: AudioNode,
+  mix: AmbientMix
+): AmbientEngine => {
+  const sources: AudioScheduledSourceNode[] = [];
+  const gains = {} as Record<AmbientSoundId, GainNode>;
+
+  AMBIENT_SOUNDS.forEach((id) => {
+    const gain = context.createGain();
+    gain.gain.value = mix[id];
+    gain.connect(destination);
+    gains[id] = gain;
+  });
+
+  const startNoise = (color: NoiseColor, output: AudioNode) => {
+    const source = context.createBufferSource();
+    source.buffer = createNoiseBuffer(context, color);
+    source.loop = true;
+    source.connect(output);
+    source.start();
+    sources.push(source);
+  };
+
+  startNoise('white', gains.white);
+  startNoise('pink', gains.pink);
+  startNoise('brown', gains.brown);
+
+  // 雨: 白色ノイズの低音と高音を削り、ゆっくり揺らして雨脚の強弱を出す
+  const highpass = context.createBiquadFilter();
+  highpass.type = 'highpass';
+  highpass.frequency.value = 500;
+  const lowpass = context.createBiquadFilter();
+  lowpass.type = 'lowpass';
+  lowpass.frequency.value = 6000;
+  const swell = context.createGain();
+  swell.gain.value = 0.8;
+  const lfo = context.createOscillator();
+  lfo.frequency.value = 0.15;
+  const lfoDepth = context.createGain();
+  lfoDepth.gain.value = 0.2;
+  lfo.connect(lfoDepth).connect(swell.gain);
+  lfo.start();
+  sources.push(lfo);
+  highpass.connect(lowpass).connect(swell).connect(gains.rain);
+  startNoise('white', highpass);
+
+  // バイノーラル: 左右の耳に少しだけ違う周波数を流す（ヘッドホン向け）
+  const merger = context.createChannelMerger(2);
+  const tone = context.createGain();
+  tone.gain.value = 0.3;
+  [BINAURAL_BASE_HZ, BINAURAL_BASE_HZ + BINAURAL_BEAT_HZ].forEach((frequency, channel) => {
+    const oscillator = context.createOscillator();
+    oscillator.frequency.value = frequency;
+    oscillator.connect(merger, 0, channel);
+    oscillator.start();
+    sources.push(oscillator);
+  });
+  merger.connect(tone).connect(gains.binaural);
+
+  return {
+    // 急に変えるとプツッと鳴るので少しだけなめらかにする
+    setMix: (next) => {
+      AMBIENT_SOUNDS.forEach((id) => {
+        gains[id].gain.setTargetAtTime(next[id], context.currentTime, 0.05);
+      });
+    },
+    stop: () => {
+      sources.forEach((source) => source.stop());
+      AMBIENT_SOUNDS.forEach((id) => gains[id].disconnect());
+    }
+  };
+};
+
+const MIX_KEY = 'ambientMix';
+
+export const loadAmbientMix = (): AmbientMix => {
+  try {
+    const saved = localStorage.getItem(MIX_KEY);
+    return saved ? { ...DEFAULT_AMBIENT_MIX, ...JSON.parse(saved) } : DEFAULT_AMBIENT_MIX;
+  } catch (error) {
+    console.error('Error loading ambient mix:', error);
+    return DEFAULT_AMBIENT_MIX;
+  }
+};
+
+export const saveAmbientMix = (mix: AmbientMix): void => {
+  try {
+    localStorage.setItem(MIX_KEY, JSON.stringify(mix));
+  } catch (error) {
+    console.error('Error saving ambient mix:', error);
+  }
+};
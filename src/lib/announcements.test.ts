@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { getAnnounceMark, getAnnouncements } from './announcements';
+import type { AnnounceMarks } from './announcements';
+import type { NamedTimer } from './timers';
+import type { TimerState } from './timerState';
+
+const MINUTE = 60 * 1000;
+
+const timer = (state: TimerState): NamedTimer => ({
+  id: '1',
+  label: '英語',
+  type: 'duration',
+  target: '00:20:00',
+  alarmSoundId: 'alarm',
+  startedAt: 0,
+  totalMs: 20 * MINUTE,
+  state
+});
+
+describe('getAnnounceMark', () => {
+  it('残り時間が入る区切りを返す', () => {
+    expect(getAnnounceMark(90 * MINUTE)).toBeNull();
+    expect(getAnnounceMark(60 * MINUTE)).toBe(60 * MINUTE);
+    expect(getAnnounceMark(12 * MINUTE)).toBe(15 * MINUTE);
+    expect(getAnnounceMark(45 * 1000)).toBe(MINUTE);
+    expect(getAnnounceMark(5 * 1000)).toBe(10 * 1000);
+  });
+});
+
+describe('getAnnouncements', () => {
+  const running = timer({ status: 'running', endTime: 20 * MINUTE });
+
+  it('開始直後は読み上げず、区切りを通過したときに読み上げる', () => {
+    const first = getAnnouncements([running], new Map(), 0);
+    expect(first.messages).toEqual([]);
+
+    const same = getAnnouncements([running], first.marks, 1 * MINUTE);
+    expect(same.messages).toEqual([]);
+
+    const crossed = getAnnouncements([running], same.marks, 5 * MINUTE);
+    expect(crossed.messages).toEqual(['英語: 残り15分']);
+
+    const seconds = getAnnouncements([running], crossed.marks, 20 * MINUTE - 25 * 1000);
+    expect(seconds.messages).toEqual(['英語: 残り30秒']);
+  });
+
+  it('一時停止中は読み上げず、区切りを覚えておく', () => {
+    const marks: AnnounceMarks = new Map([['1', 15 * MINUTE]]);
+    const paused = getAnnouncements([timer({ status: 'paused', remainingMs: 8 * MINUTE })], marks, 0);
+    expect(paused.messages).toEqual([]);
+    expect(paused.marks.get('1')).toBe(15 * MINUTE);
+  });
+
+  it('時間を延ばして区切りが増えたときは読み上げない', () => {
+    const marks: AnnounceMarks = new Map([['1', 5 * MINUTE]]);
+    expect(getAnnouncements([running], marks, 5 * MINUTE).messages).toEqual([]);
+  });
+
+  it('終了は1回だけ知らせる', () => {
+    const finished = timer({ status: 'finished', finishedAt: 20 * MINUTE });
+    const first = getAnnouncements([finished], new Map([['1', 10 * 1000]]), 20 * MINUTE);
+    expect(first.messages).toEqual(['英語: 時間になりました']);
+    expect(getAnnouncements([finished], first.marks, 21 * MINUTE).messages).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+import type { NamedTimer } from './timers';
+import { getRemainingMs } from './timerState';
+import { t } from './i18n';
+
+// 残り時間を読み上げる区切り（ミリ秒、長い順）。終わりに近いほど細かくする
+export const ANNOUNCE_MARKS_MS = [
+  60, 30, 15, 10, 5, 3, 2, 1
+].map((minutes) => minutes * 60 * 1000).concat([30 * 1000, 10 * 1000]);
+
+// 残り時間が入っている区切り（remaining 以上で最小の区切り）。区切りより長ければ null
+export const getAnnounceMark = (remainingMs: number): number | null => {
+  let mark: number | null = null;
+  for (const value of ANNOUNCE_MARKS_MS) {
+    if (remainingMs <= value) mark = value;
+  }
+  return mark;
+};
+
+const formatMark = (label: string, mark: number): string =>
+  mark >= 60 * 1000
+    ? t('a11y.remainingMinutes', { label, minutes: mark / 60000 })
+    : t('a11y.remainingSeconds', { label, seconds: mark / 1000 });
+
+// タイマーごとに最後に通過した区切り。null は最初の区切りより長い状態
+export type AnnounceMarks = Map<string, number | 'finished' | null>;
+
+// 前回の区切り（タイマーIDごと）と比べて、新しく読み上げる文を返す。
+// 一時停止中は読み上げず、終了したタイマーは1回だけ知らせる
+export const getAnnouncements = (
+  timers: NamedTimer[],
+  previous: AnnounceMarks,
+  now: number
+): { messages: string[]; marks: AnnounceMarks } => {
+  const messages: string[] = [];
+  const marks: AnnounceMarks = new Map();
+
+  timers.forEach((timer) => {
+    const { state } = timer;
+    const before = previous.get(timer.id);
+
+    if (state.status === 'finished') {
+      marks.set(timer.id, 'finished');
+      if (before !== 'finished') messages.push(t('a11y.finished', { label: timer.label }));
+      return;
+    }
+    if (state.status !== 'running') {
+      if (before !== undefined) marks.set(timer.id, before);
+      return;
+    }
+
+    const mark = getAnnounceMark(getRemainingMs(state, now) ?? 0);
+    marks.set(timer.id, mark);
+    // 開始直後・スヌーズ直後や、時間調整で区切りが増えたときは読み上げない
+    if (mark !== null && (typeof before === 'number' ? mark < before : before === null)) {
+      messages.push(formatMark(timer.label, mark));
+    }
+  });
+
+  return { messages, marks };
+};
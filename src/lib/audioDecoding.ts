@@ -0,0 +1,14 @@
+// アップロードの検証と音量の解析で使うデコード。長さと音量を調べるだけなので、
+// 長い曲でもメモリを使いすぎないよう低いサンプルレートに変換する
+const DECODE_SAMPLE_RATE = 8000;
+
+let context: OfflineAudioContext | null = null;
+
+// OfflineAudioContext のない環境ではデコードできない
+export const canDecodeAudio = (): boolean => typeof OfflineAudioContext !== 'undefined';
+
+export const decodeAudio = (buffer: ArrayBuffer): Promise<AudioBuffer> => {
+  context ??= new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  // decodeAudioData は渡したバッファを使えなくするのでコピーを渡す
+  return context.decodeAudioData(buffer.slice(0));
+};
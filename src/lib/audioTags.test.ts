@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MockInstance } from 'vitest';
+import { readAudioTags } from './audioTags';
+
+type Part = number[] | string | Uint8Array;
+
+// 文字列は1文字1バイト（Latin-1）として並べる
+const bytes = (...parts: Part[]): Uint8Array =>
+  Uint8Array.from(parts.flatMap((part) =>
+    typeof part === 'string' ? [...part].map((char) => char.charCodeAt(0)) : [...part]
+  ));
+
+const utf8 = (text: string): Uint8Array => new TextEncoder().encode(text);
+const utf16le = (text: string): number[] =>
+  [...text].flatMap((char) => [char.charCodeAt(0) & 0xff, char.charCodeAt(0) >> 8]);
+
+const u32be = (value: number): number[] => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+const u32le = (value: number): number[] => u32be(value).reverse();
+const u24be = (value: number): number[] => u32be(value).slice(1);
+const syncsafe = (value: number): number[] =>
+  [(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f];
+
+const read = (data: Uint8Array) => readAudioTags(data.slice().buffer);
+
+// ---- ID3v2 ----
+
+const id3 = (version: number, ...frames: Uint8Array[]): Uint8Array => {
+  const body = bytes(...frames);
+  return bytes('ID3', [version, 0, 0], syncsafe(body.length), body);
+};
+
+const id3Frame = (id: string, data: Uint8Array, version = 3): Uint8Array =>
+  version === 2
+    ? bytes(id, u24be(data.length), data)
+    : bytes(id, version === 4 ? syncsafe(data.length) : u32be(data.length), [0, 0], data);
+
+// ---- Vorbis comment ----
+
+const vorbisComment = (...comments: string[]): Uint8Array =>
+  bytes(u32le(6), 'vendor', u32le(comments.length), ...comments.flatMap((comment) => {
+    const encoded = utf8(comment);
+    return [u32le(encoded.length), encoded];
+  }));
+
+const flacBlock = (type: number, data: Uint8Array, last = false): Uint8Array =>
+  bytes([type | (last ? 0x80 : 0)], u24be(data.length), data);
+
+// サンプルレート 44100Hz・総サンプル数 samples の STREAMINFO
+const streamInfo = (samples: number): Uint8Array =>
+  bytes(new Array(10).fill(0), [0x0a, 0xc4, 0x40, 0], u32be(samples), new Array(16).fill(0));
+
+// 1ページに収まる（255バイト未満の）パケットだけを並べたOGGページ
+const oggPage = (granule: number, ...packets: Uint8Array[]): Uint8Array =>
+  bytes('OggS', [0, 0], u32le(granule), u32le(0), u32le(1), u32le(0), u32le(0), [packets.length],
+    packets.map((packet) => packet.length), ...packets);
+
+// ---- MP4 ----
+
+const atom = (type: string, ...children: Part[]): Uint8Array => {
+  const body = bytes(...children);
+  return bytes(u32be(body.length + 8), type, body);
+};
+
+const mp4Item = (type: string, dataType: number, value: Part): Uint8Array =>
+  atom(type, atom('data', u32be(dataType), [0, 0, 0, 0], value));
+
+const PNG = bytes([0x89], 'PNG');
+
+describe('readAudioTags', () => {
+  let consoleError: MockInstance;
+
+  beforeEach(() => {
+    consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  describe('ID3v2', () => {
+    it('v2.3 の Latin-1・BOM付きUTF-16 の文字列、再生時間、画像を読む', () => {
+      const tags = read(id3(3,
+        id3Frame('TIT2', bytes([0], 'Clair de lune\0')),
+        id3Frame('TPE1', bytes([1, 0xff, 0xfe], utf16le('ドビュッシー'))),
+        id3Frame('TLEN', bytes([0], '305000')),
+        id3Frame('APIC', bytes([0], 'image/png\0', [3], 'cover\0', PNG))
+      ));
+
+      expect(tags).toMatchObject({ title: 'Clair de lune', artist: 'ドビュッシー', duration: 305 });
+      expect(tags.picture?.type).toBe('image/png');
+      expect(tags.picture?.size).toBe(PNG.length);
+    });
+
+    it('v2.4 の同期安全なフレームサイズと、BOMなしのUTF-16BE・UTF-8を読む', () => {
+      const tags = read(id3(4,
+        id3Frame('TIT2', bytes([3], utf8('月の光')), 4),
+        id3Frame('TCOM', bytes([2], [0, 0x44, 0, 0x65, 0, 0x62]), 4)
+      ));
+      expect(tags).toEqual({ title: '月の光', composer: 'Deb' });
+    });
+
+    it('v2.2 の3文字のフレームを読む', () => {
+      const tags = read(id3(2,
+        id3Frame('TT2', bytes([0], 'Gymnopedie'), 2),
+        id3Frame('PIC', bytes([0], 'PNG', [3], '\0', PNG), 2)
+      ));
+      expect(tags.title).toBe('Gymnopedie');
+      expect(tags.picture?.type).toBe('image/png');
+    });
+
+    it('途中で切れたタグは読めたところまでを返し、ヘッダーだけのファイルは空にする', () => {
+      const whole = id3(3, id3Frame('TIT2', bytes([0], 'Nocturne')), id3Frame('TPE1', bytes([0], 'Chopin')));
+      expect(read(whole.subarray(0, whole.length - 3))).toEqual({ title: 'Nocturne', artist: 'Cho' });
+      expect(read(bytes('ID3', [3]))).toEqual({});
+    });
+  });
+
+  describe('Vorbis comment', () => {
+    it('FLAC の STREAMINFO から再生時間を求め、コメントと画像ブロックを読む', () => {
+      const picture = bytes(u32be(3), u32be(9), 'image/png', u32be(0), new Array(16).fill(0), u32be(PNG.length), PNG);
+      const tags = read(bytes('fLaC',
+        flacBlock(0, streamInfo(44100 * 3)),
+        flacBlock(4, vorbisComment('TITLE=Arabesque', 'artist=Debussy', 'COMPOSER=ドビュッシー')),
+        flacBlock(6, picture, true)
+      ));
+
+      expect(tags).toMatchObject({ title: 'Arabesque', artist: 'Debussy', composer: 'ドビュッシー', duration: 3 });
+      expect(tags.picture?.type).toBe('image/png');
+    });
+
+    it('コメント数が実際より多い壊れたブロックでも、読めたコメントを返す', () => {
+      const comment = vorbisComment('TITLE=Reverie');
+      comment.set(u32le(99), 10);
+      expect(read(bytes('fLaC', flacBlock(4, comment, true)))).toEqual({ title: 'Reverie' });
+    });
+
+    it('OGG Vorbis の最後のページから再生時間を求める', () => {
+      const identification = bytes([1], 'vorbis', u32le(0), [2], u32le(44100), new Array(13).fill(0));
+      const comment = bytes([3], 'vorbis', vorbisComment('TITLE=Berceuse'));
+      const tags = read(bytes(oggPage(0, identification, comment), oggPage(44100 * 2, bytes([0]))));
+      expect(tags).toEqual({ title: 'Berceuse', duration: 2 });
+    });
+
+    it('Opus はプリスキップを除いた48kHzのサンプル数で再生時間を求める', () => {
+      const head = bytes('OpusHead', [1, 2], [0x38, 0x01], u32le(48000), [0, 0, 0]);
+      const tags = read(bytes(
+        oggPage(0, head, bytes('OpusTags', vorbisComment('ARTIST=Satie'))),
+        oggPage(48000 * 2 + 312, bytes([0]))
+      ));
+      expect(tags).toEqual({ artist: 'Satie', duration: 2 });
+    });
+
+    it('コメントのパケットがない OGG は空にする', () => {
+      expect(read(oggPage(0, bytes([1], 'vorbis')))).toEqual({});
+    });
+  });
+
+  describe('MP4', () => {
+    const mvhd = atom('mvhd', [0, 0, 0, 0], u32be(0), u32be(0), u32be(1000), u32be(5000), new Array(80).fill(0));
+    const ilst = atom('ilst',
+      mp4Item('\xa9nam', 1, utf8('亜麻色の髪の乙女')),
+      mp4Item('\xa9wrt', 1, 'Debussy'),
+      mp4Item('covr', 14, PNG)
+    );
+
+    it('mvhd から再生時間を求め、ilst の曲名・作曲者・カバー画像を読む', () => {
+      const tags = read(bytes(
+        atom('ftyp', 'M4A ', u32be(0)),
+        atom('moov', mvhd, atom('udta', atom('meta', [0, 0, 0, 0], ilst)))
+      ));
+
+      expect(tags).toMatchObject({ title: '亜麻色の髪の乙女', composer: 'Debussy', duration: 5 });
+      expect(tags.picture?.type).toBe('image/png');
+    });
+
+    it('途中で切れた moov は例外にせず空にする', () => {
+      const file = bytes(atom('ftyp', 'M4A ', u32be(0)), atom('moov', mvhd));
+      expect(read(file.subarray(0, 40))).toEqual({});
+    });
+  });
+
+  it('対応していない形式や短すぎるファイルは空にする', () => {
+    expect(read(bytes('RIFF', u32le(4), 'WAVE'))).toEqual({});
+    expect(read(bytes([0xff]))).toEqual({});
+    expect(read(new Uint8Array(0))).toEqual({});
+  });
+});
@@ -0,0 +1,368 @@
+// アップロードされた音声ファイルのタグ（ID3v2 / Vorbis comment / MP4）を読む
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  composer?: string;
+  // 秒
+  duration?: number;
+  picture?: Blob;
+}
+
+const latin1 = new TextDecoder('iso-8859-1');
+const utf8 = new TextDecoder('utf-8');
+
+const readAscii = (bytes: Uint8Array, start: number, length: number): string =>
+  latin1.decode(bytes.subarray(start, start + length));
+
+// 終端のNUL文字と前後の空白を取り除き、空なら undefined にする
+const clean = (text: string): string | undefined => {
+  const value = text.split('\0')[0].trim();
+  return value || undefined;
+};
+
+// ---- ID3v2 (MP3) ----
+
+const readSyncsafe = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] & 0x7f) << 21) |
+  ((bytes[offset + 1] & 0x7f) << 14) |
+  ((bytes[offset + 2] & 0x7f) << 7) |
+  (bytes[offset + 3] & 0x7f);
+
+const decodeId3Text = (bytes: Uint8Array, encoding: number): string => {
+  switch (encoding) {
+    case 1:
+      // BOM付きUTF-16
+      return bytes[0] === 0xfe && bytes[1] === 0xff
+        ? new TextDecoder('utf-16be').decode(bytes.subarray(2))
+        : new TextDecoder('utf-16le').decode(bytes[0] === 0xff ? bytes.subarray(2) : bytes);
+    case 2:
+      return new TextDecoder('utf-16be').decode(bytes);
+    case 3:
+      return utf8.decode(bytes);
+    default:
+      return latin1.decode(bytes);
+  }
+};
+
+// 文字コードに応じたNUL終端の位置（UTF-16は2バイト単位）
+const findTerminator = (bytes: Uint8Array, start: number, encoding: number): number => {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = start; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i;
+  }
+  return bytes.length;
+};
+
+const readId3Picture = (frame: Uint8Array, version: number): Blob | undefined => {
+  const encoding = frame[0];
+  let offset = 1;
+  let mime: string;
+  if (version === 2) {
+    const format = readAscii(frame, 1, 3).toLowerCase();
+    mime = format === 'png' ? 'image/png' : 'image/jpeg';
+    offset = 4;
+  } else {
+    const end = findTerminator(frame, 1, 0);
+    mime = readAscii(frame, 1, end - 1) || 'image/jpeg';
+    offset = end + 1;
+  }
+  // 画像の種類（1バイト）と説明文を飛ばす
+  offset = findTerminator(frame, offset + 1, encoding) + (encoding === 1 || encoding === 2 ? 2 : 1);
+  if (offset >= frame.length) return undefined;
+  return new Blob([frame.slice(offset)], { type: mime.includes('/') ? mime : `image/${mime}` });
+};
+
+const ID3_FRAMES: Record<string, keyof AudioTags> = {
+  TIT2: 'title',
+  TT2: 'title',
+  TPE1: 'artist',
+  TP1: 'artist',
+  TCOM: 'composer',
+  TCM: 'composer',
+  TLEN: 'duration',
+  TLE: 'duration',
+  APIC: 'picture',
+  PIC: 'picture'
+};
+
+const readId3 = (bytes: Uint8Array): AudioTags => {
+  const version = bytes[3];
+  const flags = bytes[5];
+  const end = Math.min(10 + readSyncsafe(bytes, 6), bytes.length);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  const tags: AudioTags = {};
+
+  let offset = 10;
+  if (flags & 0x40 && version > 2) {
+    // 拡張ヘッダー（v2.3はサイズ自身を含まない）
+    offset += version === 4 ? readSyncsafe(bytes, offset) : view.getUint32(offset) + 4;
+  }
+
+  while (offset + headerLength <= end) {
+    const id = readAscii(bytes, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+
+    const size =
+      version === 2
+        ? (bytes[offset + 3] << 16) | (bytes[offset + 4] << 8) | bytes[offset + 5]
+        : version === 4
+        ? readSyncsafe(bytes, offset + 4)
+        : view.getUint32(offset + 4);
+    const frame = bytes.subarray(offset + headerLength, Math.min(offset + headerLength + size, end));
+    offset += headerLength + size;
+
+    const key = ID3_FRAMES[id];
+    if (!key || frame.length === 0 || tags[key] !== undefined) continue;
+
+    if (key === 'picture') {
+      tags.picture = readId3Picture(frame, version);
+    } else if (key === 'duration') {
+      const ms = parseInt(decodeId3Text(frame.subarray(1), frame[0]));
+      if (ms > 0) tags.duration = ms / 1000;
+    } else {
+      tags[key] = clean(decodeId3Text(frame.subarray(1), frame[0]));
+    }
+  }
+
+  return tags;
+};
+
+// ---- Vorbis comment (OGG / FLAC) ----
+
+// FLACのPICTUREブロック（Vorbis comment内ではBase64で埋め込まれる）
+const readFlacPicture = (bytes: Uint8Array): Blob | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 4;
+  const mimeLength = view.getUint32(offset);
+  const mime = readAscii(bytes, offset + 4, mimeLength);
+  offset += 4 + mimeLength;
+  offset += 4 + view.getUint32(offset);
+  // 幅・高さ・色深度・色数
+  offset += 16;
+  const length = view.getUint32(offset);
+  offset += 4;
+  if (offset + length > bytes.length) return undefined;
+  return new Blob([bytes.slice(offset, offset + length)], { type: mime || 'image/jpeg' });
+};
+
+const decodeBase64 = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+const readVorbisComment = (bytes: Uint8Array, tags: AudioTags): void => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 4 + view.getUint32(0, true);
+  const count = view.getUint32(offset, true);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = view.getUint32(offset, true);
+    const comment = utf8.decode(bytes.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+
+    const separator = comment.indexOf('=');
+    const key = comment.slice(0, separator).toUpperCase();
+    const value = comment.slice(separator + 1);
+    if (key === 'TITLE') tags.title ??= clean(value);
+    if (key === 'ARTIST') tags.artist ??= clean(value);
+    if (key === 'COMPOSER') tags.composer ??= clean(value);
+    if (key === 'METADATA_BLOCK_PICTURE' && !tags.picture) {
+      try {
+        tags.picture = readFlacPicture(decodeBase64(value));
+      } catch {
+        // 壊れた画像は無視する
+      }
+    }
+  }
+};
+
+const readFlac = (bytes: Uint8Array): AudioTags => {
+  const tags: AudioTags = {};
+  let offset = 4;
+  let last = false;
+
+  while (!last && offset + 4 <= bytes.length) {
+    const header = bytes[offset];
+    last = (header & 0x80) !== 0;
+    const type = header & 0x7f;
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const block = bytes.subarray(offset + 4, offset + 4 + length);
+    offset += 4 + length;
+
+    if (type === 0 && block.length >= 18) {
+      // STREAMINFO: サンプルレート20bit・総サンプル数36bit
+      const sampleRate = (block[10] << 12) | (block[11] << 4) | (block[12] >> 4);
+      const low = new DataView(block.buffer, block.byteOffset, block.byteLength).getUint32(14);
+      const totalSamples = (block[13] & 0x0f) * 2 ** 32 + low;
+      if (sampleRate > 0 && totalSamples > 0) tags.duration = totalSamples / sampleRate;
+    } else if (type === 4) {
+      readVorbisComment(block, tags);
+    } else if (type === 6 && !tags.picture) {
+      tags.picture = readFlacPicture(block);
+    }
+  }
+
+  return tags;
+};
+
+// OGGのページからパケットを組み立てる（先頭の数パケットだけ）
+const readOggPackets = (bytes: Uint8Array, limit: number): Uint8Array[] => {
+  const packets: Uint8Array[] = [];
+  let current: Uint8Array[] = [];
+  let offset = 0;
+
+  while (packets.length < limit && offset + 27 <= bytes.length && readAscii(bytes, offset, 4) === 'OggS') {
+    const segments = bytes[offset + 26];
+    let dataOffset = offset + 27 + segments;
+    for (let i = 0; i < segments && packets.length < limit; i++) {
+      const size = bytes[offset + 27 + i];
+      current.push(bytes.subarray(dataOffset, dataOffset + size));
+      dataOffset += size;
+      if (size < 255) {
+        const packet = new Uint8Array(current.reduce((sum, part) => sum + part.length, 0));
+        current.reduce((position, part) => {
+          packet.set(part, position);
+          return position + part.length;
+        }, 0);
+        packets.push(packet);
+        current = [];
+      }
+    }
+    offset = dataOffset;
+  }
+
+  return packets;
+};
+
+// 最後のページのグラニュール位置（サンプル数）
+const readLastGranule = (bytes: Uint8Array): number => {
+  for (let offset = bytes.length - 27; offset >= 0; offset--) {
+    if (bytes[offset] === 0x4f && readAscii(bytes, offset, 4) === 'OggS') {
+      const view = new DataView(bytes.buffer, bytes.byteOffset + offset + 6, 8);
+      return view.getUint32(0, true) + view.getUint32(4, true) * 2 ** 32;
+    }
+  }
+  return 0;
+};
+
+const readOgg = (bytes: Uint8Array): AudioTags => {
+  const tags: AudioTags = {};
+  const [identification, comment] = readOggPackets(bytes, 2);
+  if (!identification || !comment) return tags;
+
+  const granule = readLastGranule(bytes);
+  if (readAscii(identification, 1, 6) === 'vorbis' && readAscii(comment, 1, 6) === 'vorbis') {
+    readVorbisComment(comment.subarray(7), tags);
+    const sampleRate = new DataView(identification.buffer, identification.byteOffset).getUint32(12, true);
+    if (sampleRate > 0 && granule > 0) tags.duration = granule / sampleRate;
+  } else if (readAscii(identification, 0, 8) === 'OpusHead' && readAscii(comment, 0, 8) === 'OpusTags') {
+    readVorbisComment(comment.subarray(8), tags);
+    // Opusは常に48kHz。先頭のプリスキップ分を除く
+    const preSkip = identification[10] | (identification[11] << 8);
+    if (granule > preSkip) tags.duration = (granule - preSkip) / 48000;
+  }
+
+  return tags;
+};
+
+// ---- MP4 / M4A ----
+
+interface Atom {
+  type: string;
+  start: number;
+  end: number;
+}
+
+const readAtoms = (bytes: Uint8Array, start: number, end: number): Atom[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const atoms: Atom[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let headerLength = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      headerLength = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerLength) break;
+
+    atoms.push({ type: readAscii(bytes, offset + 4, 4), start: offset + headerLength, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+
+  return atoms;
+};
+
+const findAtom = (bytes: Uint8Array, parent: Atom | null, path: string[]): Atom | undefined => {
+  let current = parent ?? { type: '', start: 0, end: bytes.length };
+  for (const type of path) {
+    const child = readAtoms(bytes, current.start, current.end).find((atom) => atom.type === type);
+    if (!child) return undefined;
+    // meta はバージョンとフラグの4バイトを持つ
+    current = type === 'meta' ? { ...child, start: child.start + 4 } : child;
+  }
+  return current;
+};
+
+const MP4_ITEMS: Record<string, keyof AudioTags> = {
+  '©nam': 'title',
+  '©ART': 'artist',
+  '©wrt': 'composer',
+  covr: 'picture'
+};
+
+const readMp4 = (bytes: Uint8Array): AudioTags => {
+  const tags: AudioTags = {};
+  const moov = findAtom(bytes, null, ['moov']);
+  if (!moov) return tags;
+
+  const mvhd = findAtom(bytes, moov, ['mvhd']);
+  if (mvhd) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset + mvhd.start, mvhd.end - mvhd.start);
+    const [timescale, duration] =
+      view.getUint8(0) === 1
+        ? [view.getUint32(20), view.getUint32(24) * 2 ** 32 + view.getUint32(28)]
+        : [view.getUint32(12), view.getUint32(16)];
+    if (timescale > 0 && duration > 0) tags.duration = duration / timescale;
+  }
+
+  const ilst = findAtom(bytes, moov, ['udta', 'meta', 'ilst']) ?? findAtom(bytes, moov, ['meta', 'ilst']);
+  if (!ilst) return tags;
+
+  for (const item of readAtoms(bytes, ilst.start, ilst.end)) {
+    const key = MP4_ITEMS[item.type];
+    if (!key || tags[key] !== undefined) continue;
+    const data = findAtom(bytes, item, ['data']);
+    if (!data) continue;
+
+    // data: 型(4バイト)・ロケール(4バイト)のあとに値が続く
+    const dataType = new DataView(bytes.buffer, bytes.byteOffset + data.start, 4).getUint32(0) & 0xffffff;
+    const value = bytes.subarray(data.start + 8, data.end);
+    if (key === 'picture') {
+      tags.picture = new Blob([value.slice()], { type: dataType === 14 ? 'image/png' : 'image/jpeg' });
+    } else if (key !== 'duration') {
+      tags[key] = clean(utf8.decode(value));
+    }
+  }
+
+  return tags;
+};
+
+// 先頭のバイト列から形式を判定してタグを読む。読めない形式や壊れたファイルは空のタグを返す
+export const readAudioTags = (buffer: ArrayBuffer): AudioTags => {
+  const bytes = new Uint8Array(buffer);
+  try {
+    const magic = readAscii(bytes, 0, 4);
+    if (magic.startsWith('ID3')) return readId3(bytes);
+    if (magic === 'fLaC') return readFlac(bytes);
+    if (magic === 'OggS') return readOgg(bytes);
+    if (readAscii(bytes, 4, 4) === 'ftyp') return readMp4(bytes);
+  } catch (error) {
+    console.error('Error reading audio tags:', error);
+  }
+  return {};
+};
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { UploadValidationError, detectAudioFormat, validateAudioFile } from './audioValidation';
+
+const bytes = (...parts: (number[] | string)[]): Uint8Array =>
+  Uint8Array.from(parts.flatMap((part) =>
+    typeof part === 'string' ? [...part].map((char) => char.charCodeAt(0)) : part
+  ));
+
+// デコード結果の長さ（秒）。null ならデコードに失敗する
+let decodedDuration: number | null = 10;
+
+class FakeOfflineAudioContext {
+  decodeAudioData() {
+    return decodedDuration === null
+      ? Promise.reject(new DOMException('Unable to decode', 'EncodingError'))
+      : Promise.resolve({ duration: decodedDuration });
+  }
+}
+
+const MP3 = bytes('ID3', [4, 0, 0, 0, 0, 0, 0]);
+
+describe('detectAudioFormat', () => {
+  it('先頭のバイト列から形式を判定する', () => {
+    expect(detectAudioFormat(MP3)).toBe('mp3');
+    expect(detectAudioFormat(bytes([0xff, 0xfb, 0x90, 0x64]))).toBe('mp3');
+    expect(detectAudioFormat(bytes('RIFF', [0x24, 0, 0, 0], 'WAVE'))).toBe('wav');
+    expect(detectAudioFormat(bytes('OggS', [0]))).toBe('ogg');
+    expect(detectAudioFormat(bytes('fLaC', [0]))).toBe('flac');
+    expect(detectAudioFormat(bytes([0, 0, 0, 0x20], 'ftypM4A '))).toBe('m4a');
+  });
+
+  it('似ているが違うヘッダーや途中で切れたヘッダーは判定しない', () => {
+    // MPEGのバージョン・レイヤーが予約値のフレーム
+    expect(detectAudioFormat(bytes([0xff, 0xe0]))).toBeNull();
+    expect(detectAudioFormat(bytes('RIFF', [0x24, 0, 0, 0], 'AVI '))).toBeNull();
+    expect(detectAudioFormat(bytes('RIFF', [0x24, 0, 0, 0], 'WA'))).toBeNull();
+    expect(detectAudioFormat(bytes('fLa'))).toBeNull();
+    expect(detectAudioFormat(bytes([0x89], 'PNG'))).toBeNull();
+    expect(detectAudioFormat(new Uint8Array(0))).toBeNull();
+  });
+});
+
+describe('validateAudioFile', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    decodedDuration = 10;
+  });
+
+  it('対応していない形式はデコードせずにエラーにする', async () => {
+    await expect(validateAudioFile(bytes('not audio').buffer)).rejects.toEqual(new UploadValidationError('unsupported'));
+  });
+
+  it('デコードできない環境では形式だけを確認する', async () => {
+    vi.stubGlobal('OfflineAudioContext', undefined);
+    await expect(validateAudioFile(MP3.buffer)).resolves.toEqual({ format: 'mp3', mimeType: 'audio/mpeg' });
+  });
+
+  it('デコードできない・短すぎるファイルはエラーにする', async () => {
+    vi.stubGlobal('OfflineAudioContext', FakeOfflineAudioContext);
+    await expect(validateAudioFile(MP3.buffer)).resolves.toMatchObject({ format: 'mp3', duration: 10 });
+
+    decodedDuration = null;
+    await expect(validateAudioFile(MP3.buffer)).rejects.toHaveProperty('reason', 'undecodable');
+    decodedDuration = 0.5;
+    await expect(validateAudioFile(MP3.buffer)).rejects.toHaveProperty('reason', 'tooShort');
+  });
+});
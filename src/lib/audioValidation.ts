@@ -0,0 +1,95 @@
+import { canDecodeAudio, decodeAudio } from './audioDecoding';
+
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+// 短すぎる（壊れている）ファイルと、長すぎるファイルは受け付けない
+export const MIN_DURATION_SECONDS = 1;
+export const MAX_DURATION_SECONDS = 3 * 60 * 60;
+
+export type AudioFormat = 'mp3' | 'wav' | 'ogg' | 'flac' | 'm4a';
+
+export const AUDIO_MIME_TYPES: Record<AudioFormat, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  m4a: 'audio/mp4'
+};
+
+// ファイル選択ダイアログで表示する形式（MIMEが空のファイルもあるので拡張子も並べる）
+export const ACCEPTED_FILE_TYPES = [
+  ...Object.values(AUDIO_MIME_TYPES),
+  'audio/x-m4a',
+  '.mp3',
+  '.wav',
+  '.ogg',
+  '.oga',
+  '.opus',
+  '.flac',
+  '.m4a'
+].join(',');
+
+export type UploadErrorReason = 'tooLarge' | 'unsupported' | 'undecodable' | 'tooShort' | 'tooLong';
+
+// アップロードできないファイルのときに投げるエラー
+export class UploadValidationError extends Error {
+  reason: UploadErrorReason;
+
+  constructor(reason: UploadErrorReason) {
+    super(`Invalid audio file: ${reason}`);
+    this.name = 'UploadValidationError';
+    this.reason = reason;
+  }
+}
+
+const matches = (bytes: Uint8Array, offset: number, signature: string): boolean =>
+  [...signature].every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+// ファイル先頭のバイト列（マジックナンバー）から形式を判定する。ブラウザのMIMEは信用しない
+export const detectAudioFormat = (bytes: Uint8Array): AudioFormat | null => {
+  if (matches(bytes, 0, 'ID3')) return 'mp3';
+  // ID3タグのないMP3はフレーム同期（11bitの1）で始まる
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0 && (bytes[1] & 0x06) !== 0) return 'mp3';
+  if (matches(bytes, 0, 'RIFF') && matches(bytes, 8, 'WAVE')) return 'wav';
+  if (matches(bytes, 0, 'OggS')) return 'ogg';
+  if (matches(bytes, 0, 'fLaC')) return 'flac';
+  if (matches(bytes, 4, 'ftyp')) return 'm4a';
+  return null;
+};
+
+// 実際にデコードできるか試し、デコードした音声を返す
+const tryDecode = async (buffer: ArrayBuffer): Promise<AudioBuffer> => {
+  try {
+    return await decodeAudio(buffer);
+  } catch {
+    throw new UploadValidationError('undecodable');
+  }
+};
+
+export interface ValidatedAudio {
+  format: AudioFormat;
+  mimeType: string;
+  // デコードできない環境では、以下はどちらも undefined
+  duration?: number;
+  // 検証でデコードした音声（低いサンプルレート）。音量の解析にも使い、もう一度デコードしない
+  decoded?: AudioBuffer;
+}
+
+// 読み込む前に確認できるのはサイズだけ
+export const checkFileSize = (file: File): void => {
+  if (file.size > MAX_FILE_SIZE) throw new UploadValidationError('tooLarge');
+};
+
+// 形式・デコード可否・長さを順に確認する。
+// OfflineAudioContext のない環境ではデコードを試せないので、形式だけを確認する
+export const validateAudioFile = async (buffer: ArrayBuffer): Promise<ValidatedAudio> => {
+  const format = detectAudioFormat(new Uint8Array(buffer, 0, Math.min(12, buffer.byteLength)));
+  if (!format) throw new UploadValidationError('unsupported');
+  if (!canDecodeAudio()) return { format, mimeType: AUDIO_MIME_TYPES[format] };
+
+  const decoded = await tryDecode(buffer);
+  const { duration } = decoded;
+  if (duration < MIN_DURATION_SECONDS) throw new UploadValidationError('tooShort');
+  if (duration > MAX_DURATION_SECONDS) throw new UploadValidationError('tooLong');
+
+  return { format, mimeType: AUDIO_MIME_TYPES[format], duration, decoded };
+};
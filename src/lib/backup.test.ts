@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_VERSION, BackupFormatError, createBackup, parseBackup, sessionsToCsv } from './backup';
+import type { Preferences } from './backup';
+import { createPreset } from './presets';
+import { DEFAULT_POMODORO_SETTINGS } from './pomodoro';
+import { DEFAULT_ALARM_SETTINGS } from './alarmSettings';
+import { DEFAULT_PLAYLIST_SETTINGS } from './playlist';
+import { DEFAULT_FOCUS_SETTINGS } from './focusSettings';
+import { DEFAULT_AMBIENT_MIX } from './ambient';
+import { DEFAULT_STUDY_ROOM_SETTINGS } from './studyRoom';
+import type { RecurringAlarm } from './recurrence';
+import type { StudySession } from './sessionHistory';
+import { createTimerInput } from '../test/timerInput';
+
+const defaults: Preferences = {
+  pomodoro: DEFAULT_POMODORO_SETTINGS,
+  alarm: DEFAULT_ALARM_SETTINGS,
+  playlist: DEFAULT_PLAYLIST_SETTINGS,
+  notificationsEnabled: false,
+  focus: DEFAULT_FOCUS_SETTINGS,
+  ambientMix: DEFAULT_AMBIENT_MIX,
+  studyRoom: DEFAULT_STUDY_ROOM_SETTINGS,
+  locale: 'ja'
+};
+
+const alarm: RecurringAlarm = {
+  id: 'r1',
+  label: '英会話',
+  time: '19:30',
+  rule: { type: 'weekly', weekdays: [1, 3], from: '2025-04-01' },
+  skipDates: ['2025-04-07'],
+  alarmSoundId: 'bell',
+  enabled: true
+};
+
+describe('parseBackup', () => {
+  it('書き出したプリセットをそのまま読み込む', () => {
+    const preset = createPreset(
+      '過去問', 'duration', createTimerInput({ duration: { hours: 0, minutes: 50, seconds: 0 } }), 'bell', 'clair-de-lune'
+    );
+    const text = JSON.stringify(createBackup(defaults, [], [], [preset], []));
+
+    expect(parseBackup(text, defaults).presets).toEqual([preset]);
+  });
+
+  it('書き出した繰り返しアラームと、集中モード・環境音・学習ルーム・言語の設定をそのまま読み込む', () => {
+    const preferences = {
+      ...defaults,
+      focus: { darkTheme: true },
+      ambientMix: { ...DEFAULT_AMBIENT_MIX, rain: 0.4 },
+      studyRoom: { enabled: true, relayUrl: 'wss://relay.example.com', room: 'ABC234' },
+      locale: 'en' as const
+    };
+    const text = JSON.stringify(createBackup(preferences, [], [], [], [alarm]));
+
+    const backup = parseBackup(text, defaults);
+    expect(backup.preferences).toEqual(preferences);
+    expect(backup.recurringAlarms).toEqual([alarm]);
+  });
+
+  it('バージョン1のファイルはプリセットなしとして読み込む', () => {
+    const backup = parseBackup(JSON.stringify({ version: 1, preferences: {}, tracks: [], sessions: [] }), defaults);
+    expect(backup.version).toBe(BACKUP_VERSION);
+    expect(backup.presets).toEqual([]);
+  });
+
+  it('バージョン2のファイルは繰り返しアラームなし、増えた設定は既定値として読み込む', () => {
+    const text = JSON.stringify({ version: 2, preferences: { notificationsEnabled: true }, presets: [] });
+    const backup = parseBackup(text, { ...defaults, locale: 'en' });
+    expect(backup.recurringAlarms).toEqual([]);
+    expect(backup.preferences).toEqual({ ...defaults, notificationsEnabled: true, locale: 'en' });
+  });
+
+  it('不正な繰り返しアラームや対応していない言語は読み込まない', () => {
+    const invalid = { version: 3, recurringAlarms: [{ ...alarm, rule: { type: 'weekly', weekdays: [7] } }] };
+    expect(() => parseBackup(JSON.stringify(invalid), defaults)).toThrow(BackupFormatError);
+    const badTime = { version: 3, recurringAlarms: [{ ...alarm, time: '25:00' }] };
+    expect(() => parseBackup(JSON.stringify(badTime), defaults)).toThrow(BackupFormatError);
+
+    const locale = parseBackup(JSON.stringify({ version: 3, preferences: { locale: 'fr' } }), defaults);
+    expect(locale.preferences.locale).toBe('ja');
+  });
+
+  it('不正なプリセットがあれば読み込まない', () => {
+    const text = JSON.stringify({ version: 2, presets: [{ id: 'p1', name: 'x', timerType: 'alarm' }] });
+    expect(() => parseBackup(text, defaults)).toThrow(BackupFormatError);
+  });
+
+  it('設定は設定画面と同じ範囲に収め、選べない値は既定値にする', () => {
+    const text = JSON.stringify({
+      version: 2,
+      preferences: {
+        pomodoro: { focusMinutes: 0, shortBreakMinutes: -5, longBreakMinutes: 999, longBreakEvery: 0 },
+        alarm: { volume: 3, fadeInSeconds: 7, snoozeMinutes: 0 },
+        playlist: { crossfadeSeconds: 1000 }
+      },
+      presets: [{
+        ...createPreset('休憩なし', 'pomodoro', createTimerInput(), 'bell', null),
+        pomodoro: { focusMinutes: 25, shortBreakMinutes: 0, longBreakMinutes: 0, longBreakEvery: 0 }
+      }]
+    });
+
+    const backup = parseBackup(text, defaults);
+    expect(backup.preferences.pomodoro).toEqual({
+      focusMinutes: 1,
+      shortBreakMinutes: 1,
+      longBreakMinutes: 120,
+      longBreakEvery: 1
+    });
+    expect(backup.preferences.alarm).toMatchObject({ volume: 1, fadeInSeconds: 0, snoozeMinutes: 1 });
+    expect(backup.preferences.playlist.crossfadeSeconds).toBe(0);
+    expect(backup.presets[0].pomodoro).toEqual({
+      focusMinutes: 25,
+      shortBreakMinutes: 1,
+      longBreakMinutes: 1,
+      longBreakEvery: 1
+    });
+  });
+
+  it('選べない繰り返しの設定があれば読み込まない', () => {
+    const text = JSON.stringify({ version: 2, preferences: { playlist: { repeat: 'forever' } } });
+    expect(() => parseBackup(text, defaults)).toThrow(BackupFormatError);
+  });
+});
+
+describe('sessionsToCsv', () => {
+  it('数式として実行されないよう、=・+・-・@ で始まるセルの先頭に \' を付ける', () => {
+    const session = (id: string, label: string, bgmTrack: string | null = null): StudySession => ({
+      id,
+      label,
+      timerType: 'duration',
+      startedAt: new Date(2025, 3, 1, 9, Number(id)).getTime(),
+      endedAt: new Date(2025, 3, 1, 10, 0).getTime(),
+      plannedMs: 60 * 60 * 1000,
+      actualMs: 60 * 60 * 1000,
+      outcome: 'completed',
+      bgmTrack
+    });
+    const csv = sessionsToCsv([
+      session('1', '=HYPERLINK("http://example.com")'),
+      session('2', '+1'),
+      session('3', '-2+3', '@SUM(A1)'),
+      session('4', 'e-mail')
+    ]);
+
+    const rows = csv.trim().split('\r\n').slice(1);
+    expect(rows[0]).toContain(',"\'=HYPERLINK(""http://example.com"")",');
+    expect(rows[1]).toContain(",'+1,");
+    expect(rows[2]).toContain(",'-2+3,");
+    expect(rows[2]).toMatch(/,'@SUM\(A1\)$/);
+    expect(rows[3]).toContain(',e-mail,');
+  });
+});
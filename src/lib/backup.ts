@@ -0,0 +1,443 @@
+import type { BGMTrack, TimerType } from '../types';
+import { MAX_POMODORO_SETTINGS } from './pomodoro';
+import type { PomodoroSettings } from './pomodoro';
+import { FADE_IN_OPTIONS, MAX_SNOOZE_MINUTES } from './alarmSettings';
+import type { AlarmSettings } from './alarmSettings';
+import { CROSSFADE_OPTIONS, REPEAT_MODES } from './playlist';
+import type { PlaylistSettings } from './playlist';
+import type { StudySession } from './sessionHistory';
+import type { TimerPreset } from './presets';
+import { parseTime } from './recurrence';
+import type { RecurringAlarm } from './recurrence';
+import type { FocusSettings } from './focusSettings';
+import { AMBIENT_SOUNDS } from './ambient';
+import type { AmbientMix } from './ambient';
+import type { StudyRoomSettings } from './studyRoom';
+import { isLocale, t } from './i18n';
+import type { Locale } from './i18n';
+
+// バックアップファイルの形式のバージョン。形式を変えたら上げて MIGRATIONS に変換を追加する
+export const BACKUP_VERSION = 3;
+
+export interface Preferences {
+  pomodoro: PomodoroSettings;
+  alarm: AlarmSettings;
+  playlist: PlaylistSettings;
+  notificationsEnabled: boolean;
+  focus: FocusSettings;
+  ambientMix: AmbientMix;
+  studyRoom: StudyRoomSettings;
+  locale: Locale;
+}
+
+// 曲の音声データは含めず、アップロード曲の曲情報だけを書き出す
+export type TrackMetadata = Omit<BGMTrack, 'filename' | 'builtIn'>;
+
+export interface Backup {
+  version: number;
+  exportedAt: string;
+  preferences: Preferences;
+  tracks: TrackMetadata[];
+  sessions: StudySession[];
+  presets: TimerPreset[];
+  recurringAlarms: RecurringAlarm[];
+}
+
+// 読み込んだファイルが不正なときに投げるエラー
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const TIMER_TYPES: TimerType[] = ['time', 'duration', 'pomodoro'];
+
+export const createBackup = (
+  preferences: Preferences,
+  tracks: BGMTrack[],
+  sessions: StudySession[],
+  presets: TimerPreset[],
+  recurringAlarms: RecurringAlarm[],
+  exportedAt = new Date()
+): Backup => ({
+  version: BACKUP_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  preferences,
+  tracks: tracks
+    .filter((track) => !track.builtIn)
+    .map(({ id, title, composer, originalName, size, type, uploadedAt, duration, coverArt }) => ({
+      id,
+      title,
+      composer,
+      originalName,
+      size,
+      type,
+      uploadedAt,
+      duration,
+      coverArt
+    })),
+  sessions,
+  presets,
+  recurringAlarms
+});
+
+// version のないファイルは、バージョン管理前の localStorage のキー（bgmTracks など）を
+// そのまま保存したものとして読み替える。値は JSON 文字列のこともあるので展開する
+const parseLegacyValue = (value: unknown): unknown => {
+  if (!isString(value)) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const migrateLegacy = (data: Json): Json => ({
+  version: 1,
+  exportedAt: new Date(0).toISOString(),
+  preferences: {
+    pomodoro: parseLegacyValue(data.pomodoroSettings),
+    alarm: parseLegacyValue(data.alarmSettings),
+    playlist: parseLegacyValue(data.playlistSettings),
+    notificationsEnabled: parseLegacyValue(data.notificationsEnabled)
+  },
+  tracks: parseLegacyValue(data.bgmTracks) ?? [],
+  sessions: parseLegacyValue(data.sessionHistory) ?? []
+});
+
+// 各バージョンから次のバージョンへの変換（キーは変換元のバージョン）
+const MIGRATIONS: Record<number, (data: Json) => Json> = {
+  0: migrateLegacy,
+  // 2: プリセットを追加
+  1: (data) => ({ ...data, version: 2, presets: [] }),
+  // 3: 繰り返しアラームと、集中モード・環境音・学習ルーム・言語の設定を追加（設定は既定値で補う）
+  2: (data) => ({ ...data, version: 3, recurringAlarms: [] })
+};
+
+const migrate = (data: Json): Json => {
+  let current = data;
+  let version = isNumber(current.version) ? current.version : 0;
+
+  if (version > BACKUP_VERSION) {
+    throw new BackupFormatError(`Unsupported backup version: ${version}`);
+  }
+  while (version < BACKUP_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new BackupFormatError(`No migration from version ${version}`);
+    current = step(current);
+    version += 1;
+  }
+  return current;
+};
+
+// 設定は欠けている項目を既定値で補い、型が違う項目があれば不正とみなす
+const validateSettings = <T extends object>(value: unknown, defaults: T, name: string): T => {
+  if (value === undefined) return defaults;
+  if (!isObject(value)) throw new BackupFormatError(`Invalid ${name}`);
+
+  const result = { ...defaults };
+  for (const key of Object.keys(defaults) as (keyof T)[]) {
+    const item = value[key as string];
+    if (item === undefined) continue;
+    if (typeof item !== typeof defaults[key]) {
+      throw new BackupFormatError(`Invalid ${name}.${String(key)}`);
+    }
+    result[key] = item as T[keyof T];
+  }
+  return result;
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+// 設定画面と同じ範囲に収める。0分のフェーズや長休憩の間隔0があると、フェーズの計算が終わらなくなる
+const validatePomodoro = (value: unknown, defaults: PomodoroSettings, name: string): PomodoroSettings => {
+  const settings = validateSettings(value, defaults, name);
+  const result = { ...settings };
+  for (const key of Object.keys(MAX_POMODORO_SETTINGS) as (keyof PomodoroSettings)[]) {
+    result[key] = clamp(Math.round(settings[key]), 1, MAX_POMODORO_SETTINGS[key]);
+  }
+  return result;
+};
+
+// 音量は0〜1、スヌーズは1分以上にし、選べないフェードインの長さは既定値に戻す
+const validateAlarm = (value: unknown, defaults: AlarmSettings): AlarmSettings => {
+  const settings = validateSettings(value, defaults, 'alarm');
+  return {
+    ...settings,
+    volume: clamp(settings.volume, 0, 1),
+    fadeInSeconds: FADE_IN_OPTIONS.includes(settings.fadeInSeconds) ? settings.fadeInSeconds : defaults.fadeInSeconds,
+    snoozeMinutes: clamp(Math.round(settings.snoozeMinutes), 1, MAX_SNOOZE_MINUTES)
+  };
+};
+
+const validatePlaylist = (value: unknown, defaults: PlaylistSettings): PlaylistSettings => {
+  const settings = validateSettings(value, defaults, 'playlist');
+  if (!REPEAT_MODES.includes(settings.repeat)) {
+    throw new BackupFormatError('Invalid playlist.repeat');
+  }
+  return {
+    ...settings,
+    crossfadeSeconds: CROSSFADE_OPTIONS.includes(settings.crossfadeSeconds)
+      ? settings.crossfadeSeconds
+      : defaults.crossfadeSeconds
+  };
+};
+
+// 環境音の音量は0〜1
+const validateAmbientMix = (value: unknown, defaults: AmbientMix): AmbientMix => {
+  const mix = validateSettings(value, defaults, 'ambientMix');
+  return Object.fromEntries(AMBIENT_SOUNDS.map((id) => [id, clamp(mix[id], 0, 1)])) as AmbientMix;
+};
+
+const validateTrack = (value: unknown, index: number): TrackMetadata => {
+  if (
+    !isObject(value) ||
+    !isString(value.id) ||
+    !isString(value.title) ||
+    !isString(value.composer)
+  ) {
+    throw new BackupFormatError(`Invalid track at index ${index}`);
+  }
+  return {
+    id: value.id,
+    title: value.title,
+    composer: value.composer,
+    originalName: isString(value.originalName) ? value.originalName : '',
+    size: isNumber(value.size) ? value.size : 0,
+    type: isString(value.type) ? value.type : '',
+    uploadedAt: isString(value.uploadedAt) ? value.uploadedAt : '',
+    duration: isNumber(value.duration) ? value.duration : undefined,
+    coverArt: isString(value.coverArt) && value.coverArt.startsWith('data:image/') ? value.coverArt : undefined
+  };
+};
+
+const validateSession = (value: unknown, index: number): StudySession => {
+  if (
+    !isObject(value) ||
+    !isString(value.id) ||
+    !isString(value.label) ||
+    !TIMER_TYPES.includes(value.timerType as TimerType) ||
+    !isNumber(value.startedAt) ||
+    !isNumber(value.endedAt) ||
+    !isNumber(value.plannedMs) ||
+    !isNumber(value.actualMs) ||
+    (value.outcome !== 'completed' && value.outcome !== 'aborted') ||
+    (value.bgmTrack !== null && !isString(value.bgmTrack))
+  ) {
+    throw new BackupFormatError(`Invalid session at index ${index}`);
+  }
+  return {
+    id: value.id,
+    label: value.label,
+    timerType: value.timerType as TimerType,
+    startedAt: value.startedAt,
+    endedAt: value.endedAt,
+    plannedMs: value.plannedMs,
+    actualMs: value.actualMs,
+    outcome: value.outcome,
+    bgmTrack: value.bgmTrack
+  };
+};
+
+const validateDuration = (value: unknown): value is TimerPreset['duration'] =>
+  isObject(value) && isNumber(value.hours) && isNumber(value.minutes) && isNumber(value.seconds);
+
+const validatePreset = (defaults: Preferences) => (value: unknown, index: number): TimerPreset => {
+  if (
+    !isObject(value) ||
+    !isString(value.id) ||
+    !isString(value.name) ||
+    !TIMER_TYPES.includes(value.timerType as TimerType) ||
+    !isString(value.targetTime) ||
+    !validateDuration(value.duration) ||
+    !isString(value.alarmSoundId) ||
+    (value.bgmTrackId !== null && !isString(value.bgmTrackId))
+  ) {
+    throw new BackupFormatError(`Invalid preset at index ${index}`);
+  }
+  return {
+    id: value.id,
+    name: value.name,
+    timerType: value.timerType as TimerType,
+    targetTime: value.targetTime,
+    tomorrow: value.tomorrow === true,
+    duration: {
+      hours: value.duration.hours,
+      minutes: value.duration.minutes,
+      seconds: value.duration.seconds
+    },
+    pomodoro: validatePomodoro(value.pomodoro, defaults.pomodoro, `presets[${index}].pomodoro`),
+    alarmSoundId: value.alarmSoundId,
+    bgmTrackId: value.bgmTrackId
+  };
+};
+
+const isDateKeyList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isWeekday = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+
+const validateRecurrenceRule = (value: unknown): RecurringAlarm['rule'] | null => {
+  if (!isObject(value)) return null;
+  if (value.type === 'dates') {
+    return isDateKeyList(value.dates) ? { type: 'dates', dates: value.dates } : null;
+  }
+  if (
+    value.type !== 'weekly' ||
+    !Array.isArray(value.weekdays) ||
+    !value.weekdays.every(isWeekday) ||
+    (value.from !== undefined && !isString(value.from)) ||
+    (value.until !== undefined && !isString(value.until))
+  ) {
+    return null;
+  }
+  return { type: 'weekly', weekdays: value.weekdays, from: value.from, until: value.until };
+};
+
+const validateRecurringAlarm = (value: unknown, index: number): RecurringAlarm => {
+  const rule = isObject(value) ? validateRecurrenceRule(value.rule) : null;
+  if (
+    !isObject(value) ||
+    !rule ||
+    !isString(value.id) ||
+    !isString(value.label) ||
+    !isString(value.time) ||
+    !parseTime(value.time) ||
+    !isDateKeyList(value.skipDates) ||
+    !isString(value.alarmSoundId) ||
+    typeof value.enabled !== 'boolean'
+  ) {
+    throw new BackupFormatError(`Invalid recurring alarm at index ${index}`);
+  }
+  return {
+    id: value.id,
+    label: value.label,
+    time: value.time,
+    rule,
+    skipDates: value.skipDates,
+    alarmSoundId: value.alarmSoundId,
+    enabled: value.enabled
+  };
+};
+
+const validateList = <T>(value: unknown, name: string, validate: (item: unknown, index: number) => T): T[] => {
+  if (!Array.isArray(value)) throw new BackupFormatError(`Invalid ${name}`);
+  return value.map(validate);
+};
+
+// 読み込んだJSONを検証し、古い形式なら現在の形式に変換して返す
+export const parseBackup = (text: string, defaults: Preferences): Backup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupFormatError('Not a JSON file');
+  }
+  if (!isObject(data)) throw new BackupFormatError('Not a backup file');
+
+  const migrated = migrate(data);
+  const preferences = migrated.preferences;
+  if (preferences !== undefined && !isObject(preferences)) {
+    throw new BackupFormatError('Invalid preferences');
+  }
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: isString(migrated.exportedAt) ? migrated.exportedAt : '',
+    preferences: {
+      pomodoro: validatePomodoro(preferences?.pomodoro, defaults.pomodoro, 'pomodoro'),
+      alarm: validateAlarm(preferences?.alarm, defaults.alarm),
+      playlist: validatePlaylist(preferences?.playlist, defaults.playlist),
+      notificationsEnabled:
+        typeof preferences?.notificationsEnabled === 'boolean'
+          ? preferences.notificationsEnabled
+          : defaults.notificationsEnabled,
+      focus: validateSettings(preferences?.focus, defaults.focus, 'focus'),
+      ambientMix: validateAmbientMix(preferences?.ambientMix, defaults.ambientMix),
+      studyRoom: validateSettings(preferences?.studyRoom, defaults.studyRoom, 'studyRoom'),
+      locale: isString(preferences?.locale) && isLocale(preferences.locale) ? preferences.locale : defaults.locale
+    },
+    tracks: validateList(migrated.tracks ?? [], 'tracks', validateTrack),
+    sessions: validateList(migrated.sessions ?? [], 'sessions', validateSession),
+    presets: validateList(migrated.presets ?? [], 'presets', validatePreset(defaults)),
+    recurringAlarms: validateList(migrated.recurringAlarms ?? [], 'recurringAlarms', validateRecurringAlarm)
+  };
+};
+
+// 読み込んだ曲情報は、音声データが保存済みの曲（IDが一致する曲）にだけ反映する
+export const mergeTrackMetadata = (
+  tracks: BGMTrack[],
+  imported: TrackMetadata[]
+): { tracks: BGMTrack[]; skipped: number } => {
+  const byId = new Map(imported.map((track) => [track.id, track]));
+  const merged = tracks.map((track) => {
+    const metadata = byId.get(track.id);
+    return metadata
+      ? { ...track, title: metadata.title, composer: metadata.composer, coverArt: metadata.coverArt ?? track.coverArt }
+      : track;
+  });
+  const knownIds = new Set(tracks.map((track) => track.id));
+  return { tracks: merged, skipped: imported.filter((track) => !knownIds.has(track.id)).length };
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const formatDateTime = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+// =・+・-・@ で始まるセルは表計算ソフトが数式として実行するので、' を付けて文字列にする
+const escapeCsv = (value: string): string => {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// 表計算ソフトで開けるよう、学習記録を開始時刻順のCSVにする
+export const sessionsToCsv = (sessions: StudySession[]): string => {
+  const header = [
+    t('csv.startedAt'),
+    t('csv.endedAt'),
+    t('csv.label'),
+    t('csv.mode'),
+    t('csv.plannedMinutes'),
+    t('csv.actualMinutes'),
+    t('csv.outcome'),
+    t('csv.bgm')
+  ];
+  const rows = [...sessions]
+    .sort((a, b) => a.startedAt - b.startedAt)
+    .map((session) => [
+      formatDateTime(session.startedAt),
+      formatDateTime(session.endedAt),
+      session.label,
+      t(`timerType.${session.timerType}`),
+      (session.plannedMs / 60000).toFixed(1),
+      (session.actualMs / 60000).toFixed(1),
+      t(session.outcome === 'completed' ? 'csv.completed' : 'csv.aborted'),
+      session.bgmTrack ?? ''
+    ]);
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+};
+
+// Excelで文字化けしないようBOMを付けてダウンロードさせる
+export const downloadFile = (content: string, filename: string, type: string): void => {
+  const bom = type.startsWith('text/csv') ? '\uFEFF' : '';
+  const url = URL.createObjectURL(new Blob([bom + content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,40 @@
+import type { BGMTrack } from '../types';
+import type { TrackLoudness } from './loudness';
+
+// public/audio に同梱しているクラシック曲（再生できるファイルだけを載せる）
+export const BUILT_IN_TRACKS: BGMTrack[] = [
+  {
+    id: 'builtin-clair-de-lune',
+    title: '月の光',
+    composer: 'クロード・ドビュッシー',
+    filename: '/audio/clair_de_lune.mp3',
+    originalName: 'clair_de_lune.mp3',
+    size: 0,
+    type: 'audio/mpeg',
+    uploadedAt: '',
+    builtIn: true
+  }
+];
+
+export const DEFAULT_TRACK = BUILT_IN_TRACKS[0];
+
+// 同梱曲は一覧に保存しないので、測った音量だけを曲の id ごとに保存しておく
+const LOUDNESS_KEY = 'builtInLoudness';
+
+export const loadBuiltInLoudness = (): Record<string, TrackLoudness> => {
+  try {
+    const saved = localStorage.getItem(LOUDNESS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Error loading built-in track loudness:', error);
+    return {};
+  }
+};
+
+export const saveBuiltInLoudness = (loudness: Record<string, TrackLoudness>): void => {
+  try {
+    localStorage.setItem(LOUDNESS_KEY, JSON.stringify(loudness));
+  } catch (error) {
+    console.error('Error saving built-in track loudness:', error);
+  }
+};
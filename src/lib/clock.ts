@@ -0,0 +1,21 @@
+// performance.now() は単調増加するため、OSの時刻補正の影響を受けない。
+// ただしスリープ中に止まる環境があるので、壁時計とのずれが大きくなったら
+// スリープ明けとみなして基準を取り直す。
+const RESYNC_THRESHOLD_MS = 1000;
+
+let anchorWall = Date.now();
+let anchorPerf = performance.now();
+
+// 壁時計（Date.now()）と同じ基準のミリ秒を返す
+export const now = (): number => {
+  const perf = performance.now();
+  const monotonic = anchorWall + (perf - anchorPerf);
+  const wall = Date.now();
+
+  if (Math.abs(wall - monotonic) > RESYNC_THRESHOLD_MS) {
+    anchorWall = wall;
+    anchorPerf = perf;
+    return wall;
+  }
+  return monotonic;
+};
@@ -0,0 +1,47 @@
+import type { PomodoroPhase } from './pomodoro';
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext => {
+  if (!audioContext) {
+    audioContext = new AudioContext();
+  }
+  return audioContext;
+};
+
+// 集中開始は上昇音、休憩開始は下降音
+const CUE_NOTES: Record<PomodoroPhase, number[]> = {
+  focus: [523.25, 659.25, 783.99],
+  shortBreak: [783.99, 659.25],
+  longBreak: [783.99, 659.25, 523.25]
+};
+
+const NOTE_LENGTH = 0.18;
+
+// フェーズ切り替えを知らせる短いチャイムを鳴らす
+export const playPhaseCue = (phase: PomodoroPhase, volume = 0.5): void => {
+  try {
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') {
+      ctx.resume();
+    }
+
+    CUE_NOTES[phase].forEach((frequency, i) => {
+      const start = ctx.currentTime + i * NOTE_LENGTH;
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(volume, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + NOTE_LENGTH * 1.5);
+
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(start);
+      oscillator.stop(start + NOTE_LENGTH * 1.5);
+    });
+  } catch (error) {
+    console.error('Error playing phase cue:', error);
+  }
+};
@@ -0,0 +1,53 @@
+const SIZE = 64;
+const LINE_WIDTH = 10;
+
+let canvas: HTMLCanvasElement | null = null;
+
+const getIconLink = (): HTMLLinkElement => {
+  let link = document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+  if (!link) {
+    link = document.createElement('link');
+    link.rel = 'icon';
+    document.head.appendChild(link);
+  }
+  return link;
+};
+
+// 元のファビコン（初めて差し替えるときに覚えておく）
+let defaultIcon: { href: string; type: string } | null = null;
+
+// 経過の割合を円弧で描いたファビコンに差し替える
+export const setProgressFavicon = (progress: number, color: string): void => {
+  canvas ??= document.createElement('canvas');
+  canvas.width = SIZE;
+  canvas.height = SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const center = SIZE / 2;
+  const radius = center - LINE_WIDTH / 2;
+  ctx.clearRect(0, 0, SIZE, SIZE);
+  ctx.lineWidth = LINE_WIDTH;
+
+  ctx.strokeStyle = '#e5e7eb';
+  ctx.beginPath();
+  ctx.arc(center, center, radius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  ctx.strokeStyle = color;
+  ctx.beginPath();
+  ctx.arc(center, center, radius, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * progress);
+  ctx.stroke();
+
+  const link = getIconLink();
+  defaultIcon ??= { href: link.href, type: link.type };
+  link.type = 'image/png';
+  link.href = canvas.toDataURL('image/png');
+};
+
+export const resetFavicon = (): void => {
+  if (!defaultIcon) return;
+  const link = getIconLink();
+  link.type = defaultIcon.type;
+  link.href = defaultIcon.href;
+};
@@ -0,0 +1,28 @@
+export interface FocusSettings {
+  // 集中モードを暗い配色で表示する
+  darkTheme: boolean;
+}
+
+export const DEFAULT_FOCUS_SETTINGS: FocusSettings = {
+  darkTheme: false
+};
+
+const SETTINGS_KEY = 'focusSettings';
+
+export const loadFocusSettings = (): FocusSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_FOCUS_SETTINGS, ...JSON.parse(saved) } : DEFAULT_FOCUS_SETTINGS;
+  } catch (error) {
+    console.error('Error loading focus settings:', error);
+    return DEFAULT_FOCUS_SETTINGS;
+  }
+};
+
+export const saveFocusSettings = (settings: FocusSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving focus settings:', error);
+  }
+};
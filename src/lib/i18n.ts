@@ -0,0 +1,60 @@
+import { ja } from '../locales/ja';
+import type { MessageKey, Messages } from '../locales/ja';
+import { en } from '../locales/en';
+
+export type { MessageKey };
+
+// 言語を追加するときはカタログを作ってここに登録する
+export const LOCALES = {
+  ja: { label: '日本語', intl: 'ja-JP', messages: ja as Messages },
+  en: { label: 'English', intl: 'en-US', messages: en }
+};
+
+export type Locale = keyof typeof LOCALES;
+
+const LOCALE_KEY = 'locale';
+
+export const isLocale = (value: string | null): value is Locale => value !== null && value in LOCALES;
+
+// 保存された言語、なければブラウザの言語（対応していなければ日本語）
+export const loadLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(saved)) return saved;
+  const browser = navigator.language.split('-')[0];
+  return isLocale(browser) ? browser : 'ja';
+};
+
+let currentLocale: Locale = loadLocale();
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => currentLocale;
+
+export const setLocale = (locale: Locale): void => {
+  currentLocale = locale;
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch (error) {
+    console.error('Error saving locale:', error);
+  }
+  document.documentElement.lang = locale;
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeLocale = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// メッセージの {name} を params の値で置き換える。訳がなければ日本語を使う
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const message = LOCALES[currentLocale].messages[key] ?? ja[key];
+  return params ? message.replace(/\{(\w+)\}/g, (match, name) => String(params[name] ?? match)) : message;
+};
+
+export const formatTime = (time: number, options?: Intl.DateTimeFormatOptions): string =>
+  new Date(time).toLocaleTimeString(LOCALES[currentLocale].intl, options);
+
+export const formatDate = (time: number, options?: Intl.DateTimeFormatOptions): string =>
+  new Date(time).toLocaleDateString(LOCALES[currentLocale].intl, options);
+
+document.documentElement.lang = currentLocale;
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { IcsFormatError, parseIcs } from './ics';
+
+const calendar = (...events: string[][]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']), 'END:VCALENDAR']
+    .join('\r\n');
+
+describe('parseIcs', () => {
+  it('毎週の授業を曜日・期間・除外日付きのアラームにする', () => {
+    const { alarms, skipped } = parseIcs(calendar([
+      'UID:math-1',
+      'SUMMARY:数学\\, 応用',
+      'DTSTART;TZID=Asia/Tokyo:20250407T183000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20250730T235959',
+      'EXDATE;TZID=Asia/Tokyo:20250505T183000,20250507T183000',
+      'BEGIN:VALARM',
+      'SUMMARY:通知',
+      'END:VALARM'
+    ]), 'bell');
+
+    expect(skipped).toBe(0);
+    expect(alarms).toEqual([{
+      id: 'ics:math-1',
+      label: '数学, 応用',
+      time: '18:30',
+      rule: { type: 'weekly', weekdays: [1, 3], from: '2025-04-07', until: '2025-07-30' },
+      skipDates: ['2025-05-05', '2025-05-07'],
+      alarmSoundId: 'bell',
+      enabled: true
+    }]);
+  });
+
+  it('1回だけ変更・取り消された回は元の日を休みにし、変更後の回を別のアラームにする', () => {
+    const { alarms, skipped } = parseIcs(calendar(
+      // 書き出すソフトによっては変更された回が先に来る
+      [
+        'UID:cram',
+        'RECURRENCE-ID;TZID=Asia/Tokyo:20250414T190000',
+        'SUMMARY:塾（振替）',
+        'DTSTART;TZID=Asia/Tokyo:20250415T200000'
+      ],
+      ['UID:cram', 'SUMMARY:塾', 'DTSTART:20250407T190000', 'RRULE:FREQ=WEEKLY;BYDAY=MO', 'EXDATE:20250505T190000'],
+      ['UID:cram', 'RECURRENCE-ID:20250421T190000', 'STATUS:CANCELLED', 'DTSTART:20250421T190000']
+    ), 'bell');
+
+    expect(skipped).toBe(0);
+    expect(alarms.map((alarm) => [alarm.id, alarm.time, alarm.rule, alarm.skipDates])).toEqual([
+      ['ics:cram:20250414T190000', '20:00', { type: 'dates', dates: ['2025-04-15'] }, []],
+      [
+        'ics:cram',
+        '19:00',
+        { type: 'weekly', weekdays: [1], from: '2025-04-07' },
+        ['2025-05-05', '2025-04-14', '2025-04-21']
+      ]
+    ]);
+  });
+
+  it('折り返した行をつなげ、COUNT から最終日を求める', () => {
+    const { alarms } = parseIcs(calendar([
+      'UID:eng',
+      'SUMMARY:英語の',
+      '  授業',
+      'DTSTART:20250408T090000',
+      'RRULE:FREQ=WEEKLY;COUNT=3'
+    ]), 'bell');
+    expect(alarms[0].label).toBe('英語の 授業');
+    expect(alarms[0].rule).toEqual({ type: 'weekly', weekdays: [2], from: '2025-04-08', until: '2025-04-22' });
+  });
+
+  it('繰り返しのない予定は名前と時刻ごとに日付指定にまとめる', () => {
+    const { alarms } = parseIcs(calendar(
+      ['UID:a', 'SUMMARY:模試', 'DTSTART:20250601T090000'],
+      ['UID:b', 'SUMMARY:模試', 'DTSTART:20250615T090000'],
+      ['UID:c', 'SUMMARY:模試', 'DTSTART:20250622T130000']
+    ), 'bell');
+    expect(alarms.map((alarm) => [alarm.id, alarm.time, alarm.rule])).toEqual([
+      ['ics:a', '09:00', { type: 'dates', dates: ['2025-06-01', '2025-06-15'] }],
+      ['ics:c', '13:00', { type: 'dates', dates: ['2025-06-22'] }]
+    ]);
+  });
+
+  it('終日の予定・対応していない繰り返し・キャンセルされた予定はスキップする', () => {
+    const { alarms, skipped } = parseIcs(calendar(
+      ['UID:a', 'SUMMARY:休み', 'DTSTART;VALUE=DATE:20250601'],
+      ['UID:b', 'SUMMARY:隔週', 'DTSTART:20250601T090000', 'RRULE:FREQ=WEEKLY;INTERVAL=2'],
+      ['UID:c', 'SUMMARY:毎月', 'DTSTART:20250601T090000', 'RRULE:FREQ=MONTHLY'],
+      ['UID:d', 'SUMMARY:中止', 'DTSTART:20250601T090000', 'STATUS:CANCELLED'],
+      ['UID:e', 'SUMMARY:毎日', 'DTSTART:20250601T070000', 'RRULE:FREQ=DAILY']
+    ), 'bell');
+    expect(skipped).toBe(4);
+    expect(alarms.map((alarm) => alarm.rule)).toEqual([
+      { type: 'weekly', weekdays: [0, 1, 2, 3, 4, 5, 6], from: '2025-06-01' }
+    ]);
+  });
+
+  it('UTC の時刻は端末の時刻に直す', () => {
+    const { alarms } = parseIcs(calendar(['UID:a', 'SUMMARY:x', 'DTSTART:20250601T090000Z']), 'bell');
+    const local = new Date(Date.UTC(2025, 5, 1, 9));
+    expect(alarms[0].time).toBe(
+      `${String(local.getHours()).padStart(2, '0')}:${String(local.getMinutes()).padStart(2, '0')}`
+    );
+  });
+
+  it('カレンダーでないファイルは読み込まない', () => {
+    expect(() => parseIcs('hello', 'bell')).toThrow(IcsFormatError);
+  });
+});
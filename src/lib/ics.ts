@@ -0,0 +1,225 @@
+import { toDateKey } from './stats';
+import type { RecurrenceRule, RecurringAlarm } from './recurrence';
+
+// iCalendar（.ics）ファイルの授業予定を繰り返しアラームに変換する。
+// 対応するのは時刻のある予定の単発・毎日・毎週（INTERVAL=1）だけで、終日の予定や
+// 隔週・毎月などの繰り返しはスキップする。TZID は端末のタイムゾーンと同じとみなす
+
+// 読み込んだファイルがカレンダーでないときに投げるエラー
+export class IcsFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IcsFormatError';
+  }
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+type IcsEvent = Map<string, Property[]>;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// COUNT の日付を探すのは10年分まで
+const MAX_COUNT_DAYS = 3660;
+
+const PROPERTY_PATTERN = /^([A-Za-z0-9-]+)((?:;[^:;]+=(?:"[^"]*"|[^:;"]*))*):(.*)$/;
+const PARAM_PATTERN = /;([^:;=]+)=("[^"]*"|[^:;"]*)/g;
+const DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/;
+
+// 折り返された行（先頭が空白の行）を前の行につなげる
+const unfold = (text: string): string[] => text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+const parseProperty = (line: string): Property | null => {
+  const match = PROPERTY_PATTERN.exec(line);
+  if (!match) return null;
+  const params: Record<string, string> = {};
+  for (const [, key, value] of match[2].matchAll(PARAM_PATTERN)) {
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([nN,;\\])/g, (_, char: string) => (char === 'n' || char === 'N' ? ' ' : char)).trim();
+
+// UTC（末尾Z）は端末の時刻に直し、それ以外はそのままローカル時刻として読む
+const parseDateTime = (value: string): { date: Date; allDay: boolean } | null => {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (hours === undefined) {
+    return { date: new Date(Number(year), Number(month) - 1, Number(day)), allDay: true };
+  }
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  return { date: utc ? new Date(Date.UTC(...parts)) : new Date(...parts), allDay: false };
+};
+
+const readEvents = (lines: string[]): IcsEvent[] => {
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | null = null;
+  // VALARM など予定の中の要素のプロパティは読まない
+  let depth = 0;
+
+  lines.forEach((line) => {
+    const property = parseProperty(line);
+    if (!property) return;
+
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT' && !current) {
+        current = new Map();
+        depth = 0;
+      } else if (current) {
+        depth += 1;
+      }
+      return;
+    }
+    if (property.name === 'END') {
+      if (current && depth === 0 && property.value.toUpperCase() === 'VEVENT') {
+        events.push(current);
+        current = null;
+      } else if (current) {
+        depth -= 1;
+      }
+      return;
+    }
+    if (current && depth === 0) {
+      current.set(property.name, [...(current.get(property.name) ?? []), property]);
+    }
+  });
+  return events;
+};
+
+const first = (event: IcsEvent, name: string): Property | undefined => event.get(name)?.[0];
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// RRULE を繰り返しの規則にする。対応していない繰り返しは null
+const parseRule = (value: string, start: Date): RecurrenceRule | null => {
+  const parts = new Map(
+    value.split(';').map((part) => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=')] as const;
+    })
+  );
+  if ((parts.get('INTERVAL') ?? '1') !== '1') return null;
+
+  let weekdays: number[];
+  const freq = parts.get('FREQ');
+  if (freq === 'DAILY') {
+    weekdays = [0, 1, 2, 3, 4, 5, 6];
+  } else if (freq === 'WEEKLY') {
+    const byDay = parts.get('BYDAY');
+    weekdays = byDay ? byDay.split(',').map((code) => WEEKDAY_CODES.indexOf(code)) : [start.getDay()];
+    // "1MO" のような何週目の指定は毎週の規則にできない
+    if (weekdays.includes(-1)) return null;
+  } else {
+    return null;
+  }
+
+  const rule: RecurrenceRule = { type: 'weekly', weekdays, from: toDateKey(start.getTime()) };
+  const until = parts.get('UNTIL');
+  const count = parts.get('COUNT');
+  if (until) {
+    const parsed = parseDateTime(until);
+    if (!parsed) return null;
+    rule.until = toDateKey(parsed.date.getTime());
+  } else if (count) {
+    // COUNT 回目の日付を最終日にする
+    let remaining = Number(count);
+    for (let i = 0; i < MAX_COUNT_DAYS && remaining > 0; i++) {
+      const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i);
+      if (!weekdays.includes(day.getDay())) continue;
+      remaining -= 1;
+      if (remaining === 0) rule.until = toDateKey(day.getTime());
+    }
+    if (remaining > 0) return null;
+  }
+  return rule;
+};
+
+// 予定を繰り返しアラームにする。IDは予定の UID（変更された回は UID と RECURRENCE-ID）から作るので、
+// 同じファイルを読み直すと置き換わる
+export const parseIcs = (text: string, alarmSoundId: string): { alarms: RecurringAlarm[]; skipped: number } => {
+  const lines = unfold(text);
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new IcsFormatError('Not an iCalendar file');
+  }
+
+  const alarms: RecurringAlarm[] = [];
+  // 繰り返しのない予定は、同じ名前・同じ時刻ごとに日付指定のアラームにまとめる
+  const singles = new Map<string, RecurringAlarm>();
+  // 繰り返しの予定（UID ごと）と、1回だけ変更・取り消された元の日付
+  const masters = new Map<string, RecurringAlarm>();
+  const overriddenDates = new Map<string, string[]>();
+  let skipped = 0;
+
+  readEvents(lines).forEach((event, index) => {
+    const uid = first(event, 'UID')?.value;
+    const recurrenceId = first(event, 'RECURRENCE-ID')?.value;
+    const original = uid && recurrenceId ? parseDateTime(recurrenceId) : null;
+    const cancelled = first(event, 'STATUS')?.value.toUpperCase() === 'CANCELLED';
+    // 1回だけ変更・取り消された回（RECURRENCE-ID つき）は、元の回を休みにして別のアラームとして扱う
+    if (uid && original) {
+      overriddenDates.set(uid, [...(overriddenDates.get(uid) ?? []), toDateKey(original.date.getTime())]);
+      if (cancelled) return;
+    }
+
+    const start = parseDateTime(first(event, 'DTSTART')?.value ?? '');
+    if (!start || start.allDay || cancelled) {
+      skipped += 1;
+      return;
+    }
+
+    const label = unescapeText(first(event, 'SUMMARY')?.value ?? '');
+    const time = `${pad(start.date.getHours())}:${pad(start.date.getMinutes())}`;
+    const id = original ? `ics:${uid}:${recurrenceId}` : `ics:${uid ?? index}`;
+    const skipDates = (event.get('EXDATE') ?? [])
+      .flatMap((property) => property.value.split(','))
+      .map((value) => parseDateTime(value))
+      .filter((parsed) => parsed !== null)
+      .map((parsed) => toDateKey(parsed.date.getTime()));
+
+    const rrule = first(event, 'RRULE');
+    if (!rrule) {
+      const key = `${label}\n${time}`;
+      const existing = singles.get(key);
+      const date = toDateKey(start.date.getTime());
+      if (existing && existing.rule.type === 'dates') {
+        existing.rule.dates.push(date);
+      } else {
+        const alarm: RecurringAlarm = {
+          id,
+          label,
+          time,
+          rule: { type: 'dates', dates: [date] },
+          skipDates: [],
+          alarmSoundId,
+          enabled: true
+        };
+        singles.set(key, alarm);
+        alarms.push(alarm);
+      }
+      return;
+    }
+
+    const rule = parseRule(rrule.value, start.date);
+    if (!rule) {
+      skipped += 1;
+      return;
+    }
+    const alarm: RecurringAlarm = { id, label, time, rule, skipDates, alarmSoundId, enabled: true };
+    alarms.push(alarm);
+    if (uid && !original) masters.set(uid, alarm);
+  });
+
+  overriddenDates.forEach((dates, uid) => {
+    const master = masters.get(uid);
+    if (master) master.skipDates = [...new Set([...master.skipDates, ...dates])];
+  });
+
+  return { alarms, skipped };
+};
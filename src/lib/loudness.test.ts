@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { TARGET_LOUDNESS_DB, getNormalizationGain, measureLoudness, perceptualVolume } from './loudness';
+
+const SAMPLE_RATE = 8000;
+
+const sine = (amplitude: number, seconds: number): Float32Array =>
+  Float32Array.from({ length: SAMPLE_RATE * seconds }, (_, i) => amplitude * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE));
+
+describe('measureLoudness', () => {
+  it('正弦波は振幅から計算した実効値の音量になる', () => {
+    const loudness = measureLoudness([sine(0.5, 2)], SAMPLE_RATE);
+    expect(loudness?.integratedDb).toBeCloseTo(20 * Math.log10(0.5 / Math.SQRT2), 1);
+    expect(loudness?.peak).toBeCloseTo(0.5, 2);
+  });
+
+  it('無音の部分と静かな部分は平均に含めない', () => {
+    const loud = sine(0.5, 2);
+    const withGaps = new Float32Array(loud.length * 3);
+    withGaps.set(loud, 0);
+    withGaps.set(sine(0.005, 2), loud.length * 2);
+
+    expect(measureLoudness([withGaps], SAMPLE_RATE)?.integratedDb).toBeCloseTo(
+      measureLoudness([loud], SAMPLE_RATE)!.integratedDb,
+      0
+    );
+  });
+
+  it('ほぼ無音なら測れない', () => {
+    expect(measureLoudness([new Float32Array(SAMPLE_RATE)], SAMPLE_RATE)).toBeUndefined();
+    expect(measureLoudness([], SAMPLE_RATE)).toBeUndefined();
+  });
+});
+
+describe('getNormalizationGain', () => {
+  it('目標の音量に合わせ、持ち上げすぎない・音を割らない', () => {
+    expect(getNormalizationGain(undefined)).toBe(1);
+    expect(getNormalizationGain({ integratedDb: TARGET_LOUDNESS_DB, peak: 0.5 })).toBeCloseTo(1);
+    expect(getNormalizationGain({ integratedDb: TARGET_LOUDNESS_DB + 6, peak: 1 })).toBeCloseTo(0.5, 2);
+    // 12dB（約4倍）まで
+    expect(getNormalizationGain({ integratedDb: -60, peak: 0.01 })).toBeCloseTo(10 ** (12 / 20));
+    // 最大の振幅が1を超えない
+    expect(getNormalizationGain({ integratedDb: TARGET_LOUDNESS_DB - 12, peak: 0.5 })).toBe(2);
+  });
+});
+
+describe('perceptualVolume', () => {
+  it('スライダーの両端はそのまま、途中はdBで等間隔になる', () => {
+    expect(perceptualVolume(0)).toBe(0);
+    expect(perceptualVolume(1)).toBe(1);
+    expect(perceptualVolume(0.5)).toBeCloseTo(0.1);
+    expect(perceptualVolume(0.75) / perceptualVolume(0.5)).toBeCloseTo(perceptualVolume(0.5) / perceptualVolume(0.25));
+  });
+});
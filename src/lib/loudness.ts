@@ -0,0 +1,93 @@
+import { canDecodeAudio, decodeAudio } from './audioDecoding';
+
+// 曲ごとの音量の違いをそろえるための解析結果
+export interface TrackLoudness {
+  // ゲーティングした平均の音量（dBFS）
+  integratedDb: number;
+  // 最大の振幅（0〜1）
+  peak: number;
+}
+
+// この音量にそろえる
+export const TARGET_LOUDNESS_DB = -18;
+// 小さい曲を持ち上げる上限・大きい曲を下げる上限
+const MAX_BOOST_DB = 12;
+const MAX_CUT_DB = 24;
+
+// ITU-R BS.1770 のゲーティングにならう（K特性のフィルターは省略）。
+// 400msのブロックを100msずつずらして測り、無音に近いブロックと静かな部分を除いて平均する
+const SUB_BLOCK_SECONDS = 0.1;
+const SUB_BLOCKS_PER_BLOCK = 4;
+const ABSOLUTE_GATE_DB = -70;
+const RELATIVE_GATE_DB = -10;
+
+// 音量スライダーの 0〜1 を何dBの幅に割り当てるか
+const VOLUME_RANGE_DB = 40;
+
+const toDb = (power: number): number => 10 * Math.log10(power);
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// チャンネルごとのサンプルから音量を測る。ほぼ無音なら undefined
+export const measureLoudness = (channels: Float32Array[], sampleRate: number): TrackLoudness | undefined => {
+  const length = channels[0]?.length ?? 0;
+  const subBlockLength = Math.max(1, Math.round(sampleRate * SUB_BLOCK_SECONDS));
+  const subBlocks: number[] = [];
+  let peak = 0;
+
+  for (let start = 0; start < length; start += subBlockLength) {
+    const end = Math.min(length, start + subBlockLength);
+    let power = 0;
+    channels.forEach((data) => {
+      let sum = 0;
+      for (let i = start; i < end; i++) {
+        sum += data[i] * data[i];
+        peak = Math.max(peak, Math.abs(data[i]));
+      }
+      power += sum / (end - start);
+    });
+    subBlocks.push(power);
+  }
+
+  // 短い曲は全体を1つのブロックとして扱う
+  const blockCount = Math.max(1, subBlocks.length - SUB_BLOCKS_PER_BLOCK + 1);
+  const blocks = Array.from({ length: blockCount }, (_, i) =>
+    mean(subBlocks.slice(i, i + SUB_BLOCKS_PER_BLOCK))
+  ).filter((power) => power > 0 && toDb(power) > ABSOLUTE_GATE_DB);
+  if (blocks.length === 0) return undefined;
+
+  const relativeGate = toDb(mean(blocks)) + RELATIVE_GATE_DB;
+  const gated = blocks.filter((power) => toDb(power) > relativeGate);
+  return { integratedDb: toDb(mean(gated)), peak };
+};
+
+// 曲にかける倍率。解析していない曲はそのまま鳴らし、持ち上げても音が割れないようにする
+export const getNormalizationGain = (loudness?: TrackLoudness): number => {
+  if (!loudness) return 1;
+  const db = Math.max(-MAX_CUT_DB, Math.min(MAX_BOOST_DB, TARGET_LOUDNESS_DB - loudness.integratedDb));
+  const gain = 10 ** (db / 20);
+  return loudness.peak > 0 ? Math.min(gain, 1 / loudness.peak) : gain;
+};
+
+// 音量スライダーの値を聞こえ方に合わせた倍率にする（dBで等間隔。0は無音）
+export const perceptualVolume = (value: number): number =>
+  value <= 0 ? 0 : 10 ** ((Math.min(1, value) - 1) * VOLUME_RANGE_DB / 20);
+
+// デコード済みの音声の音量を測る
+export const measureAudioBuffer = (audio: AudioBuffer): TrackLoudness | undefined =>
+  measureLoudness(
+    Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i)),
+    audio.sampleRate
+  );
+
+// 音声を読み込んで音量を測る。読み込めない形式・環境では undefined
+export const analyzeLoudness = async (buffer: ArrayBuffer): Promise<TrackLoudness | undefined> => {
+  if (!canDecodeAudio()) return undefined;
+
+  try {
+    return measureAudioBuffer(await decodeAudio(buffer));
+  } catch (error) {
+    console.error('Error analyzing loudness:', error);
+    return undefined;
+  }
+};
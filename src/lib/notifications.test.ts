@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { getScheduledNotifications } from './notifications';
+import type { NamedTimer } from './timers';
+import type { TimerState } from './timerState';
+
+const timer = (id: string, state: TimerState): NamedTimer => ({
+  id,
+  label: `タイマー ${id}`,
+  type: 'duration',
+  target: '00:10:00',
+  alarmSoundId: 'alarm',
+  startedAt: 0,
+  totalMs: 600000,
+  state
+});
+
+describe('getScheduledNotifications', () => {
+  it('実行中のタイマーだけを終了時刻で予約する', () => {
+    const timers = [
+      timer('1', { status: 'running', endTime: 1000 }),
+      timer('2', { status: 'paused', remainingMs: 500 }),
+      timer('3', { status: 'finished', finishedAt: 100 }),
+      timer('4', { status: 'running', endTime: 2000, pomodoro: { phase: 'focus', completedFocus: 0 } })
+    ];
+
+    expect(getScheduledNotifications(timers, '終了')).toEqual([
+      { id: '1', at: 1000, title: '終了', body: 'タイマー 1' }
+    ]);
+  });
+});
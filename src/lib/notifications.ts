@@ -0,0 +1,63 @@
+import type { NamedTimer } from './timers';
+import type { ScheduledNotification } from '../workers/serviceWorkerMessages';
+import { getActiveRegistration } from './serviceWorker';
+
+const ENABLED_KEY = 'notificationsEnabled';
+const ICON = '/icons/icon-192.png';
+
+export const isNotificationSupported = (): boolean => 'Notification' in window;
+
+// 利用者が有効にしていて、かつブラウザの許可がある場合のみ通知する
+export const loadNotificationsEnabled = (): boolean =>
+  isNotificationSupported() &&
+  Notification.permission === 'granted' &&
+  localStorage.getItem(ENABLED_KEY) === 'true';
+
+export const saveNotificationsEnabled = (enabled: boolean): void => {
+  try {
+    localStorage.setItem(ENABLED_KEY, String(enabled));
+  } catch (error) {
+    console.error('Error saving notification setting:', error);
+  }
+};
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!isNotificationSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// サービスワーカーがあればそちらから出す（モバイルでは new Notification が使えないため）。
+// 同じ tag の通知は置き換わるので、サービスワーカーが予約した通知と重ならない
+export const showNotification = (title: string, options?: NotificationOptions): void => {
+  if (!isNotificationSupported() || Notification.permission !== 'granted') return;
+
+  const registration = getActiveRegistration();
+  if (registration) {
+    registration
+      .then((reg) => reg.showNotification(title, { icon: ICON, ...options }))
+      .catch((error) => {
+        console.error('Error showing notification:', error);
+      });
+    return;
+  }
+
+  try {
+    const notification = new Notification(title, { icon: ICON, ...options });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (error) {
+    console.error('Error showing notification:', error);
+  }
+};
+
+// ページが前面にないときに備えて、終了時の通知をサービスワーカーに予約するタイマー。
+// ポモドーロはフェーズが切り替わるだけなので通知しない
+export const getScheduledNotifications = (timers: NamedTimer[], title: string): ScheduledNotification[] =>
+  timers.flatMap((timer) =>
+    timer.state.status === 'running' && !timer.state.pomodoro
+      ? [{ id: timer.id, at: timer.state.endTime, title, body: timer.label }]
+      : []
+  );
@@ -0,0 +1,66 @@
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface PlaylistSettings {
+  shuffle: boolean;
+  repeat: RepeatMode;
+  // 0でクロスフェードなし
+  crossfadeSeconds: number;
+}
+
+export const DEFAULT_PLAYLIST_SETTINGS: PlaylistSettings = {
+  shuffle: false,
+  repeat: 'all',
+  crossfadeSeconds: 0
+};
+
+export const CROSSFADE_OPTIONS = [0, 3, 5, 10];
+
+export const REPEAT_MODES: RepeatMode[] = ['off', 'all', 'one'];
+
+const SETTINGS_KEY = 'playlistSettings';
+
+export const loadPlaylistSettings = (): PlaylistSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_PLAYLIST_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PLAYLIST_SETTINGS;
+  } catch (error) {
+    console.error('Error loading playlist settings:', error);
+    return DEFAULT_PLAYLIST_SETTINGS;
+  }
+};
+
+export const savePlaylistSettings = (settings: PlaylistSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving playlist settings:', error);
+  }
+};
+
+// Fisher-Yates でシャッフルした再生順を返す
+export const shuffleIds = (ids: string[], random: () => number = Math.random): string[] => {
+  const result = [...ids];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// 再生順で step だけ前後の曲。端で折り返さない場合は null
+export const getAdjacentId = (
+  order: string[],
+  currentId: string | null,
+  step: 1 | -1,
+  wrap: boolean
+): string | null => {
+  if (order.length === 0) return null;
+
+  const index = currentId === null ? -1 : order.indexOf(currentId);
+  if (index === -1) return step === 1 ? order[0] : order[order.length - 1];
+
+  const nextIndex = index + step;
+  if (nextIndex >= 0 && nextIndex < order.length) return order[nextIndex];
+  if (!wrap) return null;
+  return order[(nextIndex + order.length) % order.length];
+};
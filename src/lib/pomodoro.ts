@@ -0,0 +1,82 @@
+export type PomodoroPhase = 'focus' | 'shortBreak' | 'longBreak';
+
+export interface PomodoroSettings {
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  // 何回の集中ごとに長休憩を入れるか
+  longBreakEvery: number;
+}
+
+export interface PomodoroProgress {
+  phase: PomodoroPhase;
+  // 完了した集中ブロックの数
+  completedFocus: number;
+}
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4
+};
+
+// 設定できる上限（下限はどれも1）
+export const MAX_POMODORO_SETTINGS: PomodoroSettings = {
+  focusMinutes: 180,
+  shortBreakMinutes: 60,
+  longBreakMinutes: 120,
+  longBreakEvery: 12
+};
+
+const SETTINGS_KEY = 'pomodoroSettings';
+
+export const loadPomodoroSettings = (): PomodoroSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_POMODORO_SETTINGS, ...JSON.parse(saved) } : DEFAULT_POMODORO_SETTINGS;
+  } catch (error) {
+    console.error('Error loading pomodoro settings:', error);
+    return DEFAULT_POMODORO_SETTINGS;
+  }
+};
+
+export const savePomodoroSettings = (settings: PomodoroSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving pomodoro settings:', error);
+  }
+};
+
+export const getPhaseDurationMs = (settings: PomodoroSettings, phase: PomodoroPhase): number => {
+  const minutes = {
+    focus: settings.focusMinutes,
+    shortBreak: settings.shortBreakMinutes,
+    longBreak: settings.longBreakMinutes
+  }[phase];
+  return minutes * 60 * 1000;
+};
+
+export const startPomodoro = (): PomodoroProgress => ({ phase: 'focus', completedFocus: 0 });
+
+// 集中の後は休憩、休憩の後は集中に進む
+export const nextPomodoroPhase = (
+  settings: PomodoroSettings,
+  progress: PomodoroProgress
+): PomodoroProgress => {
+  if (progress.phase !== 'focus') {
+    return { phase: 'focus', completedFocus: progress.completedFocus };
+  }
+  const completedFocus = progress.completedFocus + 1;
+  const phase = completedFocus % settings.longBreakEvery === 0 ? 'longBreak' : 'shortBreak';
+  return { phase, completedFocus };
+};
+
+// 現在のサイクル内で何番目の集中か（1始まり）
+export const getCycleNumber = (settings: PomodoroSettings, progress: PomodoroProgress): number => {
+  if (progress.phase === 'focus') {
+    return (progress.completedFocus % settings.longBreakEvery) + 1;
+  }
+  return ((progress.completedFocus - 1) % settings.longBreakEvery) + 1;
+};
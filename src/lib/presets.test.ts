@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createPreset, getDefaultPresetName, isPresetInputValid, movePreset } from './presets';
+import { createTimerInput } from '../test/timerInput';
+
+const presetNamed = (name: string) =>
+  ({ ...createPreset(name, 'duration', createTimerInput({ duration: { hours: 0, minutes: 15, seconds: 0 } }), 'bell', null), id: name });
+
+describe('presets', () => {
+  it('そのまま開始できる入力だけを保存できる', () => {
+    expect(isPresetInputValid('time', createTimerInput({ targetTime: '22:00' }))).toBe(true);
+    expect(isPresetInputValid('time', createTimerInput())).toBe(false);
+    expect(isPresetInputValid('duration', createTimerInput())).toBe(false);
+    expect(isPresetInputValid('pomodoro', createTimerInput())).toBe(true);
+  });
+
+  it('名前がなければ内容から名前を付ける', () => {
+    expect(getDefaultPresetName('time', createTimerInput({ targetTime: '22:00' }))).toBe('22:00まで');
+    expect(getDefaultPresetName('time', createTimerInput({ targetTime: '09:00', tomorrow: true }))).toBe('明日 09:00まで');
+    expect(getDefaultPresetName('duration', createTimerInput({ duration: { hours: 1, minutes: 30, seconds: 0 } }))).toBe('1時間30分');
+    expect(getDefaultPresetName('pomodoro', createTimerInput())).toBe('ポモドーロ 25分');
+    expect(createPreset('  ', 'time', createTimerInput({ targetTime: '22:00' }), 'bell', null).name).toBe('22:00まで');
+    expect(createPreset(' 英単語 ', 'time', createTimerInput({ targetTime: '22:00' }), 'bell', null).name).toBe('英単語');
+  });
+
+  it('前後に並べ替える（端では動かさない）', () => {
+    const presets = ['a', 'b', 'c'].map(presetNamed);
+    expect(movePreset(presets, 'c', -1).map((p) => p.id)).toEqual(['a', 'c', 'b']);
+    expect(movePreset(presets, 'a', 1).map((p) => p.id)).toEqual(['b', 'a', 'c']);
+    expect(movePreset(presets, 'a', -1)).toBe(presets);
+    expect(movePreset(presets, 'x', 1)).toBe(presets);
+  });
+});
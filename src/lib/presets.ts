@@ -0,0 +1,85 @@
+import type { TimerType } from '../types';
+import { computeTargetDate } from './timerTarget';
+import type { TimerInput } from './timerTarget';
+import { t } from './i18n';
+
+// よく使うタイマーの設定。入力欄の内容をそのまま持ち、timerType に応じた値だけを使う
+export interface TimerPreset extends TimerInput {
+  id: string;
+  name: string;
+  timerType: TimerType;
+  alarmSoundId: string;
+  // 開始時に再生するBGM。null なら今のBGMのまま
+  bgmTrackId: string | null;
+}
+
+const STORAGE_KEY = 'timerPresets';
+
+export const loadPresets = (): TimerPreset[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const presets = saved ? JSON.parse(saved) : [];
+    return Array.isArray(presets) ? presets : [];
+  } catch (error) {
+    console.error('Error loading presets:', error);
+    return [];
+  }
+};
+
+export const savePresets = (presets: TimerPreset[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error('Error saving presets:', error);
+  }
+};
+
+// そのまま開始できる入力か（時刻が空、時間が0などは保存しない）
+export const isPresetInputValid = (timerType: TimerType, input: TimerInput): boolean =>
+  computeTargetDate(timerType, input, 0) !== null;
+
+// 名前を入れなかったときの名前（例: "15分"、"22:00まで"、"明日 09:00まで"）
+export const getDefaultPresetName = (timerType: TimerType, input: TimerInput): string => {
+  if (timerType === 'time') {
+    const time = input.tomorrow ? t('timerText.tomorrow', { time: input.targetTime }) : input.targetTime;
+    return t('presets.until', { time });
+  }
+  if (timerType === 'pomodoro') return t('presets.pomodoro', { focus: input.pomodoro.focusMinutes });
+
+  const { hours, minutes, seconds } = input.duration;
+  return [
+    hours > 0 && t('presets.hours', { hours }),
+    minutes > 0 && t('presets.minutes', { minutes }),
+    seconds > 0 && t('presets.seconds', { seconds })
+  ].filter(Boolean).join('');
+};
+
+export const createPreset = (
+  name: string,
+  timerType: TimerType,
+  input: TimerInput,
+  alarmSoundId: string,
+  bgmTrackId: string | null
+): TimerPreset => ({
+  id: Date.now().toString(),
+  name: name.trim() || getDefaultPresetName(timerType, input),
+  timerType,
+  targetTime: input.targetTime,
+  tomorrow: input.tomorrow ?? false,
+  duration: { ...input.duration },
+  pomodoro: { ...input.pomodoro },
+  alarmSoundId,
+  bgmTrackId
+});
+
+// offset だけ前後に動かす（端を越える場合はそのまま）
+export const movePreset = (presets: TimerPreset[], id: string, offset: number): TimerPreset[] => {
+  const from = presets.findIndex((preset) => preset.id === id);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= presets.length) return presets;
+
+  const moved = [...presets];
+  const [preset] = moved.splice(from, 1);
+  moved.splice(to, 0, preset);
+  return moved;
+};
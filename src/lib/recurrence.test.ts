@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { describeRule, getNextOccurrence } from './recurrence';
+import type { RecurrenceRule, RecurringAlarm } from './recurrence';
+
+const alarm = (time: string, rule: RecurrenceRule, skipDates: string[] = []): RecurringAlarm => ({
+  id: 'a1',
+  label: '数学',
+  time,
+  rule,
+  skipDates,
+  alarmSoundId: 'alarm',
+  enabled: true
+});
+
+// ローカル時刻で日時を作る
+const at = (year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0) =>
+  new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+
+const MON = 1;
+const TUE = 2;
+const SUN = 0;
+
+describe('getNextOccurrence', () => {
+  // 2025年の米国東部時間は 3/9 2:00 に夏時間が始まり、11/2 2:00 に終わる
+  beforeAll(() => {
+    vi.stubEnv('TZ', 'America/New_York');
+  });
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('次の該当する曜日の時刻を返す', () => {
+    // 2025-03-05 は水曜日
+    const next = getNextOccurrence(alarm('18:00', { type: 'weekly', weekdays: [MON] }), at(2025, 3, 5, 12));
+    expect(next).toBe(at(2025, 3, 10, 18));
+  });
+
+  it('今日の時刻がまだなら今日、過ぎていれば次の週にする', () => {
+    const rule: RecurrenceRule = { type: 'weekly', weekdays: [MON] };
+    expect(getNextOccurrence(alarm('18:00', rule), at(2025, 3, 10, 17, 59))).toBe(at(2025, 3, 10, 18));
+    expect(getNextOccurrence(alarm('18:00', rule), at(2025, 3, 10, 18))).toBe(at(2025, 3, 17, 18));
+  });
+
+  it('0:00 のアラームは日付が変わった瞬間に鳴らす', () => {
+    const rule: RecurrenceRule = { type: 'weekly', weekdays: [TUE] };
+    // 月曜 23:59:30 の30秒後
+    expect(getNextOccurrence(alarm('00:00', rule), at(2025, 3, 10, 23, 59, 30))).toBe(at(2025, 3, 11));
+    // ちょうど 0:00 に鳴ったあとは翌週
+    expect(getNextOccurrence(alarm('00:00', rule), at(2025, 3, 11))).toBe(at(2025, 3, 18));
+  });
+
+  it('23:59 のアラームを日付の変わり目の前後で正しく選ぶ', () => {
+    const rule: RecurrenceRule = { type: 'weekly', weekdays: [MON] };
+    expect(getNextOccurrence(alarm('23:59', rule), at(2025, 3, 10, 23, 58))).toBe(at(2025, 3, 10, 23, 59));
+    expect(getNextOccurrence(alarm('23:59', rule), at(2025, 3, 11, 0, 0))).toBe(at(2025, 3, 17, 23, 59));
+  });
+
+  it('夏時間の開始をまたいでも同じ時刻に鳴らす（間隔は1時間短くなる）', () => {
+    const rule: RecurrenceRule = { type: 'weekly', weekdays: [SUN] };
+    const before = getNextOccurrence(alarm('09:00', rule), at(2025, 3, 1, 12))!;
+    const after = getNextOccurrence(alarm('09:00', rule), before)!;
+    expect(before).toBe(at(2025, 3, 2, 9));
+    expect(after).toBe(at(2025, 3, 9, 9));
+    expect(new Date(after).getHours()).toBe(9);
+    expect(after - before).toBe(7 * 24 * 60 * 60 * 1000 - 60 * 60 * 1000);
+  });
+
+  it('夏時間の開始で存在しない時刻は切り替え後の時刻に鳴らす', () => {
+    const next = getNextOccurrence(alarm('02:30', { type: 'weekly', weekdays: [SUN] }), at(2025, 3, 8, 12))!;
+    const date = new Date(next);
+    expect([date.getDate(), date.getHours(), date.getMinutes()]).toEqual([9, 3, 30]);
+  });
+
+  it('夏時間の終わりで2回ある時刻は1回だけ鳴らす', () => {
+    const rule: RecurrenceRule = { type: 'weekly', weekdays: [SUN] };
+    const first = getNextOccurrence(alarm('01:30', rule), at(2025, 11, 1, 12))!;
+    expect(new Date(first).getHours()).toBe(1);
+    const second = getNextOccurrence(alarm('01:30', rule), first)!;
+    expect(new Date(second).getDate()).toBe(9);
+    expect(new Date(second).getHours()).toBe(1);
+  });
+
+  it('スキップする日と期間外の日には鳴らさない', () => {
+    const rule: RecurrenceRule = { type: 'weekly', weekdays: [MON], from: '2025-03-17', until: '2025-03-31' };
+    expect(getNextOccurrence(alarm('18:00', rule), at(2025, 3, 5))).toBe(at(2025, 3, 17, 18));
+    expect(getNextOccurrence(alarm('18:00', rule, ['2025-03-17', '2025-03-24']), at(2025, 3, 5))).toBe(at(2025, 3, 31, 18));
+    expect(getNextOccurrence(alarm('18:00', rule), at(2025, 3, 31, 18))).toBeNull();
+  });
+
+  it('日付指定は残っている日付だけを使う', () => {
+    const rule: RecurrenceRule = { type: 'dates', dates: ['2025-04-01', '2025-03-20'] };
+    expect(getNextOccurrence(alarm('09:00', rule), at(2025, 3, 19))).toBe(at(2025, 3, 20, 9));
+    expect(getNextOccurrence(alarm('09:00', rule), at(2025, 3, 20, 9))).toBe(at(2025, 4, 1, 9));
+    expect(getNextOccurrence(alarm('09:00', rule), at(2025, 4, 1, 9))).toBeNull();
+  });
+
+  it('時刻が不正なら null', () => {
+    expect(getNextOccurrence(alarm('25:00', { type: 'weekly', weekdays: [MON] }), at(2025, 3, 5))).toBeNull();
+  });
+});
+
+describe('describeRule', () => {
+  it('曜日を月曜始まりで並べる', () => {
+    expect(describeRule({ type: 'weekly', weekdays: [SUN, 3, MON] })).toBe('毎週 月・水・日');
+    expect(describeRule({ type: 'weekly', weekdays: [0, 1, 2, 3, 4, 5, 6] })).toBe('毎日');
+    expect(describeRule({ type: 'dates', dates: ['2025-03-20', '2025-04-01'] })).toBe('2日');
+  });
+});
@@ -0,0 +1,108 @@
+import { toDateKey } from './stats';
+import { LOCALES, getLocale, t } from './i18n';
+
+// 繰り返しの規則。日付はローカル時刻の "YYYY-MM-DD"
+export type RecurrenceRule =
+  // 毎週の曜日（0 = 日曜日）。from〜until の間だけ鳴らす
+  | { type: 'weekly'; weekdays: number[]; from?: string; until?: string }
+  // 指定した日付だけ鳴らす
+  | { type: 'dates'; dates: string[] };
+
+// 決まった時刻に繰り返し鳴らすアラーム
+export interface RecurringAlarm {
+  id: string;
+  label: string;
+  // "HH:MM"
+  time: string;
+  rule: RecurrenceRule;
+  // 鳴らさない日付
+  skipDates: string[];
+  alarmSoundId: string;
+  enabled: boolean;
+}
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+// スキップが続いても必ず終わるよう、先を探すのは1年と少しまで
+const MAX_SEARCH_DAYS = 400;
+
+export const parseTime = (time: string): { hours: number; minutes: number } | null => {
+  const match = TIME_PATTERN.exec(time);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours > 23 || minutes > 59 ? null : { hours, minutes };
+};
+
+const matchesRule = (rule: RecurrenceRule, date: Date, key: string): boolean => {
+  if (rule.type === 'dates') return rule.dates.includes(key);
+  if (rule.from && key < rule.from) return false;
+  return rule.weekdays.includes(date.getDay());
+};
+
+const isPastRule = (rule: RecurrenceRule, key: string): boolean =>
+  rule.type === 'dates'
+    ? rule.dates.every((date) => date < key)
+    : rule.until !== undefined && key > rule.until;
+
+// after より後で最初に鳴らす時刻（ミリ秒）。もう鳴らす日がなければ null。
+// 日付は年月日で進めるので、夏時間の切り替えをまたいでも同じ時刻になる。
+// 切り替えで存在しない時刻（例: 2:30）は、Date と同じく切り替え後の時刻（3:30）に鳴らす
+export const getNextOccurrence = (alarm: RecurringAlarm, after: number): number | null => {
+  const time = parseTime(alarm.time);
+  if (!time) return null;
+
+  const start = new Date(after);
+  for (let i = 0; i <= MAX_SEARCH_DAYS; i++) {
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i);
+    const key = toDateKey(day.getTime());
+    if (isPastRule(alarm.rule, key)) return null;
+    if (!matchesRule(alarm.rule, day, key) || alarm.skipDates.includes(key)) continue;
+
+    const occurrence = new Date(day.getFullYear(), day.getMonth(), day.getDate(), time.hours, time.minutes).getTime();
+    if (occurrence > after) return occurrence;
+  }
+  return null;
+};
+
+// "YYYY-MM-DD" をその日の0時にする
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// 月曜日から並べた曜日（0 = 日曜日）
+export const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+// 曜日の短い名前（今の言語に合わせる）。2024-01-07 は日曜日
+export const getWeekdayName = (weekday: number): string =>
+  new Date(2024, 0, 7 + weekday).toLocaleDateString(LOCALES[getLocale()].intl, { weekday: 'short' });
+
+// 一覧に表示する規則の説明（例: "毎週 月・水"、"3日"）
+export const describeRule = (rule: RecurrenceRule): string => {
+  if (rule.type === 'dates') return t('recurring.datesSummary', { count: rule.dates.length });
+  if (rule.weekdays.length === 7) return t('recurring.everyDay');
+  const weekdays = WEEKDAYS.filter((weekday) => rule.weekdays.includes(weekday)).map(getWeekdayName);
+  return t('recurring.weeklySummary', { weekdays: weekdays.join(t('recurring.weekdaySeparator')) });
+};
+
+const STORAGE_KEY = 'recurringAlarms';
+
+export const loadRecurringAlarms = (): RecurringAlarm[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const alarms = saved ? JSON.parse(saved) : [];
+    return Array.isArray(alarms) ? alarms : [];
+  } catch (error) {
+    console.error('Error loading recurring alarms:', error);
+    return [];
+  }
+};
+
+export const saveRecurringAlarms = (alarms: RecurringAlarm[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(alarms));
+  } catch (error) {
+    console.error('Error saving recurring alarms:', error);
+  }
+};
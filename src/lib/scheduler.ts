@@ -0,0 +1,89 @@
+import { now } from './clock';
+import type { SchedulerWorkerMessage, SchedulerWorkerRequest } from '../workers/schedulerWorker';
+
+interface Task {
+  at: number;
+  callback: () => void;
+}
+
+const tasks = new Map<number, Task>();
+const fallbackTimers = new Map<number, ReturnType<typeof setTimeout>>();
+let nextId = 1;
+let worker: Worker | null | undefined;
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+
+  worker = null;
+  if (typeof Worker !== 'undefined') {
+    try {
+      worker = new Worker(new URL('../workers/schedulerWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<SchedulerWorkerMessage>) => {
+        if (event.data.type === 'fire') {
+          run(event.data.id, true);
+        } else {
+          checkAll();
+        }
+      };
+    } catch (error) {
+      console.error('Error starting scheduler worker:', error);
+      worker = null;
+    }
+  }
+
+  // タブが前面に戻ったとき・スリープから復帰したときに期限切れを即座に処理する
+  document.addEventListener('visibilitychange', checkAll);
+  window.addEventListener('focus', checkAll);
+  window.addEventListener('pageshow', checkAll);
+
+  return worker;
+};
+
+const post = (request: SchedulerWorkerRequest) => {
+  const target = getWorker();
+  if (target) {
+    target.postMessage(request);
+    return;
+  }
+
+  clearTimeout(fallbackTimers.get(request.id));
+  fallbackTimers.delete(request.id);
+  if (request.type === 'set') {
+    fallbackTimers.set(request.id, setTimeout(() => run(request.id, true), request.delay));
+  }
+};
+
+// タイマーは早すぎたり遅すぎたりするので、実行前に必ず時計で確認する
+const run = (id: number, fromTimer: boolean) => {
+  const task = tasks.get(id);
+  if (!task) return;
+
+  const remaining = task.at - now();
+  if (remaining > 0) {
+    if (fromTimer) {
+      post({ type: 'set', id, delay: remaining });
+    }
+    return;
+  }
+
+  tasks.delete(id);
+  post({ type: 'clear', id });
+  task.callback();
+};
+
+const checkAll = () => {
+  [...tasks.keys()].forEach((id) => run(id, false));
+};
+
+// at（clock.now() 基準のミリ秒）になったら callback を呼ぶ。戻り値で取り消せる
+export const schedule = (at: number, callback: () => void): (() => void) => {
+  const id = nextId++;
+  tasks.set(id, { at, callback });
+  post({ type: 'set', id, delay: Math.max(0, at - now()) });
+
+  return () => {
+    if (tasks.delete(id)) {
+      post({ type: 'clear', id });
+    }
+  };
+};
@@ -0,0 +1,21 @@
+import type { ScheduledNotification, ServiceWorkerRequest } from '../workers/serviceWorkerMessages';
+
+export const isServiceWorkerSupported = (): boolean =>
+  typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+// このページがサービスワーカーの管理下にあるときだけ登録情報を返す（開発サーバーでは null）
+export const getActiveRegistration = (): Promise<ServiceWorkerRegistration> | null =>
+  isServiceWorkerSupported() && navigator.serviceWorker.controller ? navigator.serviceWorker.ready : null;
+
+const post = (request: ServiceWorkerRequest): void => {
+  getActiveRegistration()
+    ?.then((registration) => registration.active?.postMessage(request))
+    .catch((error) => {
+      console.error('Error posting to service worker:', error);
+    });
+};
+
+// サービスワーカーの通知の予約を、渡した一覧で置き換える
+export const scheduleNotifications = (notifications: ScheduledNotification[]): void => {
+  post({ type: 'schedule', notifications });
+};
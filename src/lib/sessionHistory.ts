@@ -0,0 +1,96 @@
+import type { TimerType } from '../types';
+import { getRemainingMs } from './timerState';
+import type { NamedTimer } from './timers';
+
+export type SessionOutcome = 'completed' | 'aborted';
+
+// 1回分の学習記録
+export interface StudySession {
+  id: string;
+  // タイマーのラベル（科目名として集計する）
+  label: string;
+  timerType: TimerType;
+  startedAt: number;
+  endedAt: number;
+  plannedMs: number;
+  actualMs: number;
+  outcome: SessionOutcome;
+  // 再生していたBGMの曲名
+  bgmTrack: string | null;
+}
+
+const STORAGE_KEY = 'sessionHistory';
+
+export const loadSessions = (): StudySession[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const sessions = saved ? JSON.parse(saved) : [];
+    return Array.isArray(sessions) ? sessions : [];
+  } catch (error) {
+    console.error('Error loading session history:', error);
+    return [];
+  }
+};
+
+export const saveSessions = (sessions: StudySession[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    console.error('Error saving session history:', error);
+  }
+};
+
+// 他のタブで学習記録が保存されたら呼ぶ。解除する関数を返す
+export const onSessionsChanged = (callback: () => void): (() => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) callback();
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
+
+// 同じIDの記録は二重に追加しない
+export const addSession = (sessions: StudySession[], session: StudySession): StudySession[] =>
+  sessions.some((s) => s.id === session.id) ? sessions : [...sessions, session];
+
+// 時刻指定・時間指定タイマーの終了／中断を記録にする
+export const createTimerSession = (
+  timer: NamedTimer,
+  outcome: SessionOutcome,
+  endedAt: number,
+  bgmTrack: string | null
+): StudySession => {
+  const remaining = outcome === 'completed' ? 0 : getRemainingMs(timer.state, endedAt) ?? 0;
+  return {
+    id: timer.id,
+    label: timer.label,
+    timerType: timer.type,
+    startedAt: timer.startedAt,
+    endedAt,
+    plannedMs: timer.totalMs,
+    actualMs: Math.max(0, timer.totalMs - remaining),
+    outcome,
+    bgmTrack
+  };
+};
+
+// ポモドーロは集中ブロックごとに記録する
+export const createFocusSession = (
+  timer: NamedTimer,
+  focusNumber: number,
+  focusMs: number,
+  outcome: SessionOutcome,
+  endedAt: number,
+  remainingMs: number,
+  bgmTrack: string | null
+): StudySession => ({
+  id: `${timer.id}-${focusNumber}`,
+  label: timer.label,
+  timerType: timer.type,
+  startedAt: endedAt - (focusMs - remainingMs),
+  endedAt,
+  plannedMs: focusMs,
+  actualMs: Math.max(0, focusMs - remainingMs),
+  outcome,
+  bgmTrack
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { getAriaKeyShortcuts, matchShortcut } from './shortcuts';
+
+const press = (key: string, target: EventTarget | null = document.body, modifiers = {}) =>
+  matchShortcut({ key, target, ctrlKey: false, metaKey: false, altKey: false, ...modifiers });
+
+describe('matchShortcut', () => {
+  it('キーをショートカットに割り当てる', () => {
+    expect(press(' ')).toBe('toggleTimer');
+    expect(press('m')).toBe('toggleBGM');
+    expect(press('M')).toBe('toggleBGM');
+    expect(press('ArrowUp')).toBe('volumeUp');
+    expect(press('ArrowLeft')).toBe('volumeDown');
+    expect(press('f')).toBe('focusMode');
+    expect(press('?')).toBe('help');
+    expect(press('x')).toBeNull();
+  });
+
+  it('修飾キーと一緒に押したときは使わない', () => {
+    expect(press('m', document.body, { ctrlKey: true })).toBeNull();
+    expect(press(' ', document.body, { metaKey: true })).toBeNull();
+  });
+
+  it('入力欄では使わない', () => {
+    const input = document.createElement('input');
+    const select = document.createElement('select');
+    expect(press('m', input)).toBeNull();
+    expect(press('ArrowUp', select)).toBeNull();
+  });
+
+  it('ボタンやメニューの上ではスペースと矢印キーを要素に任せる', () => {
+    const button = document.createElement('button');
+    const dialog = document.createElement('div');
+    dialog.setAttribute('role', 'dialog');
+    const item = document.createElement('span');
+    dialog.appendChild(item);
+
+    expect(press(' ', button)).toBeNull();
+    expect(press('ArrowDown', item)).toBeNull();
+    expect(press('m', button)).toBe('toggleBGM');
+    expect(press('?', item)).toBe('help');
+  });
+});
+
+describe('getAriaKeyShortcuts', () => {
+  it('aria-keyshortcuts の形式で返す', () => {
+    expect(getAriaKeyShortcuts('toggleTimer')).toBe('Space');
+    expect(getAriaKeyShortcuts('volumeUp')).toBe('ArrowUp ArrowRight');
+  });
+});
@@ -0,0 +1,51 @@
+import type { MessageKey } from './i18n';
+
+export type ShortcutId = 'toggleTimer' | 'toggleBGM' | 'volumeUp' | 'volumeDown' | 'focusMode' | 'help';
+
+export interface Shortcut {
+  id: ShortcutId;
+  // KeyboardEvent.key の値
+  keys: string[];
+  // ヘルプに表示するキー
+  display: string[];
+  label: MessageKey;
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { id: 'toggleTimer', keys: [' '], display: ['Space'], label: 'shortcuts.toggleTimer' },
+  { id: 'toggleBGM', keys: ['m', 'M'], display: ['M'], label: 'shortcuts.toggleBGM' },
+  { id: 'volumeUp', keys: ['ArrowUp', 'ArrowRight'], display: ['↑', '→'], label: 'shortcuts.volumeUp' },
+  { id: 'volumeDown', keys: ['ArrowDown', 'ArrowLeft'], display: ['↓', '←'], label: 'shortcuts.volumeDown' },
+  { id: 'focusMode', keys: ['f', 'F'], display: ['F'], label: 'shortcuts.focusMode' },
+  { id: 'help', keys: ['?'], display: ['?'], label: 'shortcuts.help' }
+];
+
+// aria-keyshortcuts に渡す値
+export const getAriaKeyShortcuts = (id: ShortcutId): string =>
+  SHORTCUTS.find((shortcut) => shortcut.id === id)!.keys
+    .map((key) => (key === ' ' ? 'Space' : key))
+    .join(' ');
+
+// 文字を入力する要素では、どのショートカットも使わない
+const isEditable = (element: Element): boolean =>
+  element instanceof HTMLElement &&
+  (element.isContentEditable || element.matches('input, textarea, select'));
+
+// ボタンやメニューの上では、スペースと矢印キーを要素自身の操作に使わせる
+const OWN_KEYS_SELECTOR = 'button, a[href], summary, [role="menu"], [role="listbox"], [role="dialog"]';
+
+export const matchShortcut = (
+  event: Pick<KeyboardEvent, 'key' | 'target' | 'ctrlKey' | 'metaKey' | 'altKey'>
+): ShortcutId | null => {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+
+  const shortcut = SHORTCUTS.find(({ keys }) => keys.includes(event.key));
+  if (!shortcut) return null;
+
+  const target = event.target instanceof Element ? event.target : null;
+  if (target && isEditable(target)) return null;
+  if (target?.closest(OWN_KEYS_SELECTOR) && (event.key === ' ' || event.key.startsWith('Arrow'))) {
+    return null;
+  }
+  return shortcut.id;
+};
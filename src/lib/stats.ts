@@ -0,0 +1,147 @@
+import { t } from './i18n';
+import type { StudySession } from './sessionHistory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ローカル時刻での日付キー（YYYY-MM-DD）
+export const toDateKey = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const startOfDay = (time: number): Date => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// 週の始まり（月曜日）
+const startOfWeek = (time: number): Date => {
+  const date = startOfDay(time);
+  return addDays(date, -((date.getDay() + 6) % 7));
+};
+
+// 日付ごとの学習時間（中断したセッションも実際に勉強した分は含める）
+export const getDailyTotals = (sessions: StudySession[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  sessions.forEach((session) => {
+    const key = toDateKey(session.startedAt);
+    totals.set(key, (totals.get(key) ?? 0) + session.actualMs);
+  });
+  return totals;
+};
+
+export interface DayTotal {
+  dateKey: string;
+  date: Date;
+  totalMs: number;
+}
+
+// 今日までの直近 days 日分
+export const getRecentDays = (daily: Map<string, number>, days: number, now: number): DayTotal[] => {
+  const today = startOfDay(now);
+  return Array.from({ length: days }, (_, i) => {
+    const date = addDays(today, i - days + 1);
+    const dateKey = toDateKey(date.getTime());
+    return { dateKey, date, totalMs: daily.get(dateKey) ?? 0 };
+  });
+};
+
+export interface WeekTotal {
+  weekStart: Date;
+  totalMs: number;
+}
+
+// 今週までの直近 weeks 週分（月曜始まり）
+export const getRecentWeeks = (daily: Map<string, number>, weeks: number, now: number): WeekTotal[] => {
+  const thisWeek = startOfWeek(now);
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = addDays(thisWeek, (i - weeks + 1) * 7);
+    let totalMs = 0;
+    for (let d = 0; d < 7; d++) {
+      totalMs += daily.get(toDateKey(addDays(weekStart, d).getTime())) ?? 0;
+    }
+    return { weekStart, totalMs };
+  });
+};
+
+// カレンダーのヒートマップ用に、週ごとの列（月曜〜日曜）を返す。未来の日は null
+export const getHeatmap = (
+  daily: Map<string, number>,
+  weeks: number,
+  now: number
+): (DayTotal | null)[][] => {
+  const today = startOfDay(now).getTime();
+  return getRecentWeeks(daily, weeks, now).map(({ weekStart }) =>
+    Array.from({ length: 7 }, (_, d) => {
+      const date = addDays(weekStart, d);
+      if (date.getTime() > today) return null;
+      const dateKey = toDateKey(date.getTime());
+      return { dateKey, date, totalMs: daily.get(dateKey) ?? 0 };
+    })
+  );
+};
+
+export interface Streak {
+  current: number;
+  longest: number;
+}
+
+// 連続して勉強した日数。今日まだ勉強していなくても、昨日まで続いていれば継続中とみなす
+export const getStreak = (daily: Map<string, number>, now: number): Streak => {
+  const studied = (date: Date) => (daily.get(toDateKey(date.getTime())) ?? 0) > 0;
+
+  let current = 0;
+  let day = startOfDay(now);
+  if (!studied(day)) day = addDays(day, -1);
+  while (studied(day)) {
+    current++;
+    day = addDays(day, -1);
+  }
+
+  const keys = [...daily.entries()].filter(([, ms]) => ms > 0).map(([key]) => key).sort();
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  keys.forEach((key) => {
+    const [y, m, d] = key.split('-').map(Number);
+    const time = new Date(y, m - 1, d).getTime();
+    // 夏時間の切り替えで1日が23/25時間になっても連続とみなす
+    run = previous !== null && Math.round((time - previous) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = time;
+  });
+
+  return { current, longest: Math.max(longest, current) };
+};
+
+export interface SubjectTotal {
+  label: string;
+  totalMs: number;
+  sessions: number;
+  completed: number;
+}
+
+export const getSubjectBreakdown = (sessions: StudySession[]): SubjectTotal[] => {
+  const subjects = new Map<string, SubjectTotal>();
+  sessions.forEach((session) => {
+    const subject = subjects.get(session.label) ?? { label: session.label, totalMs: 0, sessions: 0, completed: 0 };
+    subject.totalMs += session.actualMs;
+    subject.sessions++;
+    if (session.outcome === 'completed') subject.completed++;
+    subjects.set(session.label, subject);
+  });
+  return [...subjects.values()].sort((a, b) => b.totalMs - a.totalMs);
+};
+
+export const formatStudyTime = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? t('stats.hoursMinutes', { hours, minutes: minutes % 60 }) : t('stats.minutes', { minutes });
+};
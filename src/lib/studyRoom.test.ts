@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { buildRoomUrl, createRoomCode, mergeRoomTimers, shiftTimers } from './studyRoom';
+import type { NamedTimer } from './timers';
+import type { TimerState } from './timerState';
+
+const timer = (id: string, state: TimerState): NamedTimer => ({
+  id,
+  label: id,
+  type: 'duration',
+  target: '00:25:00',
+  alarmSoundId: 'bell',
+  startedAt: 1000,
+  totalMs: 25 * 60 * 1000,
+  state
+});
+
+describe('studyRoom', () => {
+  it('時計の差だけ時刻をずらし、一時停止中の残り時間は変えない', () => {
+    const timers = [
+      timer('running', { status: 'running', endTime: 5000 }),
+      timer('paused', { status: 'paused', remainingMs: 3000 }),
+      timer('finished', { status: 'finished', finishedAt: 4000 })
+    ];
+
+    const shifted = shiftTimers(timers, 500);
+    expect(shifted.map((t) => t.startedAt)).toEqual([1500, 1500, 1500]);
+    expect(shifted.map((t) => t.state)).toEqual([
+      { status: 'running', endTime: 5500 },
+      { status: 'paused', remainingMs: 3000 },
+      { status: 'finished', finishedAt: 4500 }
+    ]);
+    expect(shiftTimers(shifted, -500)).toEqual(timers);
+  });
+
+  it('届いた一覧はタイマーごとに合わせ、同時に操作した別のタイマーの変更を残す', () => {
+    const a = timer('a', { status: 'running', endTime: 5000 });
+    const b = timer('b', { status: 'running', endTime: 6000 });
+    const gone = timer('gone', { status: 'running', endTime: 7000 });
+    const base = [a, b, gone];
+
+    const pausedA = { ...a, state: { status: 'paused', remainingMs: 3000 } } as NamedTimer;
+    const pausedB = { ...b, state: { status: 'paused', remainingMs: 4000 } } as NamedTimer;
+    const added = timer('added', { status: 'running', endTime: 8000 });
+    const recurring = { ...timer('recurring', { status: 'running', endTime: 9000 }), recurringId: 'r1' };
+    // こちらでは a を一時停止してタイマーを追加、ルームでは b を一時停止して gone を消した
+    const local = [pausedA, b, gone, added, recurring];
+    const incoming = [a, pausedB];
+
+    expect(mergeRoomTimers(local, incoming, base)).toEqual([pausedA, pausedB, added, recurring]);
+  });
+
+  it('同じタイマーを両方で変えていたら届いた方を使い、届いた繰り返しアラームのタイマーは取り込まない', () => {
+    const a = timer('a', { status: 'running', endTime: 5000 });
+    const mine = { ...a, state: { status: 'paused', remainingMs: 3000 } } as NamedTimer;
+    const theirs = { ...a, state: { status: 'finished', finishedAt: 5000 } } as NamedTimer;
+    const recurring = { ...timer('recurring', { status: 'running', endTime: 9000 }), recurringId: 'r1' };
+
+    expect(mergeRoomTimers([mine], [theirs, recurring], [a])).toEqual([theirs]);
+  });
+
+  it('ws:// と wss:// のURLにだけルームコードを付けて接続する', () => {
+    expect(buildRoomUrl('ws://localhost:8787', ' ABC234 ')).toBe('ws://localhost:8787/?room=ABC234');
+    expect(buildRoomUrl('wss://relay.example.com/rooms', '勉強会')).toBe(
+      'wss://relay.example.com/rooms?room=%E5%8B%89%E5%BC%B7%E4%BC%9A'
+    );
+    expect(buildRoomUrl('http://localhost:8787', 'ABC234')).toBeNull();
+    expect(buildRoomUrl('localhost:8787', 'ABC234')).toBeNull();
+  });
+
+  it('ルームコードは読み間違えやすい文字を使わない6文字', () => {
+    expect(createRoomCode(() => 0)).toBe('AAAAAA');
+    expect(createRoomCode(() => 0.999)).toBe('999999');
+    expect(createRoomCode()).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+  });
+});
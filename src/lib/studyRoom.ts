@@ -0,0 +1,106 @@
+import type { NamedTimer } from './timers';
+
+export interface StudyRoomSettings {
+  // 参加中は true
+  enabled: boolean;
+  // 中継サーバー（npm run relay）のURL
+  relayUrl: string;
+  // 同じルームコードの端末同士でタイマーを共有する
+  room: string;
+}
+
+export const DEFAULT_RELAY_URL = 'ws://localhost:8787';
+
+export const DEFAULT_STUDY_ROOM_SETTINGS: StudyRoomSettings = {
+  enabled: false,
+  relayUrl: DEFAULT_RELAY_URL,
+  room: ''
+};
+
+// 中継サーバーとやり取りするメッセージ。一覧の時刻は中継サーバーの時計に合わせてある
+export type RoomMessage =
+  // 接続直後に届く。timers はルームで最後に共有された一覧（まだなければ null）
+  | { type: 'welcome'; serverTime: number; timers: NamedTimer[] | null; members: number }
+  | { type: 'timers'; timers: NamedTimer[] }
+  | { type: 'members'; members: number };
+
+// 読み間違えやすい文字（0・O・1・I など）は使わない
+const ROOM_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 6;
+
+export const createRoomCode = (random: () => number = Math.random): string =>
+  Array.from({ length: ROOM_CODE_LENGTH }, () =>
+    ROOM_CODE_CHARS[Math.floor(random() * ROOM_CODE_CHARS.length)]
+  ).join('');
+
+// 接続先のURL。ws:// か wss:// でなければ null
+export const buildRoomUrl = (relayUrl: string, room: string): string | null => {
+  try {
+    const url = new URL(relayUrl.trim());
+    if (url.protocol !== 'ws:' && url.protocol !== 'wss:') return null;
+    url.searchParams.set('room', room.trim());
+    return url.toString();
+  } catch {
+    return null;
+  }
+};
+
+// 一覧の時刻を offsetMs だけずらす（端末と中継サーバーの時計の差を埋める）。
+// 一時停止中は残り時間だけを持つのでそのまま
+export const shiftTimers = (timers: NamedTimer[], offsetMs: number): NamedTimer[] =>
+  timers.map((timer) => {
+    const { state } = timer;
+    const shifted = { ...timer, startedAt: timer.startedAt + offsetMs };
+    switch (state.status) {
+      case 'running':
+        return { ...shifted, state: { ...state, endTime: state.endTime + offsetMs } };
+      case 'finished':
+      case 'missed':
+        return { ...shifted, state: { ...state, finishedAt: state.finishedAt + offsetMs } };
+      default:
+        return shifted;
+    }
+  });
+
+// ルームで共有するタイマー。繰り返しアラームのタイマーは端末ごとの予定なので共有しない
+export const getSharedTimers = (timers: NamedTimer[]): NamedTimer[] =>
+  timers.filter((timer) => !timer.recurringId);
+
+// ルームから届いた一覧をこの端末の一覧に取り込む。base は最後にルームとやり取りした一覧で、
+// そこから変わったものだけを比べて、同時に別のタイマーを操作しても互いの変更が消えないようにする。
+// 同じタイマーを両方で変えていたら、届いた方を使う
+export const mergeRoomTimers = (local: NamedTimer[], incoming: NamedTimer[], base: NamedTimer[]): NamedTimer[] => {
+  const baseById = new Map(base.map((timer) => [timer.id, JSON.stringify(timer)]));
+  const edited = (timer: NamedTimer) => JSON.stringify(timer) !== baseById.get(timer.id);
+  const shared = getSharedTimers(incoming);
+
+  const merged = shared.map((timer) => {
+    const mine = local.find((t) => t.id === timer.id);
+    return mine && edited(mine) && !edited(timer) ? mine : timer;
+  });
+  // こちらで追加したタイマーと共有しないタイマーは残す。ルームで消されたものは消す
+  const kept = local.filter((timer) =>
+    !shared.some((t) => t.id === timer.id) && (timer.recurringId || !baseById.has(timer.id))
+  );
+  return [...merged, ...kept];
+};
+
+const SETTINGS_KEY = 'studyRoom';
+
+export const loadStudyRoomSettings = (): StudyRoomSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_STUDY_ROOM_SETTINGS, ...JSON.parse(saved) } : DEFAULT_STUDY_ROOM_SETTINGS;
+  } catch (error) {
+    console.error('Error loading study room settings:', error);
+    return DEFAULT_STUDY_ROOM_SETTINGS;
+  }
+};
+
+export const saveStudyRoomSettings = (settings: StudyRoomSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving study room settings:', error);
+  }
+};
@@ -0,0 +1,98 @@
+import type { PomodoroProgress } from './pomodoro';
+
+// タイマーの状態遷移
+// idle → running ⇄ paused → finished → (dismiss) → idle
+// finished から snooze で running に戻せる
+// ポモドーロモードでは running のまま advance で次のフェーズに進む
+// ページを閉じている間に終了したタイマーは missed として復元する
+export type TimerState =
+  | { status: 'idle' }
+  | { status: 'running'; endTime: number; pomodoro?: PomodoroProgress }
+  | { status: 'paused'; remainingMs: number; pomodoro?: PomodoroProgress }
+  | { status: 'finished'; finishedAt: number }
+  | { status: 'missed'; finishedAt: number };
+
+export type TimerAction =
+  | { type: 'start'; endTime: number; pomodoro?: PomodoroProgress }
+  | { type: 'advance'; endTime: number; pomodoro: PomodoroProgress }
+  | { type: 'pause'; now: number }
+  | { type: 'resume'; now: number }
+  | { type: 'adjust'; deltaMs: number; now: number }
+  | { type: 'finish' }
+  | { type: 'snooze'; endTime: number }
+  | { type: 'stop' }
+  | { type: 'dismiss' };
+
+export const initialTimerState: TimerState = { status: 'idle' };
+
+export const timerReducer = (state: TimerState, action: TimerAction): TimerState => {
+  switch (action.type) {
+    case 'start':
+      if (state.status !== 'idle') return state;
+      return { status: 'running', endTime: action.endTime, pomodoro: action.pomodoro };
+
+    case 'advance':
+      if (state.status !== 'running') return state;
+      return { status: 'running', endTime: action.endTime, pomodoro: action.pomodoro };
+
+    case 'pause':
+      if (state.status !== 'running') return state;
+      return {
+        status: 'paused',
+        remainingMs: Math.max(0, state.endTime - action.now),
+        pomodoro: state.pomodoro
+      };
+
+    case 'resume':
+      if (state.status !== 'paused') return state;
+      return { status: 'running', endTime: action.now + state.remainingMs, pomodoro: state.pomodoro };
+
+    case 'adjust':
+      // 残り時間は0未満にしない（0になった場合は次のtickで終了する）
+      if (state.status === 'running') {
+        return { ...state, endTime: Math.max(action.now, state.endTime + action.deltaMs) };
+      }
+      if (state.status === 'paused') {
+        return { ...state, remainingMs: Math.max(0, state.remainingMs + action.deltaMs) };
+      }
+      return state;
+
+    case 'finish':
+      if (state.status !== 'running') return state;
+      return { status: 'finished', finishedAt: state.endTime };
+
+    case 'snooze':
+      if (state.status !== 'finished') return state;
+      return { status: 'running', endTime: action.endTime };
+
+    case 'stop':
+      if (state.status !== 'running' && state.status !== 'paused') return state;
+      return initialTimerState;
+
+    case 'dismiss':
+      if (state.status !== 'finished' && state.status !== 'missed') return state;
+      return initialTimerState;
+  }
+};
+
+export const getRemainingMs = (state: TimerState, now: number): number | null => {
+  switch (state.status) {
+    case 'running':
+      return Math.max(0, state.endTime - now);
+    case 'paused':
+      return state.remainingMs;
+    case 'finished':
+    case 'missed':
+      return 0;
+    case 'idle':
+      return null;
+  }
+};
+
+export const formatRemaining = (ms: number): string => {
+  const diff = Math.ceil(ms / 1000);
+  const hours = Math.floor(diff / 3600);
+  const minutes = Math.floor((diff % 3600) / 60);
+  const seconds = diff % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
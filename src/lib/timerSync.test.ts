@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createEchoGuard, requestLeadership } from './timerSync';
+import type { NamedTimer } from './timers';
+
+const timer = (id: string): NamedTimer => ({
+  id,
+  label: id,
+  type: 'duration',
+  target: '00:10:00',
+  alarmSoundId: 'bell',
+  startedAt: 0,
+  totalMs: 10 * 60 * 1000,
+  state: { status: 'running', endTime: 10 * 60 * 1000 }
+});
+
+describe('createEchoGuard', () => {
+  it('届いた一覧と同じ内容は送り返さない', () => {
+    const guard = createEchoGuard([]);
+    expect(guard.changed([])).toBe(false);
+
+    guard.received([timer('a')]);
+    expect(guard.changed([timer('a')])).toBe(false);
+    expect(guard.changed([timer('a'), timer('b')])).toBe(true);
+    // 一度送った内容はもう一度送らない
+    expect(guard.changed([timer('a'), timer('b')])).toBe(false);
+  });
+});
+
+describe('requestLeadership', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('Web Locks がなければすぐに担当になる', () => {
+    const onLeader = vi.fn();
+    requestLeadership(onLeader)();
+    expect(onLeader).toHaveBeenCalledTimes(1);
+  });
+
+  it('ロックを取れたら担当になり、解除するとロックを手放す', async () => {
+    let held: Promise<void> | null = null;
+    const request = vi.fn((_name: string, _options: LockOptions, callback: () => Promise<void>) => {
+      held = callback();
+      return held;
+    });
+    vi.stubGlobal('navigator', { ...navigator, locks: { request } });
+
+    const onLeader = vi.fn();
+    const release = requestLeadership(onLeader);
+    expect(onLeader).toHaveBeenCalledTimes(1);
+    expect(request.mock.calls[0][0]).toBe('study-timer-leader');
+
+    const settled = vi.fn();
+    held!.then(settled);
+    await Promise.resolve();
+    expect(settled).not.toHaveBeenCalled();
+
+    release();
+    await Promise.resolve();
+    expect(settled).toHaveBeenCalled();
+    expect(request.mock.calls[0][1].signal?.aborted).toBe(true);
+  });
+});
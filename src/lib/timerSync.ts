@@ -0,0 +1,58 @@
+import type { NamedTimer } from './timers';
+
+// 同じブラウザで開いているタブ同士の連絡に使うチャンネル
+export const TAB_CHANNEL_NAME = 'study-timer-sync';
+// このロックを持っているタブだけがアラーム・通知・フェーズの切り替えを担当する
+const LEADER_LOCK_NAME = 'study-timer-leader';
+
+export type TabMessage =
+  // 開いたばかりのタブが今の一覧を求める
+  | { type: 'request' }
+  | { type: 'timers'; timers: NamedTimer[] };
+
+export const isTabSyncSupported = (): boolean => typeof BroadcastChannel !== 'undefined';
+
+// 担当のタブになったら onLeader を呼ぶ。担当のタブが閉じると待っているタブの1つに引き継がれる。
+// Web Locks に対応していないブラウザではすべてのタブが担当になる（同期前と同じ動き）
+export const requestLeadership = (onLeader: () => void): (() => void) => {
+  if (!('locks' in navigator)) {
+    onLeader();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let release = () => {};
+  navigator.locks
+    .request(LEADER_LOCK_NAME, { signal: controller.signal }, () => {
+      onLeader();
+      return new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    })
+    .catch((error) => {
+      if (!controller.signal.aborted) console.error('Error requesting leadership:', error);
+    });
+
+  return () => {
+    controller.abort();
+    release();
+  };
+};
+
+// 届いた一覧をそのまま送り返さないよう、最後にやり取りした内容を覚えておく
+export const createEchoGuard = (initial: NamedTimer[]) => {
+  let last = JSON.stringify(initial);
+  return {
+    // 届いた一覧を記録する（その一覧に置き換えても送らない）
+    received: (timers: NamedTimer[]): void => {
+      last = JSON.stringify(timers);
+    },
+    // 最後にやり取りした内容から変わっていれば記録して true を返す
+    changed: (timers: NamedTimer[]): boolean => {
+      const json = JSON.stringify(timers);
+      if (json === last) return false;
+      last = json;
+      return true;
+    }
+  };
+};
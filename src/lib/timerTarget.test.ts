@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { computeTargetDate } from './timerTarget';
+import { installFakeClock } from '../test/fakeClock';
+import { createTimerInput } from '../test/timerInput';
+
+describe('computeTargetDate', () => {
+  beforeEach(() => {
+    installFakeClock(new Date(2025, 2, 10, 23, 30, 15));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('時刻指定', () => {
+    it('今日のまだ来ていない時刻を終了時刻にする', () => {
+      const target = computeTargetDate('time', createTimerInput({ targetTime: '23:45' }), Date.now());
+      expect(target).toEqual({ endTime: new Date(2025, 2, 10, 23, 45).getTime(), target: '23:45' });
+    });
+
+    it('過ぎた時刻は日付をまたいで翌日にする', () => {
+      const target = computeTargetDate('time', createTimerInput({ targetTime: '00:15' }), Date.now());
+      expect(target?.endTime).toBe(new Date(2025, 2, 11, 0, 15).getTime());
+      expect(target!.endTime - Date.now()).toBe(44 * 60 * 1000 + 45 * 1000);
+    });
+
+    it('同じ分でも秒が過ぎていれば翌日にする', () => {
+      const target = computeTargetDate('time', createTimerInput({ targetTime: '23:30' }), Date.now());
+      expect(target?.endTime).toBe(new Date(2025, 2, 11, 23, 30).getTime());
+    });
+
+    it('月末の深夜0時は翌月1日になる', () => {
+      vi.setSystemTime(new Date(2025, 2, 31, 23, 59, 59));
+      const target = computeTargetDate('time', createTimerInput({ targetTime: '00:00' }), Date.now());
+      expect(target?.endTime).toBe(new Date(2025, 3, 1, 0, 0).getTime());
+    });
+
+    it('明日を指定すると、まだ来ていない時刻でも翌日にする', () => {
+      const target = computeTargetDate('time', createTimerInput({ targetTime: '23:45', tomorrow: true }), Date.now());
+      expect(target).toEqual({ endTime: new Date(2025, 2, 11, 23, 45).getTime(), target: '明日 23:45' });
+    });
+
+    it('空や不正な時刻は null', () => {
+      expect(computeTargetDate('time', createTimerInput(), Date.now())).toBeNull();
+      expect(computeTargetDate('time', createTimerInput({ targetTime: '24:00' }), Date.now())).toBeNull();
+      expect(computeTargetDate('time', createTimerInput({ targetTime: 'abc' }), Date.now())).toBeNull();
+    });
+  });
+
+  describe('時間指定', () => {
+    it('入力した長さの後を終了時刻にする', () => {
+      const now = Date.now();
+      const target = computeTargetDate('duration', createTimerInput({ duration: { hours: 1, minutes: 2, seconds: 3 } }), now);
+      expect(target).toEqual({ endTime: now + 3723 * 1000, target: '01:02:03' });
+    });
+
+    it('24時間を超える長さも指定できる', () => {
+      const now = Date.now();
+      const target = computeTargetDate('duration', createTimerInput({ duration: { hours: 72, minutes: 0, seconds: 0 } }), now);
+      expect(target).toEqual({ endTime: now + 72 * 3600 * 1000, target: '72:00:00' });
+    });
+
+    it('0秒は null', () => {
+      expect(computeTargetDate('duration', createTimerInput(), Date.now())).toBeNull();
+    });
+  });
+
+  it('ポモドーロは最初の集中ブロックの終了時刻を返す', () => {
+    const now = Date.now();
+    const target = computeTargetDate('pomodoro', createTimerInput(), now);
+    expect(target?.endTime).toBe(now + 25 * 60 * 1000);
+    expect(target?.pomodoro).toEqual({ phase: 'focus', completedFocus: 0 });
+  });
+});
@@ -0,0 +1,77 @@
+import type { TimerType } from '../types';
+import { formatRemaining } from './timerState';
+import { getPhaseDurationMs, startPomodoro } from './pomodoro';
+import type { PomodoroProgress, PomodoroSettings } from './pomodoro';
+import { t } from './i18n';
+
+export interface DurationInput {
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+// タイマー作成フォームの入力内容
+export interface TimerInput {
+  // 時刻指定の "HH:MM"
+  targetTime: string;
+  // true なら明日のその時刻（"明日 9:00" と入力したとき）
+  tomorrow?: boolean;
+  duration: DurationInput;
+  pomodoro: PomodoroSettings;
+}
+
+export interface TimerTarget {
+  // clock.now() 基準の終了時刻
+  endTime: number;
+  // 一覧に表示する指定内容（例: "10:40"、"00:25:00"）
+  target: string;
+  pomodoro?: PomodoroProgress;
+}
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+// 入力から終了時刻を求める。入力が足りない・不正なときは null。
+// 時刻指定で今日の時刻が過ぎていれば翌日の同じ時刻にする（明日を指定したときは常に翌日）
+export const computeTargetDate = (
+  timerType: TimerType,
+  input: TimerInput,
+  now: number
+): TimerTarget | null => {
+  if (timerType === 'pomodoro') {
+    const pomodoro = startPomodoro();
+    return {
+      endTime: now + getPhaseDurationMs(input.pomodoro, pomodoro.phase),
+      target: t('form.pomodoroTarget', {
+        focus: input.pomodoro.focusMinutes,
+        shortBreak: input.pomodoro.shortBreakMinutes,
+        longBreak: input.pomodoro.longBreakMinutes
+      }),
+      pomodoro
+    };
+  }
+
+  if (timerType === 'time') {
+    const match = TIME_PATTERN.exec(input.targetTime);
+    if (!match) return null;
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+
+    const targetDate = new Date(now);
+    targetDate.setHours(hours, minutes, 0, 0);
+    if (input.tomorrow || targetDate.getTime() < now) {
+      // 日付で進めるので、夏時間の切り替えがあっても同じ時刻になる
+      targetDate.setDate(targetDate.getDate() + 1);
+      targetDate.setHours(hours, minutes, 0, 0);
+    }
+    return {
+      endTime: targetDate.getTime(),
+      target: input.tomorrow ? t('timerText.tomorrow', { time: input.targetTime }) : input.targetTime
+    };
+  }
+
+  const { hours, minutes, seconds } = input.duration;
+  const totalMs = ((hours * 3600) + (minutes * 60) + seconds) * 1000;
+  if (totalMs <= 0) return null;
+  return { endTime: now + totalMs, target: formatRemaining(totalMs) };
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { formatTimerText, parseTimerText } from './timerText';
+import type { ParsedTimerText } from './timerText';
+
+const duration = (hours: number, minutes: number, seconds = 0): ParsedTimerText =>
+  ({ type: 'duration', duration: { hours, minutes, seconds } });
+
+const time = (targetTime: string, tomorrow = false): ParsedTimerText => ({ type: 'time', targetTime, tomorrow });
+
+const value = (text: string, mode: 'time' | 'duration' = 'duration') => {
+  const result = parseTimerText(text, mode);
+  return result.ok ? result.value : result.error;
+};
+
+describe('parseTimerText', () => {
+  describe('長さ', () => {
+    it('単位つきの長さを読む', () => {
+      expect(value('90m')).toEqual(duration(1, 30));
+      expect(value('1h30m15s')).toEqual(duration(1, 30, 15));
+      expect(value('45 sec')).toEqual(duration(0, 0, 45));
+      expect(value('2 hours 5 minutes')).toEqual(duration(2, 5));
+      expect(value('1時間30分')).toEqual(duration(1, 30));
+      expect(value('1.5h')).toEqual(duration(1, 30));
+    });
+
+    it('末尾の単位のない数字は次の単位とみなす', () => {
+      expect(value('1h30')).toEqual(duration(1, 30));
+      expect(value('1h 30')).toEqual(duration(1, 30));
+      expect(value('5m30')).toEqual(duration(0, 5, 30));
+      expect(value('1d12')).toEqual(duration(36, 0));
+    });
+
+    it('24時間を超える長さや日数も指定できる', () => {
+      expect(value('3d')).toEqual(duration(72, 0));
+      expect(value('1d 2h')).toEqual(duration(26, 0));
+      expect(value('30h')).toEqual(duration(30, 0));
+      expect(value('2日')).toEqual(duration(48, 0));
+    });
+
+    it('コロン区切りを読む（3つなら時:分:秒、時間指定の2つは時:分）', () => {
+      expect(value('2:15:00')).toEqual(duration(2, 15));
+      expect(value('2:15:00', 'time')).toEqual(duration(2, 15));
+      expect(value('1:30')).toEqual(duration(1, 30));
+      expect(value('36:00:00')).toEqual(duration(36, 0));
+      expect(value('1:75')).toBe('invalid');
+    });
+
+    it('時間指定で単位のない数字は分', () => {
+      expect(value('25')).toEqual(duration(0, 25));
+      expect(value('1.5')).toEqual(duration(0, 1, 30));
+    });
+
+    it('全角や大文字でも読む', () => {
+      expect(value('９０Ｍ')).toEqual(duration(1, 30));
+      expect(value('１：３０：００')).toEqual(duration(1, 30));
+    });
+
+    it('0や長すぎる時間はエラー', () => {
+      expect(value('0')).toBe('zero');
+      expect(value('0h0m')).toBe('zero');
+      expect(value('14d')).toEqual(duration(336, 0));
+      expect(value('15d')).toBe('tooLong');
+    });
+  });
+
+  describe('時刻', () => {
+    it('時刻指定で "H:MM" や単位のない数字は時刻', () => {
+      expect(value('14:05', 'time')).toEqual(time('14:05'));
+      expect(value('9:00', 'time')).toEqual(time('09:00'));
+      expect(value('9', 'time')).toEqual(time('09:00'));
+      expect(value('24:00', 'time')).toBe('invalidTime');
+      expect(value('25', 'time')).toBe('invalidTime');
+    });
+
+    it('until や まで はモードに関係なく時刻', () => {
+      expect(value('until 14:05')).toEqual(time('14:05'));
+      expect(value('by 9')).toEqual(time('09:00'));
+      expect(value('14:05まで')).toEqual(time('14:05'));
+      expect(value('until later')).toBe('invalidTime');
+    });
+
+    it('明日の時刻を読む', () => {
+      expect(value('tomorrow 9:00')).toEqual(time('09:00', true));
+      expect(value('Tomorrow 7am', 'time')).toEqual(time('07:00', true));
+      expect(value('明日 9:00')).toEqual(time('09:00', true));
+      expect(value('明日の9時まで')).toEqual(time('09:00', true));
+      expect(value('until tomorrow 6:30')).toEqual(time('06:30', true));
+      expect(value('tomorrow')).toBe('invalidTime');
+    });
+
+    it('午前・午後や「時」の書き方を読む', () => {
+      expect(value('2pm')).toEqual(time('14:00'));
+      expect(value('12am', 'time')).toEqual(time('00:00'));
+      expect(value('12:30 p.m.')).toEqual(time('12:30'));
+      expect(value('午後2時')).toEqual(time('14:00'));
+      expect(value('9時半')).toEqual(time('09:30'));
+      expect(value('21時15分')).toEqual(time('21:15'));
+      expect(value('13pm')).toBe('invalid');
+    });
+  });
+
+  it('空や読めない入力はエラー', () => {
+    expect(value('')).toBe('empty');
+    expect(value('   ', 'time')).toBe('empty');
+    expect(value('abc')).toBe('invalid');
+    expect(value('1s30')).toBe('invalid');
+    expect(value('h30')).toBe('invalid');
+  });
+});
+
+describe('formatTimerText', () => {
+  it('読み直すと同じ内容になる文字列にする', () => {
+    const values = [duration(1, 30), duration(0, 0, 45), duration(74, 5, 1), time('14:05'), time('09:00', true)];
+    values.forEach((parsed) => {
+      const text = formatTimerText(parsed);
+      expect(parseTimerText(text, parsed.type)).toEqual({ ok: true, value: parsed });
+    });
+    expect(formatTimerText(duration(74, 5, 1))).toBe('3d2h5m1s');
+    expect(formatTimerText(time('09:00', true))).toBe('明日 09:00');
+  });
+});
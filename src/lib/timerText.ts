@@ -0,0 +1,173 @@
+import type { DurationInput } from './timerTarget';
+import { t } from './i18n';
+
+// 入力欄の文字列から読み取った内容
+export type ParsedTimerText =
+  // tomorrow が false なら今日の時刻（過ぎていれば翌日になる）
+  | { type: 'time'; targetTime: string; tomorrow: boolean }
+  | { type: 'duration'; duration: DurationInput };
+
+export type TimerTextError = 'empty' | 'invalid' | 'invalidTime' | 'zero' | 'tooLong';
+
+export type TimerTextResult =
+  | { ok: true; value: ParsedTimerText }
+  | { ok: false; error: TimerTextError };
+
+// これより長い時間は指定できない（ブラウザのタイマーは約24日までしか待てない）
+export const MAX_DURATION_DAYS = 14;
+
+const UNIT_SECONDS = {
+  d: 86400,
+  h: 3600,
+  m: 60,
+  s: 1
+} as const;
+type Unit = keyof typeof UNIT_SECONDS;
+
+// 単位のつづり。長いものから順に試す
+const UNIT_PATTERN = /(\d+(?:\.\d+)?)\s*(days?|d|日|hours?|hrs?|h|時間|minutes?|mins?|m|分|seconds?|secs?|s|秒)\s*/y;
+const UNIT_ALIASES: Record<string, Unit> = {
+  day: 'd', days: 'd', d: 'd', 日: 'd',
+  hour: 'h', hours: 'h', hr: 'h', hrs: 'h', h: 'h', 時間: 'h',
+  minute: 'm', minutes: 'm', min: 'm', mins: 'm', m: 'm', 分: 'm',
+  second: 's', seconds: 's', sec: 's', secs: 's', s: 's', 秒: 's'
+};
+// 末尾の単位のない数字は、直前の単位の次の単位とみなす（"1h30" は1時間30分）
+const NEXT_UNIT: Record<Unit, Unit | null> = { d: 'h', h: 'm', m: 's', s: null };
+
+const COLON_PATTERN = /^(\d+):(\d{1,2})(?::(\d{1,2}))?$/;
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?$/;
+const CLOCK_PATTERN = /^(\d{1,2})(?::(\d{2})|時(?:(\d{1,2})分|半)?)?$/;
+const TOMORROW_PATTERN = /^(?:tomorrow|tmr|明日|あした)\s*の?\s*/;
+const UNTIL_PREFIX_PATTERN = /^(?:until|till|by|at)\s+/;
+const UNTIL_SUFFIX_PATTERN = /\s*まで$/;
+const MERIDIEM_PREFIX_PATTERN = /^(午前|午後)\s*/;
+const MERIDIEM_SUFFIX_PATTERN = /\s*(a\.?m\.?|p\.?m\.?)$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const ok = (value: ParsedTimerText): TimerTextResult => ({ ok: true, value });
+const fail = (error: TimerTextError): TimerTextResult => ({ ok: false, error });
+
+// "14:05"、"9時半"、"午後2時"、"2pm" などを "HH:MM" にする。読めなければ null
+const parseClock = (text: string): string | null => {
+  let rest = text;
+  let meridiem: 'am' | 'pm' | null = null;
+  const prefix = MERIDIEM_PREFIX_PATTERN.exec(rest);
+  const suffix = MERIDIEM_SUFFIX_PATTERN.exec(rest);
+  if (prefix) {
+    meridiem = prefix[1] === '午前' ? 'am' : 'pm';
+    rest = rest.slice(prefix[0].length);
+  } else if (suffix) {
+    meridiem = suffix[1].startsWith('a') ? 'am' : 'pm';
+    rest = rest.slice(0, suffix.index);
+  }
+
+  const match = CLOCK_PATTERN.exec(rest);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = match[0].endsWith('半') ? 30 : Number(match[2] ?? match[3] ?? 0);
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+  return `${pad(hours)}:${pad(minutes)}`;
+};
+
+// "1h30m"、"90分"、"1.5h"、"1d 2h" などの単位つきの長さ（秒）。読めなければ null
+const parseUnits = (text: string): number | null => {
+  let total = 0;
+  let position = 0;
+  let lastUnit: Unit | null = null;
+  let match: RegExpExecArray | null;
+  UNIT_PATTERN.lastIndex = 0;
+  while ((match = UNIT_PATTERN.exec(text))) {
+    lastUnit = UNIT_ALIASES[match[2]];
+    total += Number(match[1]) * UNIT_SECONDS[lastUnit];
+    position = UNIT_PATTERN.lastIndex;
+  }
+  if (!lastUnit) return null;
+
+  const rest = text.slice(position);
+  if (rest === '') return total;
+  const next = NEXT_UNIT[lastUnit];
+  return next && /^\d+$/.test(rest) ? total + Number(rest) * UNIT_SECONDS[next] : null;
+};
+
+const toDuration = (totalSeconds: number): TimerTextResult => {
+  const seconds = Math.round(totalSeconds);
+  if (seconds <= 0) return fail('zero');
+  if (seconds > MAX_DURATION_DAYS * UNIT_SECONDS.d) return fail('tooLong');
+  return ok({
+    type: 'duration',
+    duration: {
+      hours: Math.floor(seconds / 3600),
+      minutes: Math.floor((seconds % 3600) / 60),
+      seconds: seconds % 60
+    }
+  });
+};
+
+const toTime = (text: string, tomorrow: boolean): TimerTextResult => {
+  const targetTime = parseClock(text);
+  return targetTime ? ok({ type: 'time', targetTime, tomorrow }) : fail('invalidTime');
+};
+
+// タイマーの入力欄の文字列を読み取る。mode は選んでいるモードで、
+// どちらとも読める "1:30" や "15" の解釈に使う（時刻指定なら時刻、時間指定なら長さ）。
+// "until 14:05"・"明日 9:00" は時刻、"90m"・"2:15:00"・"3d" は長さとして、モードに関係なく読む
+export const parseTimerText = (text: string, mode: 'time' | 'duration'): TimerTextResult => {
+  // 全角の数字や記号も受け付ける
+  const normalized = text.normalize('NFKC').toLowerCase().trim().replace(/\s+/g, ' ');
+  if (normalized === '') return fail('empty');
+
+  // "until 14:05"、"14:05まで"、"明日 9:00" は時刻
+  const untilPrefix = UNTIL_PREFIX_PATTERN.exec(normalized);
+  const rest = untilPrefix
+    ? normalized.slice(untilPrefix[0].length)
+    : normalized.replace(UNTIL_SUFFIX_PATTERN, '');
+  const tomorrow = TOMORROW_PATTERN.exec(rest);
+  if (tomorrow) return toTime(rest.slice(tomorrow[0].length), true);
+  if (rest !== normalized) return toTime(rest, false);
+
+  const colon = COLON_PATTERN.exec(normalized);
+  if (colon) {
+    const [, first, second, third] = colon;
+    if (third === undefined && mode === 'time') return toTime(normalized, false);
+    // "2:15:00" は時:分:秒、時間指定の "1:30" は時:分
+    const [hours, minutes, seconds] = [Number(first), Number(second), Number(third ?? 0)];
+    if (minutes > 59 || seconds > 59) return fail('invalid');
+    return toDuration(hours * 3600 + minutes * 60 + seconds);
+  }
+
+  if (NUMBER_PATTERN.test(normalized)) {
+    // 単位のない数字は、時刻指定なら「何時」、時間指定なら「何分」
+    return mode === 'time' ? toTime(normalized, false) : toDuration(Number(normalized) * 60);
+  }
+
+  const units = parseUnits(normalized);
+  if (units !== null) return toDuration(units);
+
+  // "9時"、"2pm" のように時刻としか読めないもの
+  const clock = parseClock(normalized);
+  return clock ? ok({ type: 'time', targetTime: clock, tomorrow: false }) : fail('invalid');
+};
+
+// 読み取った内容を入力欄に戻すときの文字列（例: "1h30m"、"14:05"、"明日 09:00"）
+export const formatTimerText = (value: ParsedTimerText): string => {
+  if (value.type === 'time') {
+    return value.tomorrow ? t('timerText.tomorrow', { time: value.targetTime }) : value.targetTime;
+  }
+
+  const { hours, minutes, seconds } = value.duration;
+  const days = Math.floor(hours / 24);
+  return [
+    days > 0 && `${days}d`,
+    hours % 24 > 0 && `${hours % 24}h`,
+    minutes > 0 && `${minutes}m`,
+    seconds > 0 && `${seconds}s`
+  ].filter(Boolean).join('');
+};
@@ -0,0 +1,138 @@
+import type { TimerType } from '../types';
+import { getRemainingMs, timerReducer } from './timerState';
+import type { TimerAction, TimerState } from './timerState';
+import { getPhaseDurationMs } from './pomodoro';
+import type { PomodoroSettings } from './pomodoro';
+
+// 同時に動かせる名前付きタイマー
+export interface NamedTimer {
+  id: string;
+  label: string;
+  type: TimerType;
+  // 作成時に指定した内容の表示用（例: "10:40"、"00:25:00"）
+  target: string;
+  alarmSoundId: string;
+  startedAt: number;
+  // 予定の長さ（時間調整を含む。ポモドーロの進捗は各フェーズの長さを使う）
+  totalMs: number;
+  // スヌーズで再開したタイマー（学習記録には含めない）
+  snoozed?: boolean;
+  // 繰り返しアラームの1回分として作ったタイマー（学習記録には含めない）
+  recurringId?: string;
+  state: TimerState;
+}
+
+export type TimersAction =
+  | { type: 'add'; timer: NamedTimer }
+  | { type: 'update'; id: string; action: TimerAction }
+  | { type: 'snooze'; id: string; now: number; durationMs: number }
+  // 他のタブ・端末から届いた一覧に置き換える
+  | { type: 'replace'; timers: NamedTimer[] };
+
+// 停止・アラーム解除で待機状態に戻ったタイマーは一覧から外す
+export const timersReducer = (timers: NamedTimer[], action: TimersAction): NamedTimer[] => {
+  switch (action.type) {
+    case 'add':
+      return [...timers, action.timer];
+
+    case 'update':
+      return timers.flatMap((timer) => {
+        if (timer.id !== action.id) return [timer];
+        const state = timerReducer(timer.state, action.action);
+        if (state === timer.state) return [timer];
+        if (state.status === 'idle') return [];
+
+        // 時間調整は予定の長さにも反映する
+        if (action.action.type === 'adjust') {
+          const before = getRemainingMs(timer.state, action.action.now) ?? 0;
+          const after = getRemainingMs(state, action.action.now) ?? 0;
+          return [{ ...timer, totalMs: timer.totalMs + after - before, state }];
+        }
+        return [{ ...timer, state }];
+      });
+
+    case 'snooze':
+      // スヌーズ後はスヌーズの長さを基準に進捗を表示する
+      return timers.map((timer) => {
+        if (timer.id !== action.id) return timer;
+        const state = timerReducer(timer.state, { type: 'snooze', endTime: action.now + action.durationMs });
+        return state === timer.state ? timer : { ...timer, totalMs: action.durationMs, snoozed: true, state };
+      });
+
+    case 'replace':
+      return action.timers;
+  }
+};
+
+// 次に終了する時刻。鳴っているもの・見逃したものを先頭に、一時停止中は残り時間順で実行中の後ろに並べる
+const getSortKey = (timer: NamedTimer): [number, number] => {
+  switch (timer.state.status) {
+    case 'finished':
+    case 'missed':
+      return [0, timer.state.finishedAt];
+    case 'running':
+      return [1, timer.state.endTime];
+    case 'paused':
+      return [2, timer.state.remainingMs];
+    case 'idle':
+      return [3, 0];
+  }
+};
+
+export const sortByNextExpiry = (timers: NamedTimer[]): NamedTimer[] =>
+  [...timers].sort((a, b) => {
+    const [groupA, valueA] = getSortKey(a);
+    const [groupB, valueB] = getSortKey(b);
+    return groupA - groupB || valueA - valueB;
+  });
+
+// 経過の割合（0〜1）。終了済みは1、進捗を計算できない場合は null
+export const getTimerProgress = (
+  timer: NamedTimer,
+  settings: PomodoroSettings,
+  now: number
+): number | null => {
+  const { state } = timer;
+  if (state.status === 'finished' || state.status === 'missed') return 1;
+  if (state.status === 'idle') return null;
+
+  const total = state.pomodoro ? getPhaseDurationMs(settings, state.pomodoro.phase) : timer.totalMs;
+  if (!total) return null;
+  const remaining = getRemainingMs(state, now) ?? 0;
+  return Math.min(1, Math.max(0, 1 - remaining / total));
+};
+
+const STORAGE_KEY = 'activeTimers';
+
+export const saveTimers = (timers: NamedTimer[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(timers));
+  } catch (error) {
+    console.error('Error saving timers:', error);
+  }
+};
+
+// 保存したタイマーを復元する。閉じている間に終了したタイマーは missed にする。
+// ポモドーロは終了しないので running のまま戻し、フェーズの追いつきはスケジューラーに任せる
+export const restoreTimers = (now: number, onExpired?: (timer: NamedTimer) => void): NamedTimer[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const timers: NamedTimer[] = saved ? JSON.parse(saved) : [];
+    if (!Array.isArray(timers)) return [];
+
+    return timers.map((timer) => {
+      const { state } = timer;
+      if (state.status === 'finished') {
+        return { ...timer, state: { status: 'missed', finishedAt: state.finishedAt } };
+      }
+      if (state.status === 'running' && !state.pomodoro && state.endTime <= now) {
+        onExpired?.(timer);
+        return { ...timer, state: { status: 'missed', finishedAt: state.endTime } };
+      }
+      return timer;
+    });
+  } catch (error) {
+    console.error('Error restoring timers:', error);
+    return [];
+  }
+};
@@ -0,0 +1,36 @@
+import type { BGMTrack } from '../types';
+import { readAudioTags } from './audioTags';
+import { t } from './i18n';
+
+const COVER_SIZE = 128;
+
+// 曲情報と一緒に localStorage に保存できるよう、カバー画像を小さなJPEGのデータURLにする
+export const createCoverThumbnail = async (image: Blob): Promise<string | undefined> => {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, COVER_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch (error) {
+    console.error('Error creating cover thumbnail:', error);
+    return undefined;
+  }
+};
+
+// アップロードされたファイルのタグから曲情報を作る。タグがなければファイル名を曲名にする
+export const readTrackInfo = async (
+  fileName: string,
+  buffer: ArrayBuffer
+): Promise<Pick<BGMTrack, 'title' | 'composer' | 'duration' | 'coverArt'>> => {
+  const tags = readAudioTags(buffer);
+  return {
+    title: tags.title ?? fileName.split('.')[0],
+    composer: tags.composer ?? tags.artist ?? t('bgm.unknownComposer'),
+    duration: tags.duration,
+    coverArt: tags.picture ? await createCoverThumbnail(tags.picture) : undefined
+  };
+};
@@ -0,0 +1,142 @@
+import type { BGMTrack } from '../types';
+
+const DB_NAME = 'study-timer';
+const DB_VERSION = 1;
+const AUDIO_STORE = 'trackAudio';
+const METADATA_KEY = 'bgmTracks';
+
+// ブラウザの保存容量を超えたときに投げるエラー
+export class StorageQuotaError extends Error {
+  constructor(message = 'Storage quota exceeded') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+// 保存済みの曲情報が読めないときに投げるエラー。上書きすると、次の起動で音声データが
+// 曲情報のないものとして消されてしまうので、読めるようになるまで曲情報を保存しない
+export class TrackMetadataError extends Error {
+  constructor(message = 'Stored track metadata is unreadable') {
+    super(message);
+    this.name = 'TrackMetadataError';
+  }
+}
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(AUDIO_STORE)) {
+          request.result.createObjectStore(AUDIO_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(AUDIO_STORE, mode);
+    const request = operation(tx.objectStore(AUDIO_STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onabort = () => {
+      const error = tx.error ?? request.error;
+      reject(isQuotaError(error) ? new StorageQuotaError() : error);
+    };
+  });
+};
+
+// 音声データを BGMTrack.id をキーにして保存する
+export const saveTrackAudio = async (id: string, blob: Blob): Promise<void> => {
+  await runRequest('readwrite', (store) => store.put(blob, id));
+};
+
+export const deleteTrackAudio = async (id: string): Promise<void> => {
+  await runRequest('readwrite', (store) => store.delete(id));
+};
+
+// 読めなかったときは null（空の一覧と区別して、音声データを消さないようにする）
+const readMetadata = (): BGMTrack[] | null => {
+  try {
+    const saved = localStorage.getItem(METADATA_KEY);
+    if (!saved) return [];
+    const tracks = JSON.parse(saved);
+    return Array.isArray(tracks) ? tracks : null;
+  } catch (error) {
+    console.error('Error reading track metadata:', error);
+    return null;
+  }
+};
+
+// 保存済みの音声データをすべて読む。キーと値がずれないよう1つのトランザクションのカーソルで読む
+const readAllAudio = async (): Promise<Map<string, Blob>> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const audioById = new Map<string, Blob>();
+    const tx = db.transaction(AUDIO_STORE, 'readonly');
+    const request = tx.objectStore(AUDIO_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      audioById.set(String(cursor.key), cursor.value);
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve(audioById);
+    tx.onabort = () => reject(tx.error ?? request.error);
+  });
+};
+
+export const saveTrackMetadata = (tracks: BGMTrack[]): void => {
+  if (readMetadata() === null) throw new TrackMetadataError();
+  // BlobURLは起動ごとに作り直すので保存しない
+  const metadata = tracks.map((track) => ({ ...track, filename: '' }));
+  try {
+    localStorage.setItem(METADATA_KEY, JSON.stringify(metadata));
+  } catch (error) {
+    throw isQuotaError(error) ? new StorageQuotaError() : error;
+  }
+};
+
+// 保存済みの曲を読み込み、新しいBlobURLを割り当てる。
+// 音声データのない曲情報と、曲情報のない音声データはここで削除する（曲情報が読めなかったときは何も消さない）
+export const loadTracks = async (): Promise<BGMTrack[]> => {
+  const metadata = readMetadata();
+  const audioById = await readAllAudio();
+  if (!metadata) return [];
+
+  const tracks = metadata
+    .filter((track) => audioById.has(track.id))
+    .map((track) => ({
+      ...track,
+      filename: URL.createObjectURL(audioById.get(track.id)!),
+    }));
+
+  const knownIds = new Set(tracks.map((track) => track.id));
+  await Promise.all(
+    [...audioById.keys()]
+      .filter((id) => !knownIds.has(id))
+      .map((id) => deleteTrackAudio(id))
+  );
+  if (tracks.length !== metadata.length) {
+    saveTrackMetadata(tracks);
+  }
+
+  return tracks;
+};
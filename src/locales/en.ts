@@ -0,0 +1,261 @@
+import type { Messages } from './ja';
+
+export const en: Messages = {
+  'app.title': 'Study Timer',
+  'app.language': 'Language',
+
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.none': 'None',
+  'common.seconds': '{seconds}s',
+
+  'timerType.time': 'Until time',
+  'timerType.duration': 'Duration',
+  'timerType.pomodoro': 'Pomodoro',
+
+  'pomodoro.focus': 'Focus',
+  'pomodoro.shortBreak': 'Short break',
+  'pomodoro.longBreak': 'Long break',
+  'pomodoro.focusMinutes': 'Focus (min)',
+  'pomodoro.shortBreakMinutes': 'Short break (min)',
+  'pomodoro.longBreakMinutes': 'Long break (min)',
+  'pomodoro.longBreakEvery': 'Long break every (sessions)',
+  'pomodoro.progress': 'Cycle {cycle} / {total} · Completed {completed}',
+
+  'form.labelPlaceholder': 'Label (e.g. English, Section A)',
+  'form.label': 'Label',
+  'form.alarmSound': 'Alarm sound',
+  'form.bundledAlarms': 'Bundled alarm sounds',
+  'form.uploadedTracks': 'Uploaded tracks',
+  'form.start': 'Start timer',
+  'form.defaultLabel': 'Timer {number}',
+  'form.pomodoroTarget': '{focus}/{shortBreak}/{longBreak} min',
+
+  'timers.heading': 'Timers ({count})',
+  'timers.sortByExpiry': 'Ending soonest',
+  'timers.sortByAdded': 'Order added',
+  'timers.pause': 'Pause',
+  'timers.resume': 'Resume',
+  'timers.stopAlarm': 'Stop alarm',
+  'timers.acknowledge': 'Dismiss',
+  'timers.paused': 'Paused',
+  'timers.finished': "Time's up",
+  'timers.missed': 'Ended at {time} (missed)',
+  'timers.adjust': '{minutes} min',
+  'timers.snooze': 'Snooze',
+  'timers.snoozeTitle': 'Ring again in {minutes} min',
+  'timers.stop': 'Stop timer',
+
+  'alarmSound.default': 'Alarm',
+  'alarmSettings.title': 'Alarm settings',
+  'alarmSettings.volume': 'Alarm volume',
+  'alarmSettings.fadeIn': 'Fade in',
+  'alarmSettings.repeat': 'Repeat until stopped',
+  'alarmSettings.snoozeMinutes': 'Snooze (min)',
+  'alarmSettings.duckBgm': 'Keep the BGM playing quietly while the alarm rings',
+
+  'notifications.finishedTitle': 'Timer finished',
+  'notifications.blocked': 'Notifications are blocked. Allow them in your browser settings',
+  'notifications.on': 'Notify when finished: on',
+  'notifications.off': 'Notify when finished: off (click to enable)',
+  'notifications.label': 'Notify when finished',
+
+  'tab.finished': "⏰ Time's up! {label}",
+
+  'bgm.classical': 'Classical',
+  'bgm.uploaded': 'Uploaded tracks',
+  'bgm.upload': 'Upload BGM',
+  'bgm.chooseFiles': 'Choose files',
+  'bgm.uploadHint': 'You can select several files, or drag and drop them onto the card',
+  'bgm.dropHere': 'Drop to add to BGM',
+  'bgm.editTrack': 'Edit track info',
+  'bgm.editTrackNamed': 'Edit info for "{title}"',
+  'bgm.deleteTrack': 'Delete track',
+  'bgm.deleteTrackNamed': 'Delete "{title}"',
+  'bgm.unknownComposer': 'Unknown',
+  'bgm.menu': 'BGM menu',
+  'bgm.play': 'Play BGM',
+  'bgm.pause': 'Pause BGM',
+  'bgm.volume': 'BGM volume',
+
+  'player.playing': 'Playing',
+  'player.stopped': 'Stopped',
+  'player.noTrack': 'No track selected',
+  'player.shuffleOn': 'Shuffle: on',
+  'player.shuffleOff': 'Shuffle: off',
+  'player.previous': 'Previous track',
+  'player.next': 'Next track',
+  'player.play': 'Play',
+  'player.pause': 'Pause',
+  'player.crossfade': 'Crossfade',
+  'player.shuffle': 'Shuffle',
+  'player.position': 'Playback position',
+  'player.repeat.off': 'Repeat off',
+  'player.repeat.all': 'Repeat all',
+  'player.repeat.one': 'Repeat one',
+
+  'trackEdit.changeCover': 'Change cover art',
+  'trackEdit.removeCover': 'Remove cover art',
+  'trackEdit.title': 'Title',
+  'trackEdit.composer': 'Composer / artist',
+
+  'upload.heading': 'Uploading tracks',
+  'upload.waiting': 'Waiting',
+  'upload.reading': 'Reading',
+  'upload.checking': 'Checking',
+  'upload.saving': 'Saving',
+  'upload.done': 'Added',
+  'upload.error': 'Failed',
+  'upload.tooLarge': 'Files must be 10 MB or smaller',
+  'upload.unsupported': 'Unsupported file format',
+  'upload.undecodable': 'This file cannot be played as audio',
+  'upload.tooShort': 'Track is too short (under 1 second)',
+  'upload.tooLong': 'Track is too long (3 hours max)',
+  'upload.quota': 'Not enough storage space. Delete some tracks and try again',
+  'upload.metadataUnreadable': 'Saved track information could not be read, so tracks cannot be added',
+  'upload.failed': 'An error occurred while uploading',
+
+  'stats.title': 'Study log',
+  'stats.today': 'Today',
+  'stats.thisWeek': 'This week',
+  'stats.streak': 'Streak',
+  'stats.days': '{days} d',
+  'stats.longest': 'Best {days} d',
+  'stats.last7Days': 'Last 7 days',
+  'stats.weekly': 'Weekly totals',
+  'stats.weekOf': 'Week of {date}',
+  'stats.calendar': 'Calendar ({weeks} weeks)',
+  'stats.bySubject': 'By subject',
+  'stats.empty': 'No sessions yet',
+  'stats.subjectDetail': '{time} (completed {completed}/{sessions})',
+  'stats.hoursMinutes': '{hours}h {minutes}m',
+  'stats.minutes': '{minutes}m',
+
+  'backup.title': 'Export & import data',
+  'backup.export': 'Export backup (JSON)',
+  'backup.import': 'Import backup',
+  'backup.exportCsv': 'Export study log as CSV',
+  'backup.note': 'Saves settings, presets, track info and study log (audio files are not included)',
+  'backup.importFailed': 'Could not read the backup file',
+  'backup.imported': 'Imported ({added} sessions added)',
+  'backup.importedWithSkipped': 'Imported ({added} sessions added, {skipped} tracks without audio skipped)',
+
+  'csv.startedAt': 'Start',
+  'csv.endedAt': 'End',
+  'csv.label': 'Label',
+  'csv.mode': 'Mode',
+  'csv.plannedMinutes': 'Planned (min)',
+  'csv.actualMinutes': 'Actual (min)',
+  'csv.outcome': 'Outcome',
+  'csv.bgm': 'BGM',
+  'csv.completed': 'Completed',
+  'csv.aborted': 'Aborted',
+
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.toggleTimer': 'Start, pause or resume timers',
+  'shortcuts.toggleBGM': 'Play or pause BGM',
+  'shortcuts.volumeUp': 'Volume up',
+  'shortcuts.volumeDown': 'Volume down',
+  'shortcuts.focusMode': 'Enter or leave focus mode',
+  'shortcuts.help': 'Show this help',
+  'shortcuts.close': 'Close help or menus',
+
+  'a11y.remainingMinutes': '{label}: {minutes} min left',
+  'a11y.remainingSeconds': '{label}: {seconds} s left',
+  'a11y.finished': "{label}: time's up",
+
+  'focus.title': 'Focus mode',
+  'focus.open': 'Show in focus mode',
+  'focus.openTimer': 'Show {label} in focus mode',
+  'focus.exit': 'Leave focus mode',
+  'focus.darkTheme': 'Dark theme',
+  'focus.noTimer': 'No timers running',
+
+  'presets.label': 'Presets',
+  'presets.empty': 'Save a setup you use often as a preset to start it here with one tap',
+  'presets.start': 'Start {name}',
+  'presets.edit': 'Edit presets',
+  'presets.done': 'Finish editing',
+  'presets.saveCurrent': 'Save current setup',
+  'presets.name': 'Preset name',
+  'presets.includeBgm': 'Include BGM ({title})',
+  'presets.save': 'Save',
+  'presets.moveLeft': 'Move {name} left',
+  'presets.moveRight': 'Move {name} right',
+  'presets.delete': 'Delete {name}',
+  'presets.until': 'until {time}',
+  'presets.pomodoro': 'Pomodoro {focus} min',
+  'presets.hours': '{hours}h',
+  'presets.minutes': '{minutes}m',
+  'presets.seconds': '{seconds}s',
+
+  'recurring.title': 'Recurring alarms',
+  'recurring.empty': 'Add alarms that ring at fixed times, such as weekly classes',
+  'recurring.add': 'Add alarm',
+  'recurring.importIcs': 'Import from calendar (.ics)',
+  'recurring.imported': 'Imported {count} alarms',
+  'recurring.importedWithSkipped': 'Imported {count} alarms (skipped {skipped} unsupported events)',
+  'recurring.importFailed': 'Could not read the calendar file',
+  'recurring.label': 'Name',
+  'recurring.labelPlaceholder': 'Name (e.g. Math class)',
+  'recurring.time': 'Time',
+  'recurring.ruleType': 'Repeat',
+  'recurring.weekly': 'Weekly',
+  'recurring.dates': 'On dates',
+  'recurring.weekdays': 'Weekdays',
+  'recurring.addDate': 'Add date',
+  'recurring.removeDate': 'Remove {date}',
+  'recurring.skipDates': 'Skip dates',
+  'recurring.addSkipDate': 'Add skip date',
+  'recurring.enabled': 'Enable {label}',
+  'recurring.edit': 'Edit {label}',
+  'recurring.delete': 'Delete {label}',
+  'recurring.skipNext': 'Skip next',
+  'recurring.skipNextNamed': 'Skip next {label}',
+  'recurring.next': 'Next: {time}',
+  'recurring.noNext': 'No upcoming alarm',
+  'recurring.disabled': 'Off',
+  'recurring.everyDay': 'Every day',
+  'recurring.weeklySummary': 'Every {weekdays}',
+  'recurring.weekdaySeparator': ', ',
+  'recurring.datesSummary': '{count} dates',
+
+  'ambient.white': 'White noise',
+  'ambient.pink': 'Pink noise',
+  'ambient.brown': 'Brown noise',
+  'ambient.rain': 'Rain',
+  'ambient.binaural': 'Binaural beat',
+  'ambient.composer': 'Ambient (generated)',
+  'ambient.section': 'Ambient sounds',
+  'ambient.mixer': 'Ambient mix',
+  'ambient.level': '{name} volume',
+  'ambient.binauralHint': 'Use headphones for the binaural beat',
+
+  'sync.followerTab': 'This tab is synced with your other tabs. Alarms ring in the tab you opened first',
+
+  'studyRoom.title': 'Study room',
+  'studyRoom.hint': 'Share timers with every device that joins the same room code. Start the relay with npm run relay',
+  'studyRoom.room': 'Room code',
+  'studyRoom.roomPlaceholder': 'Room code (e.g. ABC234)',
+  'studyRoom.newRoom': 'Create a new room code',
+  'studyRoom.relayUrl': 'Relay URL',
+  'studyRoom.join': 'Join',
+  'studyRoom.leave': 'Leave room',
+  'studyRoom.off': 'Not connected',
+  'studyRoom.connecting': 'Connecting…',
+  'studyRoom.connected': 'In room {room} ({members} joined)',
+  'studyRoom.reconnecting': 'Cannot reach the relay. Reconnecting…',
+  'studyRoom.otherTab': 'Another tab is connected to the room',
+
+  'timerText.label': 'Duration or end time',
+  'timerText.placeholderTime': 'e.g. 14:05, 2pm, until 14:05, tomorrow 9:00',
+  'timerText.placeholderDuration': 'e.g. 90m, 1h30, 2:15:00, 3d',
+  'timerText.hint': 'Enter a duration (90m, 1h30, 2:15:00, 3d) or a time (until 14:05, tomorrow 9:00)',
+  'timerText.preview': 'Ends {time} ({remaining} left)',
+  'timerText.tomorrow': 'tomorrow {time}',
+  'timerText.invalid': 'Could not read that (e.g. 90m, 1h30, 2:15:00, until 14:05)',
+  'timerText.invalidTime': 'Could not read the time (e.g. 14:05, 9:30, 2pm)',
+  'timerText.zero': 'Enter a duration longer than 0',
+  'timerText.tooLong': 'Too long (up to {days} days)'
+};
@@ -0,0 +1,264 @@
+// 日本語のメッセージ（キーの基準になるカタログ）
+// {name} の部分は t() の引数で置き換える
+export const ja = {
+  'app.title': 'スタディタイマー',
+  'app.language': '言語',
+
+  'common.cancel': 'キャンセル',
+  'common.close': '閉じる',
+  'common.save': '保存',
+  'common.none': 'なし',
+  'common.seconds': '{seconds}秒',
+
+  'timerType.time': '時刻指定',
+  'timerType.duration': '時間指定',
+  'timerType.pomodoro': 'ポモドーロ',
+
+  'pomodoro.focus': '集中',
+  'pomodoro.shortBreak': '小休憩',
+  'pomodoro.longBreak': '長休憩',
+  'pomodoro.focusMinutes': '集中（分）',
+  'pomodoro.shortBreakMinutes': '小休憩（分）',
+  'pomodoro.longBreakMinutes': '長休憩（分）',
+  'pomodoro.longBreakEvery': '長休憩の間隔（回）',
+  'pomodoro.progress': 'サイクル {cycle} / {total} ・ 完了 {completed}',
+
+  'form.labelPlaceholder': 'ラベル（例: 英語 セクションA）',
+  'form.label': 'ラベル',
+  'form.alarmSound': 'アラーム音',
+  'form.bundledAlarms': '同梱のアラーム音',
+  'form.uploadedTracks': 'アップロードした曲',
+  'form.start': 'タイマー開始',
+  'form.defaultLabel': 'タイマー {number}',
+  'form.pomodoroTarget': '{focus}/{shortBreak}/{longBreak}分',
+
+  'timers.heading': 'タイマー一覧（{count}）',
+  'timers.sortByExpiry': '終了が近い順',
+  'timers.sortByAdded': '追加順',
+  'timers.pause': '一時停止',
+  'timers.resume': '再開',
+  'timers.stopAlarm': 'アラームを止める',
+  'timers.acknowledge': '確認',
+  'timers.paused': '一時停止中',
+  'timers.finished': '時間になりました',
+  'timers.missed': '{time} に終了（見逃し）',
+  'timers.adjust': '{minutes}分',
+  'timers.snooze': 'スヌーズ',
+  'timers.snoozeTitle': '{minutes}分後にもう一度鳴らす',
+  'timers.stop': 'タイマー停止',
+
+  'alarmSound.default': 'アラーム',
+  'alarmSettings.title': 'アラーム設定',
+  'alarmSettings.volume': 'アラーム音量',
+  'alarmSettings.fadeIn': 'フェードイン',
+  'alarmSettings.repeat': '止めるまで繰り返す',
+  'alarmSettings.snoozeMinutes': 'スヌーズ（分）',
+  'alarmSettings.duckBgm': '鳴っている間はBGMを小さくして流し続ける',
+
+  'notifications.finishedTitle': 'タイマーが終了しました',
+  'notifications.blocked': '通知がブロックされています。ブラウザの設定で許可してください',
+  'notifications.on': '終了時の通知: オン',
+  'notifications.off': '終了時の通知: オフ（クリックで有効化）',
+  'notifications.label': '終了時の通知',
+
+  'tab.finished': '⏰ 時間です！ {label}',
+
+  'bgm.classical': 'クラシック',
+  'bgm.uploaded': 'アップロードした曲',
+  'bgm.upload': 'BGMをアップロード',
+  'bgm.chooseFiles': 'ファイルを選択',
+  'bgm.uploadHint': '複数のファイルを選択できます。カードにドラッグ＆ドロップしても追加できます',
+  'bgm.dropHere': 'ドロップしてBGMに追加',
+  'bgm.editTrack': '曲情報を編集',
+  'bgm.editTrackNamed': '「{title}」の曲情報を編集',
+  'bgm.deleteTrack': '曲を削除',
+  'bgm.deleteTrackNamed': '「{title}」を削除',
+  'bgm.unknownComposer': '不明',
+  'bgm.menu': 'BGMメニュー',
+  'bgm.play': 'BGMを再生',
+  'bgm.pause': 'BGMを止める',
+  'bgm.volume': 'BGMの音量',
+
+  'player.playing': '再生中',
+  'player.stopped': '停止中',
+  'player.noTrack': '曲が選択されていません',
+  'player.shuffleOn': 'シャッフル: オン',
+  'player.shuffleOff': 'シャッフル: オフ',
+  'player.previous': '前の曲',
+  'player.next': '次の曲',
+  'player.play': '再生',
+  'player.pause': '一時停止',
+  'player.crossfade': 'クロスフェード',
+  'player.shuffle': 'シャッフル',
+  'player.position': '再生位置',
+  'player.repeat.off': 'リピートなし',
+  'player.repeat.all': '全曲リピート',
+  'player.repeat.one': '1曲リピート',
+
+  'trackEdit.changeCover': 'カバー画像を変更',
+  'trackEdit.removeCover': 'カバー画像を削除',
+  'trackEdit.title': '曲名',
+  'trackEdit.composer': '作曲者・アーティスト',
+
+  'upload.heading': '曲のアップロード',
+  'upload.waiting': '待機中',
+  'upload.reading': '読み込み中',
+  'upload.checking': '確認中',
+  'upload.saving': '保存中',
+  'upload.done': '追加しました',
+  'upload.error': '失敗',
+  'upload.tooLarge': 'ファイルサイズは10MB以下にしてください',
+  'upload.unsupported': '対応していないファイル形式です',
+  'upload.undecodable': '音声として再生できないファイルです',
+  'upload.tooShort': '曲が短すぎます（1秒未満）',
+  'upload.tooLong': '曲が長すぎます（3時間まで）',
+  'upload.quota': '保存容量が不足しています。不要な曲を削除してから再度お試しください',
+  'upload.metadataUnreadable': '保存済みの曲情報を読み込めなかったため、曲を追加できません',
+  'upload.failed': 'アップロード中にエラーが発生しました',
+
+  'stats.title': '学習記録',
+  'stats.today': '今日',
+  'stats.thisWeek': '今週',
+  'stats.streak': '連続',
+  'stats.days': '{days}日',
+  'stats.longest': '最長 {days}日',
+  'stats.last7Days': '直近7日間',
+  'stats.weekly': '週ごとの合計',
+  'stats.weekOf': '{date}〜',
+  'stats.calendar': 'カレンダー（{weeks}週間）',
+  'stats.bySubject': '科目別',
+  'stats.empty': 'まだ記録がありません',
+  'stats.subjectDetail': '{time}（完了 {completed}/{sessions}）',
+  'stats.hoursMinutes': '{hours}時間{minutes}分',
+  'stats.minutes': '{minutes}分',
+
+  'backup.title': 'データの書き出し・読み込み',
+  'backup.export': 'バックアップを書き出す（JSON）',
+  'backup.import': 'バックアップを読み込む',
+  'backup.exportCsv': '学習記録をCSVで書き出す',
+  'backup.note': '設定・プリセット・曲情報・学習記録を保存します（曲の音声データは含みません）',
+  'backup.importFailed': 'バックアップファイルを読み込めませんでした',
+  'backup.imported': '読み込みました（学習記録 {added}件を追加）',
+  'backup.importedWithSkipped': '読み込みました（学習記録 {added}件を追加、音声データのない曲 {skipped}曲はスキップ）',
+
+  'csv.startedAt': '開始',
+  'csv.endedAt': '終了',
+  'csv.label': 'ラベル',
+  'csv.mode': 'モード',
+  'csv.plannedMinutes': '予定（分）',
+  'csv.actualMinutes': '実績（分）',
+  'csv.outcome': '結果',
+  'csv.bgm': 'BGM',
+  'csv.completed': '完了',
+  'csv.aborted': '中断',
+
+  'shortcuts.title': 'キーボードショートカット',
+  'shortcuts.toggleTimer': 'タイマーの開始・一時停止・再開',
+  'shortcuts.toggleBGM': 'BGMの再生・停止',
+  'shortcuts.volumeUp': '音量を上げる',
+  'shortcuts.volumeDown': '音量を下げる',
+  'shortcuts.focusMode': '集中モードの表示・終了',
+  'shortcuts.help': 'このヘルプを表示',
+  'shortcuts.close': 'ヘルプやメニューを閉じる',
+
+  'a11y.remainingMinutes': '{label}: 残り{minutes}分',
+  'a11y.remainingSeconds': '{label}: 残り{seconds}秒',
+  'a11y.finished': '{label}: 時間になりました',
+
+  'focus.title': '集中モード',
+  'focus.open': '集中モードで表示',
+  'focus.openTimer': '{label}を集中モードで表示',
+  'focus.exit': '集中モードを終了',
+  'focus.darkTheme': 'ダークテーマ',
+  'focus.noTimer': '動いているタイマーはありません',
+
+  'presets.label': 'プリセット',
+  'presets.empty': 'よく使う設定をプリセットとして保存すると、ここからワンタップで開始できます',
+  'presets.start': '{name}を開始',
+  'presets.edit': 'プリセットを編集',
+  'presets.done': '編集を終了',
+  'presets.saveCurrent': '今の設定を保存',
+  'presets.name': 'プリセット名',
+  'presets.includeBgm': 'BGMも保存（{title}）',
+  'presets.save': '保存',
+  'presets.moveLeft': '{name}を前へ移動',
+  'presets.moveRight': '{name}を後ろへ移動',
+  'presets.delete': '{name}を削除',
+  'presets.until': '{time}まで',
+  'presets.pomodoro': 'ポモドーロ {focus}分',
+  'presets.hours': '{hours}時間',
+  'presets.minutes': '{minutes}分',
+  'presets.seconds': '{seconds}秒',
+
+  'recurring.title': '繰り返しアラーム',
+  'recurring.empty': '毎週の授業など、決まった時刻に鳴らすアラームを登録できます',
+  'recurring.add': 'アラームを追加',
+  'recurring.importIcs': 'カレンダー（.ics）から読み込む',
+  'recurring.imported': '{count}件のアラームを読み込みました',
+  'recurring.importedWithSkipped': '{count}件のアラームを読み込みました（対応していない予定 {skipped}件はスキップ）',
+  'recurring.importFailed': 'カレンダーファイルを読み込めませんでした',
+  'recurring.label': '名前',
+  'recurring.labelPlaceholder': '名前（例: 数学の授業）',
+  'recurring.time': '時刻',
+  'recurring.ruleType': '繰り返し',
+  'recurring.weekly': '毎週',
+  'recurring.dates': '日付を指定',
+  'recurring.weekdays': '曜日',
+  'recurring.addDate': '日付を追加',
+  'recurring.removeDate': '{date}を外す',
+  'recurring.skipDates': 'スキップする日',
+  'recurring.addSkipDate': 'スキップする日を追加',
+  'recurring.enabled': '{label}を有効にする',
+  'recurring.edit': '{label}を編集',
+  'recurring.delete': '{label}を削除',
+  'recurring.skipNext': '次回をスキップ',
+  'recurring.skipNextNamed': '{label}の次回をスキップ',
+  'recurring.next': '次回: {time}',
+  'recurring.noNext': '予定なし',
+  'recurring.disabled': '無効',
+  'recurring.everyDay': '毎日',
+  'recurring.weeklySummary': '毎週 {weekdays}',
+  'recurring.weekdaySeparator': '・',
+  'recurring.datesSummary': '{count}日',
+
+  'ambient.white': 'ホワイトノイズ',
+  'ambient.pink': 'ピンクノイズ',
+  'ambient.brown': 'ブラウンノイズ',
+  'ambient.rain': '雨音',
+  'ambient.binaural': 'バイノーラルビート',
+  'ambient.composer': '環境音（自動生成）',
+  'ambient.section': '環境音',
+  'ambient.mixer': '環境音のミックス',
+  'ambient.level': '{name}の音量',
+  'ambient.binauralHint': 'バイノーラルビートはヘッドホンで聞いてください',
+
+  'sync.followerTab': 'このタブは他のタブと同期しています。アラームは最初に開いたタブで鳴ります',
+
+  'studyRoom.title': '学習ルーム',
+  'studyRoom.hint': '同じルームコードで参加した端末とタイマーを共有します。中継サーバーは npm run relay で起動できます',
+  'studyRoom.room': 'ルームコード',
+  'studyRoom.roomPlaceholder': 'ルームコード（例: ABC234）',
+  'studyRoom.newRoom': '新しいルームコードを作る',
+  'studyRoom.relayUrl': '中継サーバーのURL',
+  'studyRoom.join': '参加する',
+  'studyRoom.leave': 'ルームから抜ける',
+  'studyRoom.off': '未接続',
+  'studyRoom.connecting': '接続しています…',
+  'studyRoom.connected': 'ルーム {room} に参加中（{members}人）',
+  'studyRoom.reconnecting': '中継サーバーに接続できません。再接続しています…',
+  'studyRoom.otherTab': '別のタブがルームに接続しています',
+
+  'timerText.label': '時間または終了時刻',
+  'timerText.placeholderTime': '例: 14:05、9時半、until 14:05、明日 9:00',
+  'timerText.placeholderDuration': '例: 90m、1h30、2:15:00、3d',
+  'timerText.hint': '長さ（90m、1時間30分、2:15:00、3d）か時刻（until 14:05、明日 9:00）を入力',
+  'timerText.preview': '{time} に終了（あと {remaining}）',
+  'timerText.tomorrow': '明日 {time}',
+  'timerText.invalid': '読み取れませんでした（例: 90m、1h30、2:15:00、until 14:05）',
+  'timerText.invalidTime': '時刻を読み取れませんでした（例: 14:05、9時半、2pm）',
+  'timerText.zero': '0より長い時間を入力してください',
+  'timerText.tooLong': '長すぎます（{days}日まで）'
+};
+
+export type MessageKey = keyof typeof ja;
+export type Messages = Record<MessageKey, string>;
@@ -1,8 +1,12 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
+import { registerSW } from 'virtual:pwa-register';
 import App from './App.tsx';
 import './index.css';
 
+// オフラインで起動できるようにサービスワーカーを登録する（開発サーバーでは登録しない）
+registerSW({ immediate: true });
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
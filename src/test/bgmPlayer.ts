@@ -0,0 +1,26 @@
+import { vi } from 'vitest';
+import type { BGMPlayer } from '../hooks/useBGMPlayer';
+import { DEFAULT_PLAYLIST_SETTINGS } from '../lib/playlist';
+import { DEFAULT_AMBIENT_MIX } from '../lib/ambient';
+
+// 操作はすべて呼び出しだけを記録する BGM プレイヤー。状態は patch で上書きする
+export const createMockBGMPlayer = (patch: Partial<BGMPlayer> = {}): BGMPlayer => ({
+  currentTrack: null,
+  isPlaying: false,
+  isLoaded: true,
+  elapsed: 0,
+  duration: 0,
+  settings: DEFAULT_PLAYLIST_SETTINGS,
+  setSettings: vi.fn(),
+  play: vi.fn(),
+  pause: vi.fn(),
+  stop: vi.fn(),
+  toggle: vi.fn(),
+  next: vi.fn(),
+  previous: vi.fn(),
+  select: vi.fn(),
+  ambientMix: DEFAULT_AMBIENT_MIX,
+  setAmbientMix: vi.fn(),
+  setDucked: vi.fn(),
+  ...patch
+});
@@ -0,0 +1,9 @@
+import { vi } from 'vitest';
+
+// clock.now() は performance.now() も使うので、Date と一緒に偽物にする
+export const installFakeClock = (date: Date): void => {
+  vi.useFakeTimers({
+    toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date', 'performance'],
+  });
+  vi.setSystemTime(date);
+};
@@ -0,0 +1,18 @@
+import { afterEach, beforeEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { setLocale } from '../lib/i18n';
+
+// jsdom は音声を再生できないので、読み込み・再生・停止は呼び出しだけを記録する
+vi.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+vi.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+
+// ブラウザの言語によらず日本語の表示で確認する
+beforeEach(() => {
+  setLocale('ja');
+});
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
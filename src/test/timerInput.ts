@@ -0,0 +1,10 @@
+import type { TimerInput } from '../lib/timerTarget';
+import { DEFAULT_POMODORO_SETTINGS } from '../lib/pomodoro';
+
+// 空のタイマー入力。使う項目だけを patch で指定する
+export const createTimerInput = (patch: Partial<TimerInput> = {}): TimerInput => ({
+  targetTime: '',
+  duration: { hours: 0, minutes: 0, seconds: 0 },
+  pomodoro: DEFAULT_POMODORO_SETTINGS,
+  ...patch
+});
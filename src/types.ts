@@ -0,0 +1,26 @@
+import type { AmbientSoundId } from './lib/ambient';
+import type { TrackLoudness } from './lib/loudness';
+
+export type TimerType = 'time' | 'duration' | 'pomodoro';
+
+export interface BGMTrack {
+  id: string;
+  title: string;
+  composer: string;
+  // 再生に使うURL（アップロード曲は起動ごとに作り直すBlobURL）
+  filename: string;
+  originalName: string;
+  size: number;
+  type: string;
+  uploadedAt: string;
+  // 曲の長さ（秒）。タグや音声から取得できた場合のみ
+  duration?: number;
+  // カバー画像（縮小したデータURL）
+  coverArt?: string;
+  // 同梱曲（削除不可）
+  builtIn?: boolean;
+  // Web Audio で生成する環境音（filename は使わない）
+  ambient?: AmbientSoundId;
+  // アップロード時に測った音量（再生時に曲ごとの音量をそろえる）
+  loudness?: TrackLoudness;
+}
@@ -0,0 +1,34 @@
+// バックグラウンドタブではメインスレッドのタイマーが間引かれるため、
+// ワーカー側でタイマーを動かして時刻になったらメインスレッドに通知する。
+export type SchedulerWorkerRequest =
+  | { type: 'set'; id: number; delay: number }
+  | { type: 'clear'; id: number };
+
+export type SchedulerWorkerMessage =
+  | { type: 'fire'; id: number }
+  | { type: 'heartbeat' };
+
+const HEARTBEAT_MS = 1000;
+
+const timers = new Map<number, ReturnType<typeof setTimeout>>();
+
+const post = (message: SchedulerWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SchedulerWorkerRequest>) => {
+  const request = event.data;
+  clearTimeout(timers.get(request.id));
+  timers.delete(request.id);
+
+  if (request.type === 'set') {
+    timers.set(
+      request.id,
+      setTimeout(() => {
+        timers.delete(request.id);
+        post({ type: 'fire', id: request.id });
+      }, request.delay)
+    );
+  }
+};
+
+// スリープ明けなどでタイマーが遅れた場合に備えて定期的に確認させる
+setInterval(() => post({ type: 'heartbeat' }), HEARTBEAT_MS);
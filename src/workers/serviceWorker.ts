@@ -0,0 +1,105 @@
+/// <reference lib="webworker" />
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+import { clientsClaim } from 'workbox-core';
+import type { ScheduledNotification, ServiceWorkerRequest } from './serviceWorkerMessages';
+
+declare const self: ServiceWorkerGlobalScope;
+
+// ビルド時にアプリ本体と public の音声・アイコンの一覧が入る。
+// 図書館などで通信が不安定でも、一度開いていればオフラインで起動できる
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+registerRoute(new NavigationRoute(createHandlerBoundToURL('/index.html')));
+
+self.skipWaiting();
+clientsClaim();
+
+const ICON = '/icons/icon-192.png';
+
+interface Pending {
+  timeout: ReturnType<typeof setTimeout>;
+  done: () => void;
+}
+
+// Notification Triggers API（Chrome 系の一部のみ）。型定義がないのでここで宣言する
+declare class TimestampTrigger {
+  constructor(timestamp: number);
+}
+
+const pending = new Map<string, Pending>();
+
+const show = ({ id, title, body }: ScheduledNotification) =>
+  self.registration.showNotification(title, { body, tag: id, icon: ICON, requireInteraction: true });
+
+// 時刻を指定して通知を予約できれば、ワーカーが止められていてもブラウザが通知を出す
+const supportsTriggers = (): boolean =>
+  'TimestampTrigger' in self && 'showTrigger' in Notification.prototype;
+
+const scheduleWithTriggers = async (notifications: ScheduledNotification[]): Promise<void> => {
+  // まだ出ていない予約だけを取り消す（表示済みの通知は残す）
+  const options = { includeTriggered: true } as GetNotificationOptions;
+  const existing = await self.registration.getNotifications(options);
+  existing.filter((notification) => notification.data?.at > Date.now()).forEach((notification) => notification.close());
+
+  await Promise.all(
+    notifications.map(({ id, at, title, body }) =>
+      self.registration.showNotification(title, {
+        body,
+        tag: id,
+        icon: ICON,
+        requireInteraction: true,
+        data: { at },
+        showTrigger: new TimestampTrigger(at)
+      } as NotificationOptions)
+    )
+  );
+};
+
+// 予約を送られてきた一覧で置き換える。Triggers API がなければ waitUntil でワーカーを起こしておくが、
+// ブラウザは数分でワーカーを止めるので、ページ側が前面にない間も定期的に送り直して予約し直す
+const schedule = (notifications: ScheduledNotification[]): Promise<void> => {
+  pending.forEach(({ timeout, done }) => {
+    clearTimeout(timeout);
+    done();
+  });
+  pending.clear();
+
+  if (supportsTriggers()) {
+    return scheduleWithTriggers(notifications).catch((error) => {
+      console.error('Error scheduling notifications:', error);
+    });
+  }
+
+  return Promise.all(
+    notifications.map((notification) =>
+      new Promise<void>((resolve) => {
+        const timeout = setTimeout(() => {
+          pending.delete(notification.id);
+          show(notification)
+            .catch((error) => console.error('Error showing notification:', error))
+            .finally(resolve);
+        }, Math.max(0, notification.at - Date.now()));
+        pending.set(notification.id, { timeout, done: resolve });
+      })
+    )
+  ).then(() => {});
+};
+
+self.addEventListener('message', (event) => {
+  const request = event.data as ServiceWorkerRequest | undefined;
+  if (request?.type === 'schedule') {
+    event.waitUntil(schedule(request.notifications));
+  }
+});
+
+// 通知を押したら開いているタイマーを前面に出す（閉じていれば開く）
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const client = windows[0];
+      return client ? client.focus().then(() => {}) : self.clients.openWindow('/').then(() => {});
+    })
+  );
+});
@@ -0,0 +1,12 @@
+// ページとサービスワーカーの間でやり取りするメッセージ。
+// サービスワーカー側は DOM の型を使えないので、この型定義は他のファイルを読み込まない
+export interface ScheduledNotification {
+  // 通知の tag。同じタイマーの通知はページ側の通知と置き換わる
+  id: string;
+  // Date.now() 基準の終了時刻
+  at: number;
+  title: string;
+  body: string;
+}
+
+export type ServiceWorkerRequest = { type: 'schedule'; notifications: ScheduledNotification[] };
@@ -1,10 +1,48 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    VitePWA({
+      // 通知の予約を扱うため、サービスワーカーは自前で書いてキャッシュ一覧だけ差し込む
+      strategies: 'injectManifest',
+      srcDir: 'src/workers',
+      filename: 'serviceWorker.ts',
+      // 登録は src/main.tsx で行う
+      injectRegister: null,
+      registerType: 'autoUpdate',
+      // アイコンは globPatterns の png で precache 済み
+      includeManifestIcons: false,
+      injectManifest: {
+        globPatterns: ['**/*.{js,css,html,svg,png,mp3}'],
+        maximumFileSizeToCacheInBytes: 10 * 1024 * 1024,
+      },
+      manifest: {
+        name: 'スタディタイマー',
+        short_name: 'タイマー',
+        description: '学習用のタイマーとBGMプレイヤー',
+        lang: 'ja',
+        start_url: '/',
+        display: 'standalone',
+        theme_color: '#2563eb',
+        background_color: '#eff6ff',
+        icons: [
+          { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png' },
+          { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png' },
+          { src: '/icons/icon-maskable-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+        ],
+      },
+    }),
+  ],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+  },
 });